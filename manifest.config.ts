@@ -42,7 +42,7 @@ export const buildManifest = (mode: string) => defineManifest({
     default_title: 'Capture Screenshot (Alt+Shift+S)',
   },
 
-  // Keyboard shortcut for screenshot capture
+  // Keyboard shortcuts for screenshot capture
   commands: {
     _execute_action: {
       suggested_key: {
@@ -51,6 +51,13 @@ export const buildManifest = (mode: string) => defineManifest({
       },
       description: 'Capture screenshot',
     },
+    'capture-region': {
+      suggested_key: {
+        default: 'Alt+Shift+R',
+        mac: 'Alt+Shift+R',
+      },
+      description: 'Capture a region of the page',
+    },
   },
 
   // Options page for settings
@@ -65,6 +72,22 @@ export const buildManifest = (mode: string) => defineManifest({
     type: 'module',
   },
 
+  // Buffer console output, uncaught errors, network requests and user
+  // actions in every page so captures can include them. MAIN world to see
+  // the page's own console, fetch, XMLHttpRequest and history.
+  content_scripts: [
+    {
+      matches: ['<all_urls>'],
+      js: [
+        'src/content/console-capture.ts',
+        'src/content/network-capture.ts',
+        'src/content/breadcrumb-recorder.ts',
+      ],
+      run_at: 'document_start',
+      world: 'MAIN',
+    },
+  ],
+
   // Permissions
   permissions: [
     'activeTab',      // Capture screenshot of current tab
@@ -74,6 +97,8 @@ export const buildManifest = (mode: string) => defineManifest({
     'contextMenus',   // Right-click menu for History/Settings
     'declarativeNetRequest',  // Modify headers for API requests
     'identity',       // OAuth flows with chrome.identity.launchWebAuthFlow
+    'tabCapture',     // Record the current tab
+    'offscreen',      // Run MediaRecorder for tab recordings
   ],
 
   // Host permissions for API requests (required for service worker fetch requests)
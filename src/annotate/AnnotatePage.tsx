@@ -1,25 +1,131 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { Canvas, FabricImage, Line, Rect, IText, Ellipse, PencilBrush, Group, Polygon, Pattern, util } from 'fabric'
+import { Canvas, FabricImage, Line, Rect, Ellipse, PencilBrush, Group, Polygon, Pattern, util } from 'fabric'
 import type { TPointerEventInfo, TPointerEvent, FabricObject } from 'fabric'
 import { IntegrationSelector } from './IntegrationSelector'
 import { DestinationSelector } from './DestinationSelector'
 import { TagSelector } from './TagSelector'
-import { formatMetadataAsHtml, generateDefaultTitle, type PageMetadata } from '@/lib/metadata'
+import { Callout, createCallout, createTailPreview } from './Callout'
+import { Magnifier, createMagnifierInset, createMagnifierSource, isMagnifierSource } from './Magnifier'
+import { createMeasurement, isEmptyMeasurement, isMeasurement } from './Measurement'
+import { TextAnnotation, createTextAnnotation } from './TextAnnotation'
+import { createStepMarker, getStepMarkers, isStepMarker, nextStepNumber, setStepNumber } from './StepMarker'
+import {
+  countConsoleErrors,
+  formatMetadata,
+  generateDefaultTitle,
+  isFailedRequest,
+  type PageMetadata,
+} from '@/lib/metadata'
 import {
   getIntegration,
   IntegrationError,
   type IntegrationType,
   type Destination,
   type SubDestination,
+  type ReportAttachment,
 } from '@/lib/integrations'
 import { BasecampSessionExpired } from '@/components/BasecampSessionExpired'
-
-type AnnotationTool = 'select' | 'arrow' | 'rectangle' | 'ellipse' | 'text' | 'freehand' | 'pixelate' | 'crop'
+import { getRecording, deleteRecording, type StoredRecording } from '@/lib/recording-store'
+import { buildHar } from '@/lib/network'
+import { breadcrumbsToSteps, formatStepsAsText, parseStepsText } from '@/lib/breadcrumbs'
+import { formatReportDescription } from '@/lib/report-description'
+import { getSnapshot, deleteSnapshot } from '@/lib/snapshot-store'
+import { getImage, deleteImage } from '@/lib/image-store'
+import { hasPoorMetric } from '@/lib/performance'
+import { describeRedactions, redactMetadata, type RedactionRules } from '@/lib/redaction'
+import {
+  getColorPalettes,
+  getRecentColors,
+  getRedactionSettings,
+  setRecentColors as storeRecentColors,
+  type ColorPalette,
+} from '@/lib/storage'
+import { finalizeSnapshot, imageRegionsToPage, type SnapshotRegion } from '@/lib/dom-snapshot'
+import { addStepLine, moveStep, renumberStepLines, renumberSteps, type StepRenumbering } from '@/lib/step-markers'
+import { addRecentColor, rgbToHex, withAlpha } from '@/lib/colors'
+import {
+  blurMargin,
+  blurRadiusForStrength,
+  getZoneRedactionStyle,
+  pixelSizeForStrength,
+  DEFAULT_REDACTION_STRENGTH,
+  REDACTION_STRENGTHS,
+  SOLID_REDACTION_COLOR,
+  type RedactionZoneStyle,
+  type RedactionStyle,
+} from '@/lib/redaction-styles'
+import { SENSITIVE_KIND_LABELS, type SensitiveKind, type SensitiveRegion } from '@/lib/sensitive-content'
+import { constrainToAxis, rulerTicks, toCssPixels } from '@/lib/measure'
+import {
+  DEFAULT_TEXT_STYLE,
+  DEFAULT_WRAP_WIDTH,
+  FONT_SIZES,
+  MAX_BOX_PADDING,
+  MAX_WRAP_WIDTH,
+  MIN_BOX_PADDING,
+  MIN_WRAP_WIDTH,
+  type TextAlign,
+  type TextStyle,
+} from '@/lib/text-style'
+
+type AnnotationTool = 'select' | 'arrow' | 'rectangle' | 'ellipse' | 'text' | 'freehand' | 'highlighter' | 'spotlight' | 'callout' | 'magnifier' | 'measure' | 'eyedropper' | 'pixelate' | 'step' | 'crop'
 type AppState = 'loading' | 'annotating' | 'submitting' | 'error'
 
 interface SessionData {
+  /** The captured screenshot (see lib/image-store) */
+  imageId: string
+  metadata: PageMetadata
+  /** Tab recording to attach (see lib/recording-store), when reporting from a recording */
+  recordingId?: string
+  /** DOM snapshot taken with the screenshot (see lib/snapshot-store) */
+  snapshotId?: string
+  /** Likely sensitive content found at capture time (see lib/sensitive-content) */
+  sensitiveRegions?: SensitiveRegion[]
+}
+
+interface HistoryEntry {
+  canvasJson: string
+  imageDataUrl: string
+}
+
+/**
+ * One screenshot in the report's filmstrip. The active screenshot lives on
+ * the Fabric canvas; the others hold what was saved when the user switched
+ * away from them.
+ */
+interface Screenshot {
+  id: number
+  /** Current background (already cropped, if a crop was applied) */
   imageDataUrl: string
   metadata: PageMetadata
+  /**
+   * Annotation objects, positioned as fractions of regionSize (the same
+   * scheme the crop restore uses) so they land correctly at any canvas size
+   */
+  annotations?: { objects: object[]; regionSize: { width: number; height: number } }
+  history?: HistoryEntry[]
+  historyIndex?: number
+  /** Flattened, annotated render - submitted for every screenshot but the active one */
+  renderedDataUrl?: string
+  /** The captured screenshot in lib/image-store, deleted with the session */
+  imageId?: string
+  /** DOM snapshot taken with the screenshot (see lib/snapshot-store) */
+  snapshotId?: string
+  /** Pixelate zones in imageDataUrl pixels, for redacting the snapshot */
+  pixelatedRegions?: SnapshotRegion[]
+  /** Sensitive content found at capture time, until it's proposed on the canvas */
+  sensitiveRegions?: SensitiveRegion[]
+}
+
+/** A capture the service worker added to this session (see addCaptureTarget) */
+interface AddedCapture {
+  /** The captured screenshot (see lib/image-store) */
+  imageId: string
+  /** Read from the image store once the capture is handed over */
+  imageDataUrl: string
+  metadata: PageMetadata
+  snapshotId?: string
+  sensitiveRegions?: SensitiveRegion[]
 }
 
 const COLORS = [
@@ -35,20 +141,328 @@ const COLORS = [
 
 const STROKE_WIDTHS = [2, 4, 6, 8]
 
+// How long a color has to stay picked before it counts as recently used, so
+// dragging through the color picker doesn't fill the recent row
+const RECENT_COLOR_DELAY = 800
+
+// Highlighter ink is translucent and multiplied onto the screenshot, so text
+// under it stays dark like a real marker
+const HIGHLIGHTER_OPACITY = 0.5
+const HIGHLIGHTER_WIDTH_FACTOR = 4
+
+// How dark the spotlight makes everything outside its regions
+const SPOTLIGHT_DIM = 'rgba(0, 0, 0, 0.6)'
+
+// Rulers along the screenshot's top and left edges
+const RULER_SIZE = 18
+const RULER_BACKGROUND = 'rgba(26, 26, 46, 0.85)'
+const RULER_COLOR = '#ffffff'
+
+// Custom properties annotation objects carry through history, crop and
+// screenshot switches (Fabric only serializes the ones it's asked for)
+const CUSTOM_PROPERTIES = ['isPixelateZone', 'redactionStyle', 'redactionStrength', 'sensitiveKind', 'isSpotlight', 'magnifierId', 'stepNumber']
+
+// Outline of proposed redactions awaiting the reporter's decision
+const SUGGESTION_COLOR = '#f59e0b'
+
+// Fabric draws everything onto one <canvas> (at devicePixelRatio resolution).
+// Past these sizes Chrome refuses the allocation or the editor slows to a
+// crawl, so tall full-page captures are displayed at a reduced scale instead.
+const MAX_CANVAS_DIMENSION = 8192
+const MAX_CANVAS_AREA = 4096 * 4096
+
+// Largest side of the submitted image - matches the tallest full-page capture
+const MAX_EXPORT_DIMENSION = 16384
+
+// Images this many times taller (relative to their width) than the canvas
+// area fit to width and scroll vertically instead of shrinking to a sliver.
+const TALL_IMAGE_RATIO = 2
+
+/**
+ * Read a Blob (e.g. a recording's GIF) as a data URL for Integration.uploadImage
+ */
+function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
+
+/**
+ * Flatten the canvas (background, annotations and pixelation) to a PNG at
+ * the background image's own resolution, however far the editor has scaled
+ * it down (bgScale) to fit or zoomed it
+ */
+function exportCanvas(canvas: Canvas, bgScale: number): string {
+  const multiplier = Math.min(1 / bgScale, MAX_EXPORT_DIMENSION / Math.max(canvas.width || 1, canvas.height || 1))
+  return canvas.toDataURL({ format: 'png', quality: 1, multiplier })
+}
+
+/**
+ * The canvas's pixelate zones as rectangles in background image pixels
+ */
+function getPixelatedRegions(canvas: Canvas, bgScale: number, bgOffset: { x: number; y: number }): SnapshotRegion[] {
+  return canvas.getObjects()
+    // @ts-expect-error custom property for pixelate zones
+    .filter((obj) => obj.isPixelateZone)
+    .map((obj) => ({
+      x: ((obj.left || 0) - bgOffset.x) / bgScale,
+      y: ((obj.top || 0) - bgOffset.y) / bgScale,
+      width: ((obj.width || 0) * (obj.scaleX || 1)) / bgScale,
+      height: ((obj.height || 0) * (obj.scaleY || 1)) / bgScale,
+    }))
+}
+
+/**
+ * Whether an object is a redaction zone (pixelated, blurred or solid)
+ */
+function isRedactionZone(obj: FabricObject): obj is Rect & { redactionStyle?: RedactionStyle; redactionStrength?: number } {
+  return obj instanceof Rect && (obj as { isPixelateZone?: boolean }).isPixelateZone === true
+}
+
+/**
+ * Whether an object is a proposed redaction over sensitive content, not yet
+ * confirmed or dismissed
+ */
+function isSensitiveSuggestion(obj: FabricObject): obj is Rect & { sensitiveKind: SensitiveKind } {
+  return obj instanceof Rect && typeof (obj as { sensitiveKind?: unknown }).sensitiveKind === 'string'
+}
+
+function getSensitiveSuggestions(canvas: Canvas): (Rect & { sensitiveKind: SensitiveKind })[] {
+  return canvas.getObjects().filter(isSensitiveSuggestion)
+}
+
+/**
+ * A dashed outline proposing a redaction over a sensitive region (given in
+ * background image pixels)
+ */
+function createSensitiveSuggestion(region: SensitiveRegion, bgScale: number, bgOffset: { x: number; y: number }): Rect {
+  const rect = new Rect({
+    left: bgOffset.x + region.x * bgScale,
+    top: bgOffset.y + region.y * bgScale,
+    width: region.width * bgScale,
+    height: region.height * bgScale,
+    fill: withAlpha(SUGGESTION_COLOR, 0.2),
+    stroke: SUGGESTION_COLOR,
+    strokeWidth: 2,
+    strokeDashArray: [6, 4],
+    strokeUniform: true,
+    objectCaching: false,
+    perPixelTargetFind: false,
+  })
+  rect.set({ sensitiveKind: region.kind })
+  return rect
+}
+
+/**
+ * How many proposed redactions a screenshot still has, placed on its canvas
+ * or not yet
+ */
+function countSensitiveSuggestions(shot: Screenshot): number {
+  if (shot.annotations) {
+    return shot.annotations.objects.filter((obj) => typeof (obj as { sensitiveKind?: unknown }).sensitiveKind === 'string').length
+  }
+  return shot.sensitiveRegions?.length ?? 0
+}
+
+/**
+ * The objects plus the other half of any magnifier among them - an inset
+ * and its source region are only ever removed together
+ */
+function withMagnifierPartners(canvas: Canvas, objects: FabricObject[]): FabricObject[] {
+  const ids = new Set<string>()
+  for (const obj of objects) {
+    if (obj instanceof Magnifier) ids.add(obj.sourceId)
+    else if (isMagnifierSource(obj)) ids.add(obj.magnifierId)
+  }
+  if (ids.size === 0) return objects
+  const partners = canvas.getObjects().filter((obj) =>
+    obj instanceof Magnifier ? ids.has(obj.sourceId) : isMagnifierSource(obj) && ids.has(obj.magnifierId)
+  )
+  return [...new Set([...objects, ...partners])]
+}
+
+/**
+ * Dim everything outside the canvas's spotlight regions. Runs after every
+ * render (including the export render), so the dimming always matches the
+ * regions wherever they've been moved, cropped or undone to.
+ */
+function renderSpotlightDim(canvas: Canvas, ctx: CanvasRenderingContext2D) {
+  const spotlights = canvas.getObjects().filter((obj) => (obj as { isSpotlight?: boolean }).isSpotlight)
+  if (spotlights.length === 0) return
+
+  // Cut the regions out of a dim layer first - overlapping regions would
+  // cancel each other out as holes in a single path
+  const layer = document.createElement('canvas')
+  layer.width = ctx.canvas.width
+  layer.height = ctx.canvas.height
+  const layerCtx = layer.getContext('2d')
+  if (!layerCtx) return
+  layerCtx.fillStyle = SPOTLIGHT_DIM
+  layerCtx.fillRect(0, 0, layer.width, layer.height)
+
+  const vpt = canvas.viewportTransform
+  layerCtx.setTransform(ctx.getTransform())
+  layerCtx.transform(vpt[0], vpt[1], vpt[2], vpt[3], vpt[4], vpt[5])
+  layerCtx.globalCompositeOperation = 'destination-out'
+  for (const spotlight of spotlights) {
+    const { tl, tr, br, bl } = spotlight.calcACoords()
+    layerCtx.beginPath()
+    layerCtx.moveTo(tl.x, tl.y)
+    layerCtx.lineTo(tr.x, tr.y)
+    layerCtx.lineTo(br.x, br.y)
+    layerCtx.lineTo(bl.x, bl.y)
+    layerCtx.closePath()
+    layerCtx.fill()
+  }
+
+  ctx.save()
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.drawImage(layer, 0, 0)
+  ctx.restore()
+}
+
+/**
+ * Rulers in CSS pixels along the top and left of the screenshot. They're an
+ * on-screen aid only: exports render to a context of their own and are left
+ * without them.
+ */
+function renderRulers(canvas: Canvas, ctx: CanvasRenderingContext2D, pixelRatio: number) {
+  const background = canvas.backgroundImage
+  if (!background || ctx !== canvas.getContext()) return
+
+  const scale = background.scaleX || 1
+  const left = background.left
+  const top = background.top
+  const width = background.width * scale
+  const height = background.height * scale
+  const canvasPerCss = scale * (pixelRatio || 1)
+  const ticks = rulerTicks(toCssPixels(Math.max(width, height), scale, pixelRatio), canvasPerCss)
+
+  ctx.save()
+  ctx.fillStyle = RULER_BACKGROUND
+  ctx.fillRect(left, top, width, RULER_SIZE)
+  ctx.fillRect(left, top + RULER_SIZE, RULER_SIZE, height - RULER_SIZE)
+
+  ctx.strokeStyle = RULER_COLOR
+  ctx.fillStyle = RULER_COLOR
+  ctx.lineWidth = 1
+  ctx.font = '9px Arial'
+  ctx.textBaseline = 'top'
+  ctx.beginPath()
+  for (const tick of ticks) {
+    const offset = tick.value * canvasPerCss
+    const length = tick.labeled ? RULER_SIZE : RULER_SIZE / 3
+    if (offset <= width) {
+      const x = Math.round(left + offset) + 0.5
+      ctx.moveTo(x, top + RULER_SIZE - length)
+      ctx.lineTo(x, top + RULER_SIZE)
+      if (tick.labeled && tick.value > 0) ctx.fillText(String(tick.value), x + 2, top + 2)
+    }
+    if (offset <= height) {
+      const y = Math.round(top + offset) + 0.5
+      ctx.moveTo(left + RULER_SIZE - length, y)
+      ctx.lineTo(left + RULER_SIZE, y)
+      if (tick.labeled && tick.value > 0) {
+        // Reads bottom to top, like a ruler held along the edge
+        ctx.save()
+        ctx.translate(left + 2, y - 2)
+        ctx.rotate(-Math.PI / 2)
+        ctx.fillText(String(tick.value), 0, 0)
+        ctx.restore()
+      }
+    }
+  }
+  ctx.stroke()
+  ctx.restore()
+}
+
+/**
+ * The screenshot's color at a point on the canvas, read from the full
+ * resolution background so annotations over it don't get in the way
+ */
+function sampleBackgroundColor(canvas: Canvas, point: { x: number; y: number }): string | null {
+  const background = canvas.backgroundImage
+  if (!(background instanceof FabricImage)) return null
+  const element = background.getElement()
+  const x = Math.floor((point.x - background.left) / (background.scaleX || 1))
+  const y = Math.floor((point.y - background.top) / (background.scaleY || 1))
+  if (x < 0 || y < 0 || x >= background.width || y >= background.height) return null
+
+  const sample = document.createElement('canvas')
+  sample.width = 1
+  sample.height = 1
+  const ctx = sample.getContext('2d')
+  if (!ctx) return null
+  ctx.drawImage(element, x, y, 1, 1, 0, 0, 1, 1)
+  const [r, g, b] = ctx.getImageData(0, 0, 1, 1).data
+  return rgbToHex(r, g, b)
+}
+
+/**
+ * Cap a display scale so the backing canvas for an image stays within the
+ * dimension and area limits above.
+ */
+function clampCanvasScale(width: number, height: number, scale: number): number {
+  if (!width || !height) return scale
+  const dpr = window.devicePixelRatio || 1
+  const maxByDimension = MAX_CANVAS_DIMENSION / (Math.max(width, height) * dpr)
+  const maxByArea = Math.sqrt(MAX_CANVAS_AREA / (width * height * dpr * dpr))
+  return Math.min(scale, maxByDimension, maxByArea)
+}
+
 export function AnnotatePage() {
   const [state, setState] = useState<AppState>('loading')
   const [imageDataUrl, setImageDataUrl] = useState<string | null>(null)
   const [metadata, setMetadata] = useState<PageMetadata | null>(null)
+  // What redaction changed in the metadata, for the preview
+  const [redactedParts, setRedactedParts] = useState<string[]>([])
+  const redactionRulesRef = useRef<RedactionRules | null>(null)
   const [currentTool, setCurrentTool] = useState<AnnotationTool>('select')
   const [currentColor, setCurrentColor] = useState('#ef4444')
   const [strokeWidth, setStrokeWidth] = useState(4)
   const [isDrawing, setIsDrawing] = useState(false)
+  // Whether placing, deleting and reordering step markers edits the
+  // description's "1. ..." lines to match
+  const [syncStepLines, setSyncStepLines] = useState(true)
+  const [selectedStepNumber, setSelectedStepNumber] = useState<number | null>(null)
+  const [highlighterShape, setHighlighterShape] = useState<'freehand' | 'rectangle'>('freehand')
+  // Style for new redaction zones, and the selected zone's (if any)
+  const [redactionZoneStyle, setRedactionZoneStyle] = useState<RedactionZoneStyle>({
+    style: 'pixelate',
+    strength: DEFAULT_REDACTION_STRENGTH,
+  })
+  const [selectedRedaction, setSelectedRedaction] = useState<RedactionZoneStyle | null>(null)
+  // Proposed redactions over sensitive content left on the active canvas
+  const [suggestionCount, setSuggestionCount] = useState(0)
+  const [selectedSuggestion, setSelectedSuggestion] = useState<SensitiveKind | null>(null)
+  // Connector line for new magnifier insets, and the selected inset's setting
+  const [showMagnifierConnector, setShowMagnifierConnector] = useState(true)
+  const [selectedMagnifierConnector, setSelectedMagnifierConnector] = useState<boolean | null>(null)
+  const [measureMode, setMeasureMode] = useState<'line' | 'box'>('line')
+  const [sampledColor, setSampledColor] = useState<string | null>(null)
+  const [recentColors, setRecentColors] = useState<string[]>([])
+  const [colorPalettes, setColorPalettes] = useState<ColorPalette[]>([])
+  const [activePaletteIndex, setActivePaletteIndex] = useState(0)
+  const [textStyle, setTextStyle] = useState<TextStyle>(DEFAULT_TEXT_STYLE)
+  const [selectedTextStyle, setSelectedTextStyle] = useState<TextStyle | null>(null)
+  const [showRulers, setShowRulers] = useState(false)
   const [selectedIntegration, setSelectedIntegration] = useState<IntegrationType | null>(null)
   const [selectedDestination, setSelectedDestination] = useState<Destination | null>(null)
   const [selectedSubDestination, setSelectedSubDestination] = useState<SubDestination | null>(null)
   const [cardTitle, setCardTitle] = useState('')
   const [cardDescription, setCardDescription] = useState('')
+  const [reproductionSteps, setReproductionSteps] = useState('')
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>([])
+  const [recording, setRecording] = useState<StoredRecording | null>(null)
+  const [includeRecording, setIncludeRecording] = useState(true)
+  const [includeGif, setIncludeGif] = useState(true)
+  const [includeConsoleLogs, setIncludeConsoleLogs] = useState(true)
+  const [includeFailedRequests, setIncludeFailedRequests] = useState(true)
+  const [includeHar, setIncludeHar] = useState(false)
+  const [includeDomSnapshot, setIncludeDomSnapshot] = useState(false)
   const [error, setError] = useState<string | null>(null)
   // When the last submit attempt failed with a Basecamp auth error, this is
   // the error code. Rendered as an inline reconnect banner so the user
@@ -57,14 +471,28 @@ export function AnnotatePage() {
     'session_expired' | 'invalid_client' | null
   >(null)
   const [canvasSize, setCanvasSize] = useState({ width: 800, height: 600 })
-  const [annotatedImageData, setAnnotatedImageData] = useState<string | null>(null)
+  const [screenshots, setScreenshots] = useState<Screenshot[]>([])
+  const [activeScreenshotId, setActiveScreenshotId] = useState(0)
+  const [addedCaptures, setAddedCaptures] = useState<AddedCapture[]>([])
+  const [waitingForCapture, setWaitingForCapture] = useState(false)
+  const nextScreenshotIdRef = useRef(1)
+  const tabIdRef = useRef<number | null>(null)
+  // Where each cropped background starts within its original capture, in
+  // image pixels - keyed by background so undoing a crop needs no bookkeeping
+  const cropOriginsRef = useRef(new Map<string, { x: number; y: number }>())
   const [zoom, setZoom] = useState(100)
   const [baseScale, setBaseScale] = useState(1)
+  const [fitToWidth, setFitToWidth] = useState(false)
   const [imageSize, setImageSize] = useState({ width: 0, height: 0 })
   const [cropRegion, setCropRegion] = useState<{ x: number; y: number; width: number; height: number } | null>(null)
   const [isCropping, setIsCropping] = useState(false)
   const pendingObjectsRef = useRef<object[] | null>(null)
   const pendingCropInfoRef = useRef<{ width: number; height: number } | null>(null)
+  // Sensitive regions to propose once the next screenshot's background loads
+  const pendingSuggestionsRef = useRef<SensitiveRegion[] | null>(null)
+  // Read while rendering, so they're kept in refs rather than state
+  const showRulersRef = useRef(false)
+  const pixelRatioRef = useRef(1)
   const canvasInstanceIdRef = useRef(0) // Track canvas instance to detect recreation during async ops
   
   const canvasRef = useRef<HTMLCanvasElement>(null)
@@ -72,15 +500,22 @@ export function AnnotatePage() {
   const canvasContainerRef = useRef<HTMLDivElement>(null)
   const drawingStartRef = useRef<{ x: number; y: number } | null>(null)
   const currentShapeRef = useRef<Line | Rect | Ellipse | Group | null>(null)
-  const historyRef = useRef<{ canvasJson: string; imageDataUrl: string }[]>([])
+  const historyRef = useRef<HistoryEntry[]>([])
   const historyIndexRef = useRef(-1)
   const isRestoringFromHistoryRef = useRef(false)
   const backgroundImageRef = useRef<HTMLImageElement | null>(null)
   const bgScaleRef = useRef<number>(1)
   const bgOffsetRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 })
 
-  // Pixelate a region from the background image and return as data URL
-  const pixelateFromBackground = useCallback((left: number, top: number, width: number, height: number): string | null => {
+  // Render a region of the background image pixelated or blurred and return
+  // it as a data URL
+  const redactFromBackground = useCallback((
+    left: number,
+    top: number,
+    width: number,
+    height: number,
+    { style, strength }: RedactionZoneStyle
+  ): string | null => {
     const bgImg = backgroundImageRef.current
     if (!bgImg || width < 1 || height < 1) return null
 
@@ -100,11 +535,37 @@ export function AnnotatePage() {
     const ctx = tempCanvas.getContext('2d')
     if (!ctx) return null
 
+    if (style === 'blur') {
+      // Blur a slightly larger area so the zone's edges pick up the real
+      // surroundings rather than fading out
+      const margin = blurMargin(strength)
+      const sourceCanvas = document.createElement('canvas')
+      sourceCanvas.width = width + margin * 2
+      sourceCanvas.height = height + margin * 2
+      const sourceCtx = sourceCanvas.getContext('2d')
+      if (!sourceCtx) return null
+      sourceCtx.drawImage(
+        bgImg,
+        srcX - margin / scale,
+        srcY - margin / scale,
+        srcW + (margin * 2) / scale,
+        srcH + (margin * 2) / scale,
+        0,
+        0,
+        sourceCanvas.width,
+        sourceCanvas.height
+      )
+
+      ctx.filter = `blur(${blurRadiusForStrength(strength)}px)`
+      ctx.drawImage(sourceCanvas, -margin, -margin)
+      return tempCanvas.toDataURL('image/png')
+    }
+
     // Draw the region from background
     ctx.drawImage(bgImg, srcX, srcY, srcW, srcH, 0, 0, width, height)
 
     // Pixelate by scaling down then up
-    const pixelSize = 10
+    const pixelSize = pixelSizeForStrength(strength)
     const smallW = Math.max(1, Math.ceil(width / pixelSize))
     const smallH = Math.max(1, Math.ceil(height / pixelSize))
 
@@ -125,35 +586,67 @@ export function AnnotatePage() {
     return tempCanvas.toDataURL('image/png')
   }, [])
 
-  // Update pixelate zone's fill with pixelated image
-  const updatePixelateZone = useCallback((rect: Rect) => {
+  // Re-render a redaction zone's fill from the background; resolves once the
+  // new fill is in place
+  const updatePixelateZone = useCallback((rect: Rect): Promise<void> => {
+    const zoneStyle = getZoneRedactionStyle(rect as { redactionStyle?: unknown; redactionStrength?: unknown })
+    if (zoneStyle.style === 'solid') {
+      rect.set({ fill: SOLID_REDACTION_COLOR })
+      fabricRef.current?.renderAll()
+      return Promise.resolve()
+    }
+
     const left = rect.left || 0
     const top = rect.top || 0
     const width = (rect.width || 0) * (rect.scaleX || 1)
     const height = (rect.height || 0) * (rect.scaleY || 1)
 
-    const pixelatedDataUrl = pixelateFromBackground(left, top, width, height)
-    if (!pixelatedDataUrl) return
+    const redactedDataUrl = redactFromBackground(left, top, width, height, zoneStyle)
+    if (!redactedDataUrl) return Promise.resolve()
 
     // Create an image and set it as pattern fill
-    const img = new Image()
-    img.onload = () => {
-      rect.set({
-        fill: new Pattern({
-          source: img,
-          repeat: 'no-repeat',
-        }),
-      })
-      fabricRef.current?.renderAll()
-    }
-    img.src = pixelatedDataUrl
-  }, [pixelateFromBackground])
+    return new Promise((resolve) => {
+      const img = new Image()
+      img.onload = () => {
+        rect.set({
+          fill: new Pattern({
+            source: img,
+            repeat: 'no-repeat',
+          }),
+        })
+        fabricRef.current?.renderAll()
+        resolve()
+      }
+      img.onerror = () => resolve()
+      img.src = redactedDataUrl
+    })
+  }, [redactFromBackground])
 
   // Load session data on mount
   useEffect(() => {
     loadSessionData()
   }, [])
 
+  // Recent colors and team palettes, saved across sessions
+  useEffect(() => {
+    getRecentColors().then(setRecentColors)
+    getColorPalettes().then(setColorPalettes)
+  }, [])
+
+  // Colors picked beyond the built-in ones go into the recent row once
+  // they've been settled on
+  useEffect(() => {
+    if (COLORS.includes(currentColor)) return
+    const timeout = setTimeout(() => {
+      setRecentColors((recent) => {
+        const updated = addRecentColor(recent, currentColor)
+        if (updated !== recent) storeRecentColors(updated)
+        return updated
+      })
+    }, RECENT_COLOR_DELAY)
+    return () => clearTimeout(timeout)
+  }, [currentColor])
+
   const loadSessionData = async () => {
     try {
       const result = await chrome.storage.session.get(['annotationSession'])
@@ -165,9 +658,42 @@ export function AnnotatePage() {
         return
       }
 
-      setImageDataUrl(session.imageDataUrl)
-      setMetadata(session.metadata)
-      setCardTitle(generateDefaultTitle(session.metadata))
+      const image = await getImage(session.imageId)
+      if (!image) {
+        setError('No screenshot data found. Please capture a new screenshot.')
+        setState('error')
+        return
+      }
+
+      if (session.recordingId) {
+        setRecording((await getRecording(session.recordingId)) ?? null)
+      }
+
+      // The service worker redacted the metadata at capture time; the rules
+      // are applied again in case they've changed since, so the preview and
+      // the report only ever see what may be sent
+      const rules = await getRedactionSettings()
+      redactionRulesRef.current = rules
+      const { redactedParts: capturedParts = [], ...capturedMetadata } = session.metadata
+      const sessionMetadata = redactMetadata(capturedMetadata, rules)
+      setRedactedParts([...new Set([...capturedParts, ...describeRedactions(capturedMetadata, sessionMetadata)])])
+
+      setScreenshots([{
+        id: 0,
+        imageDataUrl: image.dataUrl,
+        imageId: session.imageId,
+        metadata: sessionMetadata,
+        snapshotId: session.snapshotId,
+        sensitiveRegions: session.sensitiveRegions,
+      }])
+      pendingSuggestionsRef.current = session.sensitiveRegions ?? null
+      setActiveScreenshotId(0)
+      setImageDataUrl(image.dataUrl)
+      setMetadata(sessionMetadata)
+      setCardTitle(generateDefaultTitle(sessionMetadata))
+      if (sessionMetadata.breadcrumbs?.length) {
+        setReproductionSteps(formatStepsAsText(breadcrumbsToSteps(sessionMetadata.breadcrumbs)))
+      }
       setState('annotating')
     } catch (err) {
       console.error('Failed to load session:', err)
@@ -189,13 +715,15 @@ export function AnnotatePage() {
       // Store original image size
       setImageSize({ width: img.width, height: img.height })
 
-      // Calculate scale to fit in container
-      const scale = Math.min(
-        containerWidth / img.width,
-        containerHeight / img.height,
-        1
-      )
+      // Tall captures (full page) fit to width and scroll vertically;
+      // everything else fits entirely in the container
+      const isTall = img.height / img.width > (containerHeight / containerWidth) * TALL_IMAGE_RATIO
+      const fitScale = isTall
+        ? Math.min(containerWidth / img.width, 1)
+        : Math.min(containerWidth / img.width, containerHeight / img.height, 1)
+      const scale = clampCanvasScale(img.width, img.height, fitScale)
       
+      setFitToWidth(isTall)
       setBaseScale(scale)
       setZoom(100)
 
@@ -205,7 +733,9 @@ export function AnnotatePage() {
       })
     }
     img.src = imageDataUrl
-  }, [imageDataUrl])
+    // activeScreenshotId: switching between two identical images must still
+    // rebuild the canvas
+  }, [imageDataUrl, activeScreenshotId])
 
   // Initialize canvas
   useEffect(() => {
@@ -231,6 +761,10 @@ export function AnnotatePage() {
     })
 
     fabricRef.current = canvas
+    canvas.on('after:render', ({ ctx }) => renderSpotlightDim(canvas, ctx))
+    canvas.on('after:render', ({ ctx }) => {
+      if (showRulersRef.current) renderRulers(canvas, ctx, pixelRatioRef.current)
+    })
 
     // Load background image
     FabricImage.fromURL(imageDataUrl).then((img) => {
@@ -312,12 +846,28 @@ export function AnnotatePage() {
               pendingObjectsRef.current = null
               pendingCropInfoRef.current = null
               saveHistory()
+              isRestoringFromHistoryRef.current = false
             }
           }, 200)
         }).catch(err => {
           console.error('[Crop] Failed to enliven objects:', err)
         })
       } else {
+        // Propose redactions over sensitive content the capture found. Like
+        // restored objects, they stay pending until this canvas is known to
+        // be the final one
+        const suggestions = pendingSuggestionsRef.current
+        if (suggestions) {
+          for (const region of suggestions) {
+            fabricRef.current.add(createSensitiveSuggestion(region, scale, { x: offsetX, y: offsetY }))
+          }
+          setTimeout(() => {
+            if (canvasInstanceIdRef.current === thisCanvasId) {
+              pendingSuggestionsRef.current = null
+            }
+          }, 200)
+        }
+
         // No objects to restore, just save history
         if (!isRestoringFromHistoryRef.current) {
           saveHistory()
@@ -338,12 +888,18 @@ export function AnnotatePage() {
     
     const canvas = fabricRef.current
     canvas.selection = currentTool === 'select'
-    canvas.isDrawingMode = currentTool === 'freehand'
+    canvas.defaultCursor = currentTool === 'eyedropper' ? 'crosshair' : 'default'
+    const isHighlighting = currentTool === 'highlighter' && highlighterShape === 'freehand'
+    canvas.isDrawingMode = currentTool === 'freehand' || isHighlighting
     
     if (currentTool === 'freehand') {
       canvas.freeDrawingBrush = new PencilBrush(canvas)
       canvas.freeDrawingBrush.color = currentColor
       canvas.freeDrawingBrush.width = strokeWidth
+    } else if (isHighlighting) {
+      canvas.freeDrawingBrush = new PencilBrush(canvas)
+      canvas.freeDrawingBrush.color = withAlpha(currentColor, HIGHLIGHTER_OPACITY)
+      canvas.freeDrawingBrush.width = strokeWidth * HIGHLIGHTER_WIDTH_FACTOR
     }
     
     canvas.forEachObject((obj) => {
@@ -351,12 +907,20 @@ export function AnnotatePage() {
       obj.evented = currentTool === 'select'
     })
     canvas.renderAll()
-  }, [currentTool, currentColor, strokeWidth])
+  }, [currentTool, currentColor, strokeWidth, highlighterShape])
+
+  // Measurements and rulers use the active screenshot's device pixel ratio
+  useEffect(() => {
+    const active = screenshots.find((shot) => shot.id === activeScreenshotId)
+    pixelRatioRef.current = active?.metadata.devicePixelRatio || 1
+    showRulersRef.current = showRulers
+    fabricRef.current?.requestRenderAll()
+  }, [screenshots, activeScreenshotId, showRulers])
 
   // Save history
   const saveHistory = useCallback(() => {
     if (!fabricRef.current || !imageDataUrl || isRestoringFromHistoryRef.current) return
-    const json = JSON.stringify(fabricRef.current.toJSON())
+    const json = JSON.stringify(fabricRef.current.toObject(CUSTOM_PROPERTIES))
     historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1)
     historyRef.current.push({ canvasJson: json, imageDataUrl })
     historyIndexRef.current = historyRef.current.length - 1
@@ -406,25 +970,259 @@ export function AnnotatePage() {
     }
   }, [imageDataUrl])
 
+  // Renumber the step markers, and the description's step lines along with
+  // them when synced
+  const applyStepRenumbering = useCallback((mapping: StepRenumbering) => {
+    const canvas = fabricRef.current
+    if (!canvas || mapping.size === 0) return
+    for (const marker of getStepMarkers(canvas)) {
+      const next = mapping.get(marker.stepNumber)
+      if (next) setStepNumber(marker, next)
+    }
+    if (syncStepLines) {
+      setCardDescription((text) => renumberStepLines(text, mapping))
+    }
+    const active = canvas.getActiveObject()
+    setSelectedStepNumber(active && isStepMarker(active) ? active.stepNumber : null)
+    canvas.renderAll()
+  }, [syncStepLines])
+
+  // Move the selected step marker one place earlier or later
+  const handleMoveStep = useCallback((direction: -1 | 1) => {
+    const canvas = fabricRef.current
+    const active = canvas?.getActiveObject()
+    if (!canvas || !active || !isStepMarker(active)) return
+    const mapping = moveStep(getStepMarkers(canvas).length, active.stepNumber, direction)
+    if (!mapping) return
+    applyStepRenumbering(mapping)
+    saveHistory()
+  }, [applyStepRenumbering, saveHistory])
+
+  // Change the style or strength of new redaction zones and of the selected
+  // zone, re-rendering it from the background
+  const handleRedactionChange = useCallback((change: Partial<RedactionZoneStyle>) => {
+    const next = { ...(selectedRedaction ?? redactionZoneStyle), ...change }
+    setRedactionZoneStyle(next)
+
+    const active = fabricRef.current?.getActiveObject()
+    if (!active || !isRedactionZone(active)) return
+    active.set({ redactionStyle: next.style, redactionStrength: next.strength })
+    setSelectedRedaction(next)
+    updatePixelateZone(active).then(saveHistory)
+  }, [selectedRedaction, redactionZoneStyle, updatePixelateZone, saveHistory])
+
+  // Change the style for new text and the selected text annotation
+  const handleTextStyleChange = useCallback((change: Partial<TextStyle>) => {
+    const next = { ...(selectedTextStyle ?? textStyle), ...change }
+    setTextStyle(next)
+
+    const canvas = fabricRef.current
+    const active = canvas?.getActiveObject()
+    if (!canvas || !(active instanceof TextAnnotation)) return
+    active.setTextStyle(next)
+    setSelectedTextStyle(active.getTextStyle())
+    canvas.renderAll()
+    saveHistory()
+  }, [selectedTextStyle, textStyle, saveHistory])
+
+  // Sampled colors go on their own line, ready to be referenced in the report
+  const handleAddSampledColor = useCallback(() => {
+    if (!sampledColor) return
+    setCardDescription((text) => (text === '' || text.endsWith('\n') ? `${text}${sampledColor}` : `${text}\n${sampledColor}`))
+  }, [sampledColor])
+
+  // Show or hide the connector line on new magnifier insets and the
+  // selected one
+  const handleMagnifierConnectorChange = useCallback((show: boolean) => {
+    setShowMagnifierConnector(show)
+
+    const canvas = fabricRef.current
+    const active = canvas?.getActiveObject()
+    if (!canvas || !(active instanceof Magnifier)) return
+    active.set({ showConnector: show })
+    setSelectedMagnifierConnector(show)
+    canvas.renderAll()
+    saveHistory()
+  }, [saveHistory])
+
+  // Turn the selected (or all) proposed redactions into redaction zones in
+  // the current redaction style
+  const handleConfirmSuggestions = useCallback((scope: 'selected' | 'all') => {
+    const canvas = fabricRef.current
+    if (!canvas) return
+    const suggestions = scope === 'all' ? getSensitiveSuggestions(canvas) : canvas.getActiveObjects().filter(isSensitiveSuggestion)
+    if (suggestions.length === 0) return
+
+    canvas.discardActiveObject()
+    for (const suggestion of suggestions) {
+      suggestion.set({
+        sensitiveKind: undefined,
+        isPixelateZone: true,
+        redactionStyle: redactionZoneStyle.style,
+        redactionStrength: redactionZoneStyle.strength,
+        fill: 'transparent',
+        stroke: 'transparent',
+        strokeDashArray: null,
+      })
+    }
+    setSuggestionCount(getSensitiveSuggestions(canvas).length)
+    Promise.all(suggestions.map(updatePixelateZone)).then(saveHistory)
+  }, [redactionZoneStyle, updatePixelateZone, saveHistory])
+
+  // Drop the selected (or all) proposed redactions
+  const handleDismissSuggestions = useCallback((scope: 'selected' | 'all') => {
+    const canvas = fabricRef.current
+    if (!canvas) return
+    const suggestions = scope === 'all' ? getSensitiveSuggestions(canvas) : canvas.getActiveObjects().filter(isSensitiveSuggestion)
+    if (suggestions.length === 0) return
+
+    canvas.discardActiveObject()
+    canvas.remove(...suggestions)
+    canvas.renderAll()
+    saveHistory()
+  }, [saveHistory])
+
   // Clear
   const handleClear = useCallback(() => {
     if (!fabricRef.current) return
+    applyStepRenumbering(renumberSteps([], getStepMarkers(fabricRef.current).map((marker) => marker.stepNumber)))
     const bg = fabricRef.current.backgroundImage
     fabricRef.current.clear()
     if (bg) fabricRef.current.backgroundImage = bg
     fabricRef.current.renderAll()
     saveHistory()
-  }, [saveHistory])
+  }, [saveHistory, applyStepRenumbering])
 
-  // Delete selected
+  // Delete selected, closing any gap left in the step numbers
   const handleDelete = useCallback(() => {
     if (!fabricRef.current) return
-    const activeObjects = fabricRef.current.getActiveObjects()
+    const activeObjects = withMagnifierPartners(fabricRef.current, fabricRef.current.getActiveObjects())
+    const removedSteps = activeObjects.filter(isStepMarker).map((marker) => marker.stepNumber)
     activeObjects.forEach((obj) => fabricRef.current?.remove(obj))
     fabricRef.current.discardActiveObject()
+    if (removedSteps.length > 0) {
+      const kept = getStepMarkers(fabricRef.current).map((marker) => marker.stepNumber)
+      applyStepRenumbering(renumberSteps(kept, removedSteps))
+    }
     fabricRef.current.renderAll()
     saveHistory()
-  }, [saveHistory])
+  }, [saveHistory, applyStepRenumbering])
+
+  // Switch the canvas to another screenshot, saving the current one's
+  // annotations, history and a flattened render into the filmstrip
+  const switchToScreenshot = useCallback((next: Screenshot) => {
+    const canvas = fabricRef.current
+    if (!canvas || !imageDataUrl || next.id === activeScreenshotId) return
+
+    const offset = bgOffsetRef.current
+    const regionSize = {
+      width: (canvas.width || 0) - offset.x * 2,
+      height: (canvas.height || 0) - offset.y * 2,
+    }
+    const objects = canvas.getObjects().map((obj) => {
+      const objData = obj.toObject(CUSTOM_PROPERTIES)
+      objData._relativeLeft = ((obj.left || 0) - offset.x) / regionSize.width
+      objData._relativeTop = ((obj.top || 0) - offset.y) / regionSize.height
+      objData._oldBgScale = bgScaleRef.current
+      return objData
+    })
+    const saved = {
+      imageDataUrl,
+      annotations: { objects, regionSize },
+      history: historyRef.current,
+      historyIndex: historyIndexRef.current,
+      renderedDataUrl: exportCanvas(canvas, bgScaleRef.current),
+      pixelatedRegions: getPixelatedRegions(canvas, bgScaleRef.current, offset),
+      sensitiveRegions: undefined,
+    }
+    setScreenshots((list) => list.map((shot) => (shot.id === activeScreenshotId ? { ...shot, ...saved } : shot)))
+
+    // Restore the next screenshot through the same path a crop uses
+    historyRef.current = next.history ?? []
+    historyIndexRef.current = next.historyIndex ?? -1
+    isRestoringFromHistoryRef.current = historyRef.current.length > 0
+    const hasObjects = !!next.annotations && next.annotations.objects.length > 0
+    pendingObjectsRef.current = hasObjects ? next.annotations!.objects : null
+    pendingCropInfoRef.current = hasObjects ? next.annotations!.regionSize : null
+    pendingSuggestionsRef.current = next.annotations ? null : next.sensitiveRegions ?? null
+
+    setCropRegion(null)
+    setIsCropping(false)
+    setActiveScreenshotId(next.id)
+    setImageDataUrl(next.imageDataUrl)
+    setZoom(100)
+  }, [imageDataUrl, activeScreenshotId])
+
+  const handleRemoveScreenshot = useCallback((id: number) => {
+    if (screenshots.length < 2) return
+
+    const index = screenshots.findIndex((shot) => shot.id === id)
+    if (id === activeScreenshotId) {
+      switchToScreenshot(screenshots[index + 1] ?? screenshots[index - 1])
+    }
+    const { snapshotId, imageId } = screenshots[index] ?? {}
+    if (snapshotId) {
+      deleteSnapshot(snapshotId).catch(() => {})
+    }
+    if (imageId) {
+      deleteImage(imageId).catch(() => {})
+    }
+    setScreenshots((list) => list.filter((shot) => shot.id !== id))
+  }, [screenshots, activeScreenshotId, switchToScreenshot])
+
+  // Wait for the next PopShot capture (from any tab) to be added to this
+  // report instead of opening a new annotation page
+  const handleAddScreenshot = async () => {
+    const tab = await chrome.tabs.getCurrent()
+    if (!tab?.id) return
+    tabIdRef.current = tab.id
+    await chrome.storage.session.set({ addCaptureTarget: { tabId: tab.id } })
+    setWaitingForCapture(true)
+  }
+
+  const handleCancelAddScreenshot = async () => {
+    await chrome.storage.session.remove('addCaptureTarget')
+    setWaitingForCapture(false)
+  }
+
+  // The service worker hands added captures over in session storage, with
+  // their images in the image store
+  useEffect(() => {
+    const handleStorageChange = async (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName !== 'session' || tabIdRef.current === null) return
+      const key = `addedCaptures:${tabIdRef.current}`
+      const captures = changes[key]?.newValue as Omit<AddedCapture, 'imageDataUrl'>[] | undefined
+      if (!captures?.length) return
+      chrome.storage.session.remove(key)
+      const loaded = await Promise.all(captures.map(async (capture) => {
+        const image = await getImage(capture.imageId)
+        return image ? { ...capture, imageDataUrl: image.dataUrl } : null
+      }))
+      setAddedCaptures((pending) => [...pending, ...loaded.filter((capture): capture is AddedCapture => capture !== null)])
+    }
+    chrome.storage.onChanged.addListener(handleStorageChange)
+    return () => chrome.storage.onChanged.removeListener(handleStorageChange)
+  }, [])
+
+  // Add handed-over captures to the filmstrip and show the newest
+  useEffect(() => {
+    if (addedCaptures.length === 0 || !fabricRef.current) return
+
+    const added = addedCaptures.map((capture) => ({
+      id: nextScreenshotIdRef.current++,
+      imageDataUrl: capture.imageDataUrl,
+      imageId: capture.imageId,
+      metadata: redactionRulesRef.current
+        ? redactMetadata(capture.metadata, redactionRulesRef.current)
+        : capture.metadata,
+      snapshotId: capture.snapshotId,
+      sensitiveRegions: capture.sensitiveRegions,
+    }))
+    setAddedCaptures([])
+    setWaitingForCapture(false)
+    setScreenshots((list) => [...list, ...added])
+    switchToScreenshot(added[added.length - 1])
+  }, [addedCaptures, switchToScreenshot])
 
   // Zoom handlers
   const handleZoomIn = useCallback(() => {
@@ -439,6 +1237,13 @@ export function AnnotatePage() {
     setZoom(100)
   }, [])
 
+  // Large captures can't be zoomed as far as asked (see clampCanvasScale),
+  // so the controls show and stop at the zoom actually applied
+  const maxZoom = imageSize.width && baseScale
+    ? Math.floor((clampCanvasScale(imageSize.width, imageSize.height, Infinity) / baseScale) * 100)
+    : 200
+  const effectiveZoom = Math.min(zoom, maxZoom)
+
   // Apply crop - non-destructive, keeps annotations as objects
   const handleApplyCrop = useCallback(() => {
     if (!cropRegion || !fabricRef.current || !backgroundImageRef.current) return
@@ -468,6 +1273,8 @@ export function AnnotatePage() {
 
     ctx.drawImage(bgImg, srcX, srcY, srcW, srcH, 0, 0, srcW, srcH)
     const croppedDataUrl = cropCanvas.toDataURL('image/png')
+    const cropOrigin = cropOriginsRef.current.get(imageDataUrl ?? '') ?? { x: 0, y: 0 }
+    cropOriginsRef.current.set(croppedDataUrl, { x: cropOrigin.x + srcX, y: cropOrigin.y + srcY })
 
     // Save to history before making changes (with current image)
     saveHistory()
@@ -491,7 +1298,7 @@ export function AnnotatePage() {
     
     // Serialize objects with adjusted positions and store scale info
     const adjustedObjects = objectsRelativeToCrop.map(({ obj, relLeft, relTop }) => {
-      const objData = obj.toObject()
+      const objData = obj.toObject(CUSTOM_PROPERTIES)
       // Store position as fraction of crop region (0-1 range plus overflow)
       objData._relativeLeft = relLeft / cropRegion.width
       objData._relativeTop = relTop / cropRegion.height
@@ -515,7 +1322,7 @@ export function AnnotatePage() {
     setIsCropping(false)
     setCurrentTool('select')
     setZoom(100)
-  }, [cropRegion, saveHistory])
+  }, [cropRegion, saveHistory, imageDataUrl])
 
   const handleCancelCrop = useCallback(() => {
     setCropRegion(null)
@@ -527,7 +1334,7 @@ export function AnnotatePage() {
   useEffect(() => {
     if (!imageSize.width || !baseScale) return
     
-    const effectiveScale = baseScale * (zoom / 100)
+    const effectiveScale = clampCanvasScale(imageSize.width, imageSize.height, baseScale * (zoom / 100))
     setCanvasSize({
       width: Math.floor(imageSize.width * effectiveScale),
       height: Math.floor(imageSize.height * effectiveScale),
@@ -570,8 +1377,33 @@ export function AnnotatePage() {
   // Mouse handlers
   const handleMouseDown = useCallback((opt: TPointerEventInfo<TPointerEvent>) => {
     if (currentTool === 'select' || currentTool === 'freehand' || !fabricRef.current) return
+    // Freehand highlighting is drawn by the brush
+    if (currentTool === 'highlighter' && highlighterShape === 'freehand') return
 
     const pointer = fabricRef.current.getScenePoint(opt.e)
+
+    if (currentTool === 'eyedropper') {
+      const color = sampleBackgroundColor(fabricRef.current, pointer)
+      if (color) {
+        setCurrentColor(color)
+        setSampledColor(color)
+      }
+      return
+    }
+
+    if (currentTool === 'step') {
+      // One click, one marker - numbered after the last one
+      const number = nextStepNumber(fabricRef.current)
+      const marker = createStepMarker(number, pointer, currentColor, strokeWidth)
+      marker.selectable = false
+      fabricRef.current.add(marker)
+      if (syncStepLines) {
+        setCardDescription((text) => addStepLine(text, number))
+      }
+      saveHistory()
+      return
+    }
+
     drawingStartRef.current = { x: pointer.x, y: pointer.y }
     setIsDrawing(true)
 
@@ -613,8 +1445,45 @@ export function AnnotatePage() {
       })
       fabricRef.current.add(ellipse)
       currentShapeRef.current = ellipse
+    } else if (currentTool === 'highlighter') {
+      const rect = new Rect({
+        left: pointer.x,
+        top: pointer.y,
+        width: 0,
+        height: 0,
+        fill: withAlpha(currentColor, HIGHLIGHTER_OPACITY),
+        strokeWidth: 0,
+        globalCompositeOperation: 'multiply',
+        selectable: false,
+      })
+      fabricRef.current.add(rect)
+      currentShapeRef.current = rect
+    } else if (currentTool === 'measure') {
+      const measurement = createMeasurement(measureMode, pointer, currentColor, pixelRatioRef.current)
+      fabricRef.current.add(measurement)
+      currentShapeRef.current = measurement
+    } else if (currentTool === 'magnifier') {
+      // The source region; the inset is added once it's dragged out
+      const source = createMagnifierSource(pointer, currentColor)
+      fabricRef.current.add(source)
+      currentShapeRef.current = source
+    } else if (currentTool === 'spotlight') {
+      // The region itself stays clear; renderSpotlightDim darkens the rest
+      const rect = new Rect({
+        left: pointer.x,
+        top: pointer.y,
+        width: 0,
+        height: 0,
+        fill: 'rgba(0,0,0,0.01)', // Nearly invisible but clickable
+        strokeWidth: 0,
+        selectable: false,
+      })
+      // @ts-expect-error custom property for spotlight regions
+      rect.isSpotlight = true
+      fabricRef.current.add(rect)
+      currentShapeRef.current = rect
     } else if (currentTool === 'pixelate') {
-      // Pixelation zone - will show pixelated content
+      // Redaction zone - will show pixelated, blurred or blacked-out content
       const rect = new Rect({
         left: pointer.x,
         top: pointer.y,
@@ -626,18 +1495,17 @@ export function AnnotatePage() {
         objectCaching: false, // Disable caching so it updates on move
         perPixelTargetFind: false, // Use bounding box for selection (filled with pattern)
       })
+      rect.set({ redactionStyle: redactionZoneStyle.style, redactionStrength: redactionZoneStyle.strength })
       // @ts-expect-error custom property for pixelate zones
       rect.isPixelateZone = true
       fabricRef.current.add(rect)
       currentShapeRef.current = rect
+    } else if (currentTool === 'callout') {
+      const preview = createTailPreview(pointer, currentColor)
+      fabricRef.current.add(preview)
+      currentShapeRef.current = preview
     } else if (currentTool === 'text') {
-      const text = new IText('Type here', {
-        left: pointer.x,
-        top: pointer.y,
-        fontSize: 24,
-        fill: currentColor,
-        fontFamily: 'Arial',
-      })
+      const text = createTextAnnotation(pointer, currentColor, textStyle)
       fabricRef.current.add(text)
       fabricRef.current.setActiveObject(text)
       text.enterEditing()
@@ -645,7 +1513,7 @@ export function AnnotatePage() {
       setCurrentTool('select')
       saveHistory()
     }
-  }, [currentTool, currentColor, strokeWidth, saveHistory, createArrow])
+  }, [currentTool, currentColor, strokeWidth, saveHistory, createArrow, syncStepLines, highlighterShape, redactionZoneStyle, measureMode, textStyle])
 
   const handleMouseMove = useCallback((opt: TPointerEventInfo<TPointerEvent>) => {
     if (!isDrawing || !drawingStartRef.current || !fabricRef.current) return
@@ -673,7 +1541,10 @@ export function AnnotatePage() {
       newArrow.selectable = false
       fabricRef.current.add(newArrow)
       currentShapeRef.current = newArrow
-    } else if (currentTool === 'rectangle' && currentShapeRef.current instanceof Rect) {
+    } else if (
+      (currentTool === 'rectangle' || currentTool === 'highlighter' || currentTool === 'spotlight' || currentTool === 'magnifier' || currentTool === 'measure') &&
+      currentShapeRef.current instanceof Rect
+    ) {
       currentShapeRef.current.set({
         left: Math.min(startX, pointer.x),
         top: Math.min(startY, pointer.y),
@@ -689,6 +1560,12 @@ export function AnnotatePage() {
         rx,
         ry,
       })
+    } else if (currentTool === 'measure' && currentShapeRef.current instanceof Line) {
+      // Shift keeps the dimension line horizontal or vertical
+      const end = opt.e.shiftKey ? constrainToAxis({ x: startX, y: startY }, pointer) : pointer
+      currentShapeRef.current.set({ x2: end.x, y2: end.y })
+    } else if (currentTool === 'callout' && currentShapeRef.current instanceof Line) {
+      currentShapeRef.current.set({ x2: pointer.x, y2: pointer.y })
     } else if (currentTool === 'pixelate' && currentShapeRef.current instanceof Rect) {
       const newLeft = Math.min(startX, pointer.x)
       const newTop = Math.min(startY, pointer.y)
@@ -711,7 +1588,24 @@ export function AnnotatePage() {
     fabricRef.current.renderAll()
   }, [isDrawing, currentTool, createArrow, updatePixelateZone])
 
-  const handleMouseUp = useCallback(() => {
+  // Link a dragged-out source region to a new inset magnifying it, placed
+  // beside it on the screenshot
+  const addMagnifierInset = useCallback((source: Rect) => {
+    const canvas = fabricRef.current
+    if (!canvas) return
+
+    const offset = bgOffsetRef.current
+    const inset = createMagnifierInset(source, {
+      x: offset.x,
+      y: offset.y,
+      width: (canvas.width || 0) - offset.x * 2,
+      height: (canvas.height || 0) - offset.y * 2,
+    }, { stroke: currentColor, strokeWidth, showConnector: showMagnifierConnector })
+    if (inset) canvas.add(inset)
+    else canvas.remove(source)
+  }, [currentColor, strokeWidth, showMagnifierConnector])
+
+  const handleMouseUp = useCallback((opt: TPointerEventInfo<TPointerEvent>) => {
     if (!isDrawing || !fabricRef.current) return
 
     // For crop, don't reset - keep the selection visible for apply/cancel
@@ -721,6 +1615,36 @@ export function AnnotatePage() {
       return
     }
 
+    // The preview line becomes the callout's tail
+    if (currentTool === 'callout' && drawingStartRef.current) {
+      const canvas = fabricRef.current
+      if (currentShapeRef.current) {
+        canvas.remove(currentShapeRef.current)
+      }
+      currentShapeRef.current = null
+      const callout = createCallout(drawingStartRef.current, canvas.getScenePoint(opt.e), currentColor)
+      canvas.add(callout)
+      canvas.setActiveObject(callout)
+      callout.enterEditing()
+      callout.selectAll()
+      setIsDrawing(false)
+      drawingStartRef.current = null
+      setCurrentTool('select')
+      saveHistory()
+      return
+    }
+
+    if (currentTool === 'magnifier' && currentShapeRef.current instanceof Rect) {
+      addMagnifierInset(currentShapeRef.current)
+    }
+
+    // A click without a drag measures nothing
+    const shape = currentShapeRef.current
+    if (shape && isMeasurement(shape) && isEmptyMeasurement(shape)) {
+      fabricRef.current.remove(shape)
+      currentShapeRef.current = null
+    }
+
     // Make shapes selectable after drawing
     if (currentShapeRef.current) {
       currentShapeRef.current.selectable = true
@@ -730,16 +1654,25 @@ export function AnnotatePage() {
     drawingStartRef.current = null
     currentShapeRef.current = null
     saveHistory()
-  }, [isDrawing, saveHistory, currentTool])
+  }, [isDrawing, saveHistory, currentTool, currentColor, addMagnifierInset])
 
   // Set up canvas events
   useEffect(() => {
     if (!fabricRef.current) return
     const canvas = fabricRef.current
+
+    // Highlighter strokes blend like marker ink
+    const handlePathCreated = ({ path }: { path: FabricObject }) => {
+      if (currentTool === 'highlighter') {
+        path.set({ globalCompositeOperation: 'multiply' })
+        canvas.renderAll()
+      }
+      saveHistory()
+    }
     canvas.on('mouse:down', handleMouseDown)
     canvas.on('mouse:move', handleMouseMove)
     canvas.on('mouse:up', handleMouseUp)
-    canvas.on('path:created', saveHistory)
+    canvas.on('path:created', handlePathCreated)
     
     // Update pixelate zones when objects are modified (moved, scaled, etc)
     const handleObjectModified = (e: { target?: unknown }) => {
@@ -753,28 +1686,68 @@ export function AnnotatePage() {
     canvas.on('object:modified', handleObjectModified)
     canvas.on('object:moving', handleObjectModified)
     canvas.on('object:scaling', handleObjectModified)
+
+    // Callout edits (moving, resizing, dragging the tail, typing) are undoable
+    const handleCalloutChanged = (e: { target?: unknown }) => {
+      if (e.target instanceof Callout) saveHistory()
+    }
+    canvas.on('object:modified', handleCalloutChanged)
+    canvas.on('text:editing:exited', handleCalloutChanged)
+
+    // Track the selected step marker, redaction zone and proposed redaction
+    // for their controls
+    const handleSelection = () => {
+      const active = canvas.getActiveObject()
+      setSelectedStepNumber(active && isStepMarker(active) ? active.stepNumber : null)
+      setSelectedRedaction(active && isRedactionZone(active) ? getZoneRedactionStyle(active) : null)
+      setSelectedSuggestion(active && isSensitiveSuggestion(active) ? active.sensitiveKind : null)
+      setSelectedMagnifierConnector(active instanceof Magnifier ? active.showConnector : null)
+      setSelectedTextStyle(active instanceof TextAnnotation ? active.getTextStyle() : null)
+    }
+    canvas.on('selection:created', handleSelection)
+    canvas.on('selection:updated', handleSelection)
+    canvas.on('selection:cleared', handleSelection)
+    // Dragging a text annotation's side handle changes its wrap width
+    canvas.on('object:modified', handleSelection)
+
+    // Keep count of the proposed redactions still awaiting a decision
+    const handleObjectsChanged = () => setSuggestionCount(getSensitiveSuggestions(canvas).length)
+    handleObjectsChanged()
+    canvas.on('object:added', handleObjectsChanged)
+    canvas.on('object:removed', handleObjectsChanged)
     
     return () => {
       canvas.off('mouse:down', handleMouseDown)
       canvas.off('mouse:move', handleMouseMove)
       canvas.off('mouse:up', handleMouseUp)
-      canvas.off('path:created', saveHistory)
+      canvas.off('path:created', handlePathCreated)
       canvas.off('object:modified', handleObjectModified)
       canvas.off('object:moving', handleObjectModified)
       canvas.off('object:scaling', handleObjectModified)
+      canvas.off('object:modified', handleCalloutChanged)
+      canvas.off('text:editing:exited', handleCalloutChanged)
+      canvas.off('selection:created', handleSelection)
+      canvas.off('selection:updated', handleSelection)
+      canvas.off('selection:cleared', handleSelection)
+      canvas.off('object:modified', handleSelection)
+      canvas.off('object:added', handleObjectsChanged)
+      canvas.off('object:removed', handleObjectsChanged)
     }
-  }, [handleMouseDown, handleMouseMove, handleMouseUp, saveHistory, updatePixelateZone])
+  }, [handleMouseDown, handleMouseMove, handleMouseUp, saveHistory, updatePixelateZone, currentTool])
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLSelectElement) return
       
       if ((e.ctrlKey || e.metaKey) && e.key === 'z') {
         e.preventDefault()
         if (e.shiftKey) handleRedo()
         else handleUndo()
       }
+      // Tool keys are bare letters - leave Ctrl+S, Alt+D and the like to the browser
+      if (e.ctrlKey || e.metaKey || e.altKey) return
+
       if (e.key === 'Delete' || e.key === 'Backspace') {
         handleDelete()
       }
@@ -783,9 +1756,18 @@ export function AnnotatePage() {
       if (e.key === 'r') setCurrentTool('rectangle')
       if (e.key === 'e') setCurrentTool('ellipse')
       if (e.key === 't') setCurrentTool('text')
+      if (e.key === 'b') setCurrentTool('callout')
       if (e.key === 'p') setCurrentTool('freehand')
+      if (e.key === 'h') setCurrentTool('highlighter')
+      if (e.key === 's') setCurrentTool('spotlight')
       if (e.key === 'x') setCurrentTool('pixelate')
-      if (e.key === 'c' && !e.ctrlKey && !e.metaKey) setCurrentTool('crop')
+      if (e.key === 'n') setCurrentTool('step')
+      if (e.key === 'm') setCurrentTool('magnifier')
+      if (e.key === 'd') setCurrentTool('measure')
+      if (e.key === 'i') setCurrentTool('eyedropper')
+      if (e.key === '[') handleMoveStep(-1)
+      if (e.key === ']') handleMoveStep(1)
+      if (e.key === 'c') setCurrentTool('crop')
       if (e.key === 'Escape' && isCropping) {
         setCropRegion(null)
         setIsCropping(false)
@@ -793,7 +1775,50 @@ export function AnnotatePage() {
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handleUndo, handleRedo, handleDelete, isCropping])
+  }, [handleUndo, handleRedo, handleDelete, handleMoveStep, isCropping])
+
+  // Redact each screenshot's DOM snapshot under its pixelate zones and turn
+  // it into an HTML attachment
+  const buildSnapshotAttachments = async (canvas: Canvas): Promise<ReportAttachment[]> => {
+    const attachments: ReportAttachment[] = []
+    const timestamp = Date.now()
+    const withSnapshots = screenshots.filter((shot) => shot.snapshotId)
+    const rules = redactionRulesRef.current ?? await getRedactionSettings()
+
+    for (const [index, shot] of withSnapshots.entries()) {
+      const snapshot = await getSnapshot(shot.snapshotId!)
+      if (!snapshot) continue
+
+      const isActive = shot.id === activeScreenshotId
+      const background = isActive ? imageDataUrl : shot.imageDataUrl
+      const cropOrigin = cropOriginsRef.current.get(background ?? '') ?? { x: 0, y: 0 }
+      const regions = (isActive
+        ? getPixelatedRegions(canvas, bgScaleRef.current, bgOffsetRef.current)
+        : shot.pixelatedRegions ?? []
+      ).map((region) => ({ ...region, x: region.x + cropOrigin.x, y: region.y + cropOrigin.y }))
+
+      const html = finalizeSnapshot(snapshot.html, imageRegionsToPage(regions, snapshot.origin), rules)
+      const suffix = withSnapshots.length > 1 ? `-${index + 1}` : ''
+      attachments.push({
+        data: new Blob([html], { type: 'text/html' }),
+        filename: `snapshot-${timestamp}${suffix}.html`,
+      })
+    }
+    return attachments
+  }
+
+  // The stored screenshots and snapshots are only needed until the report
+  // is sent or discarded
+  const deleteStoredCaptures = async () => {
+    for (const shot of screenshots) {
+      if (shot.snapshotId) {
+        await deleteSnapshot(shot.snapshotId).catch(() => {})
+      }
+      if (shot.imageId) {
+        await deleteImage(shot.imageId).catch(() => {})
+      }
+    }
+  }
 
   // Submit - capture image data first, then submit
   const handleSubmit = async () => {
@@ -814,52 +1839,79 @@ export function AnnotatePage() {
       return
     }
 
-    setState('submitting')
-
-    // Capture the annotated image (pixelation already rendered)
-    let imageData = annotatedImageData
-    if (!imageData && fabricRef.current) {
-      imageData = fabricRef.current.toDataURL({ format: 'png', quality: 1, multiplier: 2 })
-      setAnnotatedImageData(imageData)
+    // Nothing goes out while proposed redactions are still undecided
+    const unreviewed = screenshots.reduce(
+      (total, shot) => total + (shot.id === activeScreenshotId ? suggestionCount : countSensitiveSuggestions(shot)),
+      0
+    )
+    if (unreviewed > 0) {
+      setError(`Redact or dismiss the ${unreviewed} suggested sensitive ${unreviewed === 1 ? 'area' : 'areas'} first`)
+      return
     }
 
-    if (!imageData) {
+    setState('submitting')
+
+    // Capture the annotated images (pixelation already rendered) - the
+    // active screenshot from the canvas, the rest from their saved renders
+    const canvas = fabricRef.current
+    if (!canvas) {
       setError('Failed to capture annotated image')
       setState('annotating')
       return
     }
     setError(null)
+    const imageDataUrls = screenshots.map((shot) =>
+      shot.id === activeScreenshotId ? exportCanvas(canvas, bgScaleRef.current) : shot.renderedDataUrl ?? shot.imageDataUrl
+    )
 
     try {
-      // Build description with user content and metadata
-      const metadataHtml = formatMetadataAsHtml(metadata)
-      let fullDescription = ''
-      if (cardDescription.trim()) {
-        // Escape HTML in user input and convert newlines to <br>
-        const escapedDescription = cardDescription
-          .replace(/&/g, '&amp;')
-          .replace(/</g, '&lt;')
-          .replace(/>/g, '&gt;')
-          .replace(/\n/g, '<br>')
-        fullDescription = `<p>${escapedDescription}</p><hr>${metadataHtml}`
-      } else {
-        fullDescription = metadataHtml
+      // Build description with user content and metadata, in the format
+      // the integration's API expects
+      const reportMetadata = {
+        ...metadata,
+        consoleLogs: includeConsoleLogs ? metadata.consoleLogs : undefined,
+        networkRequests: includeFailedRequests ? metadata.networkRequests : undefined,
+      }
+      const fullDescription = formatReportDescription(
+        { description: cardDescription, steps: parseStepsText(reproductionSteps), metadata: reportMetadata },
+        integration.preferredFormat
+      )
+
+      const attachments: ReportAttachment[] = []
+      if (recording && includeRecording) {
+        attachments.push({ data: recording.blob, filename: `recording-${Date.now()}.webm` })
+      }
+      if (includeHar && metadata.networkRequests?.length) {
+        const har = buildHar(metadata.networkRequests, metadata)
+        attachments.push({
+          data: new Blob([JSON.stringify(har, null, 2)], { type: 'application/json' }),
+          filename: `network-${Date.now()}.har`,
+        })
+      }
+      if (includeDomSnapshot) {
+        attachments.push(...(await buildSnapshotAttachments(canvas)))
       }
 
       // Submit using the integration
       const result = await integration.submitReport({
         title: cardTitle || generateDefaultTitle(metadata),
         description: fullDescription,
-        imageDataUrl: imageData,
+        imageDataUrls,
         destinationId: selectedDestination.id,
         accountId: selectedDestination.accountId,
         subDestinationId: selectedSubDestination?.id,
         tagIds: selectedTagIds.length > 0 ? selectedTagIds : undefined,
-        metadataHtml,
+        formattedMetadata: formatMetadata(reportMetadata, integration.preferredFormat),
+        gifDataUrl: recording?.gif && includeGif ? await blobToDataUrl(recording.gif) : undefined,
+        attachments: attachments.length > 0 ? attachments : undefined,
       })
 
       // Clear session data
-      await chrome.storage.session.remove(['annotationSession'])
+      await chrome.storage.session.remove(['annotationSession', 'addCaptureTarget'])
+      if (recording) {
+        await deleteRecording(recording.id)
+      }
+      await deleteStoredCaptures()
       
       // Show notification and save to history
       await chrome.runtime.sendMessage({ 
@@ -892,7 +1944,11 @@ export function AnnotatePage() {
   }
 
   const handleCancel = async () => {
-    await chrome.storage.session.remove(['annotationSession'])
+    await chrome.storage.session.remove(['annotationSession', 'addCaptureTarget'])
+    if (recording) {
+      await deleteRecording(recording.id)
+    }
+    await deleteStoredCaptures()
     window.close()
   }
 
@@ -922,6 +1978,12 @@ export function AnnotatePage() {
     )
   }
 
+  const consoleErrorCount = metadata?.consoleLogs ? countConsoleErrors(metadata.consoleLogs) : 0
+  const failedRequestCount = metadata?.networkRequests?.filter((request) => isFailedRequest(request)).length ?? 0
+  const activeRedaction = selectedRedaction ?? redactionZoneStyle
+  const activeTextStyle = selectedTextStyle ?? textStyle
+  const hasDomSnapshot = screenshots.some((shot) => shot.snapshotId)
+
   // Main annotate view
   return (
     <div className="page annotate-page">
@@ -947,10 +2009,28 @@ export function AnnotatePage() {
               <button className={`tool-btn ${currentTool === 'text' ? 'active' : ''}`} onClick={() => setCurrentTool('text')} title="Text (T)">
                 <TextIcon />
               </button>
+              <button className={`tool-btn ${currentTool === 'callout' ? 'active' : ''}`} onClick={() => setCurrentTool('callout')} title="Callout (B)">
+                <CalloutIcon />
+              </button>
               <button className={`tool-btn ${currentTool === 'freehand' ? 'active' : ''}`} onClick={() => setCurrentTool('freehand')} title="Freehand (P)">
                 <PenIcon />
               </button>
-              <button className={`tool-btn ${currentTool === 'pixelate' ? 'active' : ''}`} onClick={() => setCurrentTool('pixelate')} title="Pixelate (X)">
+              <button className={`tool-btn ${currentTool === 'highlighter' ? 'active' : ''}`} onClick={() => setCurrentTool('highlighter')} title="Highlighter (H)">
+                <HighlighterIcon />
+              </button>
+              <button className={`tool-btn ${currentTool === 'spotlight' ? 'active' : ''}`} onClick={() => setCurrentTool('spotlight')} title="Spotlight (S)">
+                <SpotlightIcon />
+              </button>
+              <button className={`tool-btn ${currentTool === 'magnifier' ? 'active' : ''}`} onClick={() => setCurrentTool('magnifier')} title="Magnifier (M)">
+                <MagnifierIcon />
+              </button>
+              <button className={`tool-btn ${currentTool === 'measure' ? 'active' : ''}`} onClick={() => setCurrentTool('measure')} title="Measure (D)">
+                <RulerIcon />
+              </button>
+              <button className={`tool-btn ${currentTool === 'step' ? 'active' : ''}`} onClick={() => setCurrentTool('step')} title="Step Marker (N)">
+                <StepIcon />
+              </button>
+              <button className={`tool-btn ${currentTool === 'pixelate' ? 'active' : ''}`} onClick={() => setCurrentTool('pixelate')} title="Redact (X)">
                 <BlurIcon />
               </button>
               <button className={`tool-btn ${currentTool === 'crop' ? 'active' : ''}`} onClick={() => setCurrentTool('crop')} title="Crop (C)">
@@ -970,9 +2050,86 @@ export function AnnotatePage() {
                   onClick={() => setCurrentColor(color)}
                 />
               ))}
+              <label
+                className={`color-btn custom-color ${COLORS.includes(currentColor) ? '' : 'active'}`}
+                style={COLORS.includes(currentColor) ? undefined : { background: currentColor }}
+                title="Custom Color"
+              >
+                <input type="color" value={currentColor} onChange={(e) => setCurrentColor(e.target.value)} />
+              </label>
             </div>
+            <button
+              className={`tool-btn ${currentTool === 'eyedropper' ? 'active' : ''}`}
+              onClick={() => setCurrentTool('eyedropper')}
+              title="Eyedropper (I)"
+            >
+              <EyedropperIcon />
+            </button>
           </div>
 
+          {recentColors.length > 0 && (
+            <div className="tool-section">
+              <span className="section-label">Recent</span>
+              <div className="color-picker">
+                {recentColors.map((color) => (
+                  <button
+                    key={color}
+                    className={`color-btn small ${currentColor === color ? 'active' : ''}`}
+                    style={{ backgroundColor: color, borderColor: color === '#ffffff' ? '#ccc' : color }}
+                    onClick={() => setCurrentColor(color)}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {colorPalettes.length > 0 && (
+            <div className="tool-section">
+              {colorPalettes.length > 1 ? (
+                <select
+                  className="tool-select"
+                  value={Math.min(activePaletteIndex, colorPalettes.length - 1)}
+                  onChange={(e) => setActivePaletteIndex(Number(e.target.value))}
+                >
+                  {colorPalettes.map((palette, index) => (
+                    <option key={index} value={index}>{palette.name}</option>
+                  ))}
+                </select>
+              ) : (
+                <span className="section-label">{colorPalettes[0].name}</span>
+              )}
+              <div className="color-picker">
+                {colorPalettes[Math.min(activePaletteIndex, colorPalettes.length - 1)].colors.map((color) => (
+                  <button
+                    key={color}
+                    className={`color-btn small ${currentColor === color ? 'active' : ''}`}
+                    style={{ backgroundColor: color, borderColor: color === '#ffffff' ? '#ccc' : color }}
+                    onClick={() => setCurrentColor(color)}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {currentTool === 'eyedropper' && (
+            <div className="tool-section">
+              <span className="section-label">Sampled</span>
+              {sampledColor ? (
+                <>
+                  <span className="sampled-swatch" style={{ backgroundColor: sampledColor }} />
+                  <code className="sampled-hex">{sampledColor}</code>
+                  <button className="tool-btn" onClick={handleAddSampledColor} title="Add to Description">
+                    <AddToDescriptionIcon />
+                  </button>
+                </>
+              ) : (
+                <span className="tool-option">Click the screenshot to pick a color</span>
+              )}
+            </div>
+          )}
+
           <div className="tool-section">
             <span className="section-label">Size</span>
             <div className="stroke-picker">
@@ -988,6 +2145,260 @@ export function AnnotatePage() {
             </div>
           </div>
 
+          {currentTool === 'highlighter' && (
+            <div className="tool-section">
+              <span className="section-label">Highlight</span>
+              <div className="tool-group">
+                <button
+                  className={`tool-btn ${highlighterShape === 'freehand' ? 'active' : ''}`}
+                  onClick={() => setHighlighterShape('freehand')}
+                  title="Freehand"
+                >
+                  <PenIcon />
+                </button>
+                <button
+                  className={`tool-btn ${highlighterShape === 'rectangle' ? 'active' : ''}`}
+                  onClick={() => setHighlighterShape('rectangle')}
+                  title="Box"
+                >
+                  <RectIcon />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(currentTool === 'text' || selectedTextStyle !== null) && (
+            <div className="tool-section">
+              <span className="section-label">Text</span>
+              <select
+                className="tool-select"
+                value={activeTextStyle.fontSize}
+                onChange={(e) => handleTextStyleChange({ fontSize: Number(e.target.value) })}
+                title="Font Size"
+              >
+                {(FONT_SIZES.includes(activeTextStyle.fontSize) ? FONT_SIZES : [...FONT_SIZES, activeTextStyle.fontSize].sort((a, b) => a - b)).map((size) => (
+                  <option key={size} value={size}>{size}px</option>
+                ))}
+              </select>
+              <div className="tool-group">
+                <button
+                  className={`tool-btn ${activeTextStyle.bold ? 'active' : ''}`}
+                  onClick={() => handleTextStyleChange({ bold: !activeTextStyle.bold })}
+                  title="Bold"
+                >
+                  <BoldIcon />
+                </button>
+                <button
+                  className={`tool-btn ${activeTextStyle.italic ? 'active' : ''}`}
+                  onClick={() => handleTextStyleChange({ italic: !activeTextStyle.italic })}
+                  title="Italic"
+                >
+                  <ItalicIcon />
+                </button>
+              </div>
+              <div className="tool-group">
+                {(['left', 'center', 'right'] as TextAlign[]).map((align) => (
+                  <button
+                    key={align}
+                    className={`tool-btn ${activeTextStyle.align === align ? 'active' : ''}`}
+                    onClick={() => handleTextStyleChange({ align })}
+                    title={`Align ${align[0].toUpperCase()}${align.slice(1)}`}
+                  >
+                    <AlignIcon align={align} />
+                  </button>
+                ))}
+              </div>
+              <div className="tool-group">
+                <button
+                  className={`tool-btn ${activeTextStyle.effect === 'outline' ? 'active' : ''}`}
+                  onClick={() => handleTextStyleChange({ effect: activeTextStyle.effect === 'outline' ? 'none' : 'outline' })}
+                  title="Outline"
+                >
+                  <TextOutlineIcon />
+                </button>
+                <button
+                  className={`tool-btn ${activeTextStyle.effect === 'shadow' ? 'active' : ''}`}
+                  onClick={() => handleTextStyleChange({ effect: activeTextStyle.effect === 'shadow' ? 'none' : 'shadow' })}
+                  title="Shadow"
+                >
+                  <TextShadowIcon />
+                </button>
+              </div>
+              <label className="tool-option">
+                <input
+                  type="checkbox"
+                  checked={activeTextStyle.box}
+                  onChange={(e) => handleTextStyleChange({ box: e.target.checked })}
+                />
+                <span>Box</span>
+              </label>
+              {activeTextStyle.box && (
+                <label className="tool-option">
+                  <span>Padding</span>
+                  <input
+                    type="range"
+                    min={MIN_BOX_PADDING}
+                    max={MAX_BOX_PADDING}
+                    step={2}
+                    value={activeTextStyle.boxPadding}
+                    onChange={(e) => handleTextStyleChange({ boxPadding: Number(e.target.value) })}
+                  />
+                </label>
+              )}
+              <label className="tool-option">
+                <input
+                  type="checkbox"
+                  checked={activeTextStyle.wrapWidth > 0}
+                  onChange={(e) => handleTextStyleChange({
+                    wrapWidth: e.target.checked ? DEFAULT_WRAP_WIDTH : 0,
+                  })}
+                />
+                <span>Wrap</span>
+              </label>
+              {activeTextStyle.wrapWidth > 0 && (
+                <label className="tool-option">
+                  <span>Width</span>
+                  <input
+                    type="range"
+                    min={MIN_WRAP_WIDTH}
+                    max={MAX_WRAP_WIDTH}
+                    step={10}
+                    value={activeTextStyle.wrapWidth}
+                    onChange={(e) => handleTextStyleChange({ wrapWidth: Number(e.target.value) })}
+                  />
+                </label>
+              )}
+            </div>
+          )}
+
+          {(currentTool === 'pixelate' || selectedRedaction !== null) && (
+            <div className="tool-section">
+              <span className="section-label">Redact</span>
+              <div className="tool-group">
+                <button
+                  className={`tool-btn ${activeRedaction.style === 'pixelate' ? 'active' : ''}`}
+                  onClick={() => handleRedactionChange({ style: 'pixelate' })}
+                  title="Pixelate"
+                >
+                  <BlurIcon />
+                </button>
+                <button
+                  className={`tool-btn ${activeRedaction.style === 'blur' ? 'active' : ''}`}
+                  onClick={() => handleRedactionChange({ style: 'blur' })}
+                  title="Blur"
+                >
+                  <GaussianBlurIcon />
+                </button>
+                <button
+                  className={`tool-btn ${activeRedaction.style === 'solid' ? 'active' : ''}`}
+                  onClick={() => handleRedactionChange({ style: 'solid' })}
+                  title="Black Box"
+                >
+                  <SolidBoxIcon />
+                </button>
+              </div>
+              {activeRedaction.style !== 'solid' && (
+                <label className="tool-option">
+                  <span>Strength</span>
+                  <input
+                    type="range"
+                    min={REDACTION_STRENGTHS[0]}
+                    max={REDACTION_STRENGTHS[REDACTION_STRENGTHS.length - 1]}
+                    step={1}
+                    value={activeRedaction.strength}
+                    onChange={(e) => handleRedactionChange({ strength: Number(e.target.value) })}
+                  />
+                </label>
+              )}
+            </div>
+          )}
+
+          {suggestionCount > 0 && (
+            <div className="tool-section">
+              <span className="section-label">Sensitive</span>
+              <span className="tool-option">
+                {selectedSuggestion ? SENSITIVE_KIND_LABELS[selectedSuggestion] : `${suggestionCount} found`}
+              </span>
+              <div className="tool-group">
+                <button
+                  className="tool-btn"
+                  onClick={() => handleConfirmSuggestions(selectedSuggestion ? 'selected' : 'all')}
+                  title={selectedSuggestion ? 'Redact' : 'Redact All'}
+                >
+                  <BlurIcon />
+                </button>
+                <button
+                  className="tool-btn"
+                  onClick={() => handleDismissSuggestions(selectedSuggestion ? 'selected' : 'all')}
+                  title={selectedSuggestion ? 'Dismiss' : 'Dismiss All'}
+                >
+                  <DismissIcon />
+                </button>
+              </div>
+            </div>
+          )}
+
+          {(currentTool === 'measure' || showRulers) && (
+            <div className="tool-section">
+              <span className="section-label">Measure</span>
+              <div className="tool-group">
+                <button
+                  className={`tool-btn ${measureMode === 'line' ? 'active' : ''}`}
+                  onClick={() => { setMeasureMode('line'); setCurrentTool('measure') }}
+                  title="Distance (Shift for straight lines)"
+                >
+                  <DimensionIcon />
+                </button>
+                <button
+                  className={`tool-btn ${measureMode === 'box' ? 'active' : ''}`}
+                  onClick={() => { setMeasureMode('box'); setCurrentTool('measure') }}
+                  title="Box"
+                >
+                  <RectIcon />
+                </button>
+              </div>
+              <label className="tool-option">
+                <input type="checkbox" checked={showRulers} onChange={(e) => setShowRulers(e.target.checked)} />
+                <span>Rulers</span>
+              </label>
+            </div>
+          )}
+
+          {(currentTool === 'magnifier' || selectedMagnifierConnector !== null) && (
+            <div className="tool-section">
+              <span className="section-label">Magnifier</span>
+              <label className="tool-option">
+                <input
+                  type="checkbox"
+                  checked={selectedMagnifierConnector ?? showMagnifierConnector}
+                  onChange={(e) => handleMagnifierConnectorChange(e.target.checked)}
+                />
+                <span>Connector line</span>
+              </label>
+            </div>
+          )}
+
+          {(currentTool === 'step' || selectedStepNumber !== null) && (
+            <div className="tool-section">
+              <span className="section-label">Step</span>
+              {selectedStepNumber !== null ? (
+                <div className="tool-group">
+                  <button className="tool-btn" onClick={() => handleMoveStep(-1)} title="Move Earlier ([)"><ChevronLeftIcon /></button>
+                  <button className="tool-btn" onClick={() => handleMoveStep(1)} title="Move Later (])"><ChevronRightIcon /></button>
+                </div>
+              ) : (
+                <label className="tool-option">
+                  <input
+                    type="checkbox"
+                    checked={syncStepLines}
+                    onChange={(e) => setSyncStepLines(e.target.checked)}
+                  />
+                  <span>Add numbered lines to description</span>
+                </label>
+              )}
+            </div>
+          )}
+
           <div className="tool-section">
             <span className="section-label">Actions</span>
             <div className="tool-group">
@@ -1000,7 +2411,7 @@ export function AnnotatePage() {
         </div>
 
         {/* Canvas */}
-        <div className={`canvas-container ${zoom > 100 ? 'zoomed' : ''}`} ref={canvasContainerRef}>
+        <div className={`canvas-container ${effectiveZoom > 100 ? 'zoomed' : ''} ${fitToWidth ? 'fit-width' : ''}`} ref={canvasContainerRef}>
           <div className="canvas-wrapper">
             <canvas ref={canvasRef} />
             {/* Crop overlay */}
@@ -1042,10 +2453,55 @@ export function AnnotatePage() {
           </div>
           <div className="zoom-controls">
             <button className="zoom-btn" onClick={handleZoomOut} title="Zoom Out">−</button>
-            <button className="zoom-level" onClick={handleZoomReset} title="Reset Zoom">{zoom}%</button>
-            <button className="zoom-btn" onClick={handleZoomIn} title="Zoom In">+</button>
+            <button className="zoom-level" onClick={handleZoomReset} title="Reset Zoom">{effectiveZoom}%</button>
+            <button className="zoom-btn" onClick={handleZoomIn} title="Zoom In" disabled={zoom >= maxZoom}>+</button>
           </div>
         </div>
+
+        {/* Filmstrip */}
+        <div className="filmstrip">
+          {screenshots.map((shot, index) => (
+            <div key={shot.id} className={`filmstrip-item ${shot.id === activeScreenshotId ? 'active' : ''}`}>
+              <button
+                className="filmstrip-thumb"
+                onClick={() => switchToScreenshot(shot)}
+                title={`${shot.metadata.title}\n${shot.metadata.url}`}
+                disabled={state === 'submitting'}
+              >
+                <img
+                  src={shot.id === activeScreenshotId ? imageDataUrl ?? shot.imageDataUrl : shot.renderedDataUrl ?? shot.imageDataUrl}
+                  alt={`Screenshot ${index + 1}`}
+                />
+                <span className="filmstrip-number">{index + 1}</span>
+              </button>
+              {screenshots.length > 1 && (
+                <button
+                  className="filmstrip-remove"
+                  onClick={() => handleRemoveScreenshot(shot.id)}
+                  title="Remove screenshot"
+                  disabled={state === 'submitting'}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          ))}
+          {waitingForCapture ? (
+            <div className="filmstrip-waiting">
+              <span>Capture any tab with PopShot to add it here</span>
+              <button onClick={handleCancelAddScreenshot}>Cancel</button>
+            </div>
+          ) : (
+            <button
+              className="filmstrip-add"
+              onClick={handleAddScreenshot}
+              title="Add another screenshot"
+              disabled={state === 'submitting'}
+            >
+              +
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Right: Sidebar with form */}
@@ -1095,6 +2551,21 @@ export function AnnotatePage() {
             />
           </div>
 
+          <div className="form-group">
+            <label htmlFor="reproduction-steps">Steps to Reproduce</label>
+            <textarea
+              id="reproduction-steps"
+              value={reproductionSteps}
+              onChange={(e) => setReproductionSteps(e.target.value)}
+              placeholder={'1. Go to...\n2. Click...'}
+              rows={6}
+              disabled={state === 'submitting'}
+            />
+            {metadata?.breadcrumbs?.length ? (
+              <p className="field-hint">Suggested from your recent actions on the page - edit as needed.</p>
+            ) : null}
+          </div>
+
           <div className="form-group">
             <label>Integration</label>
             <IntegrationSelector
@@ -1146,13 +2617,118 @@ export function AnnotatePage() {
             </div>
           )}
 
+          {recording && (
+            <div className="form-group">
+              <label>Recording</label>
+              <label className="checkbox-toggle">
+                <input
+                  type="checkbox"
+                  checked={includeRecording}
+                  onChange={(e) => setIncludeRecording(e.target.checked)}
+                  disabled={state === 'submitting'}
+                />
+                <span>
+                  Attach tab recording ({(recording.durationMs / 1000).toFixed(1)}s,{' '}
+                  {(recording.blob.size / (1024 * 1024)).toFixed(1)} MB)
+                </span>
+              </label>
+              {recording.gif && (
+                <label className="checkbox-toggle">
+                  <input
+                    type="checkbox"
+                    checked={includeGif}
+                    onChange={(e) => setIncludeGif(e.target.checked)}
+                    disabled={state === 'submitting'}
+                  />
+                  <span>
+                    Embed animated GIF ({(recording.gif.size / (1024 * 1024)).toFixed(1)} MB)
+                  </span>
+                </label>
+              )}
+            </div>
+          )}
+
+          {metadata?.consoleLogs && metadata.consoleLogs.length > 0 && (
+            <div className="form-group">
+              <label>Console</label>
+              <label className="checkbox-toggle">
+                <input
+                  type="checkbox"
+                  checked={includeConsoleLogs}
+                  onChange={(e) => setIncludeConsoleLogs(e.target.checked)}
+                  disabled={state === 'submitting'}
+                />
+                <span>
+                  Include console log ({metadata.consoleLogs.length}{' '}
+                  {metadata.consoleLogs.length === 1 ? 'entry' : 'entries'}
+                  {consoleErrorCount > 0 && `, ${consoleErrorCount} ${consoleErrorCount === 1 ? 'error' : 'errors'}`})
+                </span>
+              </label>
+            </div>
+          )}
+
+          {metadata?.networkRequests && metadata.networkRequests.length > 0 && (
+            <div className="form-group">
+              <label>Network</label>
+              {failedRequestCount > 0 && (
+                <label className="checkbox-toggle">
+                  <input
+                    type="checkbox"
+                    checked={includeFailedRequests}
+                    onChange={(e) => setIncludeFailedRequests(e.target.checked)}
+                    disabled={state === 'submitting'}
+                  />
+                  <span>
+                    List failed requests ({failedRequestCount})
+                  </span>
+                </label>
+              )}
+              <label className="checkbox-toggle">
+                <input
+                  type="checkbox"
+                  checked={includeHar}
+                  onChange={(e) => setIncludeHar(e.target.checked)}
+                  disabled={state === 'submitting'}
+                />
+                <span>
+                  Attach network log as HAR ({metadata.networkRequests.length}{' '}
+                  {metadata.networkRequests.length === 1 ? 'request' : 'requests'})
+                </span>
+              </label>
+            </div>
+          )}
+
+          {hasDomSnapshot && (
+            <div className="form-group">
+              <label>Page</label>
+              <label className="checkbox-toggle">
+                <input
+                  type="checkbox"
+                  checked={includeDomSnapshot}
+                  onChange={(e) => setIncludeDomSnapshot(e.target.checked)}
+                  disabled={state === 'submitting'}
+                />
+                <span>Attach DOM snapshot (blanked out under redacted areas)</span>
+              </label>
+            </div>
+          )}
+
           {metadata && (
             <div className="metadata-preview">
               <h4>Auto-captured Info</h4>
+              {redactedParts.length > 0 && (
+                <p className="redaction-note">
+                  Redacted by your Settings: {redactedParts.join(', ')}. Shown as it will be sent.
+                </p>
+              )}
               <div className="metadata-item">
                 <span className="label">URL:</span>
                 <span className="value" title={metadata.url}>{metadata.url}</span>
               </div>
+              <div className="metadata-item">
+                <span className="label">Title:</span>
+                <span className="value" title={metadata.title}>{metadata.title}</span>
+              </div>
               <div className="metadata-item">
                 <span className="label">Browser:</span>
                 <span className="value">{metadata.browser} {metadata.browserVersion}</span>
@@ -1161,6 +2737,24 @@ export function AnnotatePage() {
                 <span className="label">Viewport:</span>
                 <span className="value">{metadata.viewportWidth} x {metadata.viewportHeight}</span>
               </div>
+              {metadata.environment && (
+                <div className="metadata-item">
+                  <span className="label">OS:</span>
+                  <span className="value">{metadata.environment.os}</span>
+                </div>
+              )}
+              {metadata.performance && hasPoorMetric(metadata.performance) && (
+                <div className="metadata-item">
+                  <span className="label">Performance:</span>
+                  <span className="value">Poor web vitals (details in report)</span>
+                </div>
+              )}
+              {metadata.element && (
+                <div className="metadata-item">
+                  <span className="label">Element:</span>
+                  <span className="value" title={metadata.element.selector}>{metadata.element.selector}</span>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -1205,6 +2799,16 @@ function RectIcon() {
 function EllipseIcon() {
   return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><ellipse cx="12" cy="12" rx="10" ry="6" /></svg>
 }
+function GaussianBlurIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="none">
+    <circle cx="12" cy="12" r="9" opacity="0.25" />
+    <circle cx="12" cy="12" r="6" opacity="0.5" />
+    <circle cx="12" cy="12" r="3" />
+  </svg>
+}
+function SolidBoxIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="none"><rect x="3" y="7" width="18" height="10" rx="1" /></svg>
+}
 function BlurIcon() {
   // Pixelate icon - grid of squares
   return <svg width="18" height="18" viewBox="0 0 24 24" fill="currentColor" stroke="none">
@@ -1219,18 +2823,78 @@ function BlurIcon() {
     <rect x="18" y="18" width="4" height="4" />
   </svg>
 }
+function HighlighterIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M9 11l-6 6v3h9l3-3" /><path d="M22 12l-4.6 4.6a2 2 0 01-2.8 0l-5.2-5.2a2 2 0 010-2.8L14 4" /></svg>
+}
+function SpotlightIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="2" y="2" width="20" height="20" rx="2" opacity="0.4" /><circle cx="12" cy="12" r="5" /></svg>
+}
+function MagnifierIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="10" cy="10" r="6" /><line x1="14.5" y1="14.5" x2="21" y2="21" /><line x1="10" y1="7" x2="10" y2="13" /><line x1="7" y1="10" x2="13" y2="10" /></svg>
+}
+function BoldIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2.5"><path d="M6 4h7a4 4 0 010 8H6z" /><path d="M6 12h8a4 4 0 010 8H6z" /></svg>
+}
+function ItalicIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="19" y1="4" x2="10" y2="4" /><line x1="14" y1="20" x2="5" y2="20" /><line x1="15" y1="4" x2="9" y2="20" /></svg>
+}
+function AlignIcon({ align }: { align: TextAlign }) {
+  // Full-width lines with the short ones pushed to the aligned side
+  const short = align === 'left' ? [3, 15] : align === 'center' ? [7, 17] : [9, 21]
+  return (
+    <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+      <line x1="3" y1="6" x2="21" y2="6" />
+      <line x1={short[0]} y1="10" x2={short[1]} y2="10" />
+      <line x1="3" y1="14" x2="21" y2="14" />
+      <line x1={short[0]} y1="18" x2={short[1]} y2="18" />
+    </svg>
+  )
+}
+function TextOutlineIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5"><path d="M4 20L10 4h4l6 16h-4l-1.5-4h-5L8 20z" /><path d="M10.5 12.5L12 8l1.5 4.5z" /></svg>
+}
+function TextShadowIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M5 18L10 5h2l5 13" opacity="0.4" transform="translate(2 2)" /><path d="M5 18L10 5h2l5 13" /><line x1="7.5" y1="13" x2="14.5" y2="13" /></svg>
+}
+function EyedropperIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M2 22l1-1h3l9-9" /><path d="M3 21v-3l9-9" /><path d="M15 6l3.4-3.4a2.1 2.1 0 013 3L18 9l.4.4a2.1 2.1 0 010 3 2.1 2.1 0 01-3 0l-3.8-3.8a2.1 2.1 0 010-3 2.1 2.1 0 013 0z" /></svg>
+}
+function AddToDescriptionIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="4" y1="6" x2="14" y2="6" /><line x1="4" y1="12" x2="12" y2="12" /><line x1="4" y1="18" x2="10" y2="18" /><line x1="18" y1="13" x2="18" y2="21" /><line x1="14" y1="17" x2="22" y2="17" /></svg>
+}
+function RulerIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="2" y="8" width="20" height="8" rx="1" /><line x1="6" y1="8" x2="6" y2="11" /><line x1="10" y1="8" x2="10" y2="12" /><line x1="14" y1="8" x2="14" y2="11" /><line x1="18" y1="8" x2="18" y2="12" /></svg>
+}
+function DimensionIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="3" y1="12" x2="21" y2="12" /><line x1="3" y1="8" x2="3" y2="16" /><line x1="21" y1="8" x2="21" y2="16" /></svg>
+}
+function StepIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="10" /><path d="M10 8l2-1v10" /></svg>
+}
+function ChevronLeftIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="15 18 9 12 15 6" /></svg>
+}
+function ChevronRightIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="9 18 15 12 9 6" /></svg>
+}
 function CropIcon() {
   return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M6.13 1L6 16a2 2 0 002 2h15" /><path d="M1 6.13L16 6a2 2 0 012 2v15" /></svg>
 }
 function ApplyCropIcon() {
   return <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="20 6 9 17 4 12" /></svg>
 }
+function DismissIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="9" /><line x1="15" y1="9" x2="9" y2="15" /><line x1="9" y1="9" x2="15" y2="15" /></svg>
+}
 function CancelCropIcon() {
   return <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="18" y1="6" x2="6" y2="18" /><line x1="6" y1="6" x2="18" y2="18" /></svg>
 }
 function TextIcon() {
   return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="4 7 4 4 20 4 20 7" /><line x1="9" y1="20" x2="15" y2="20" /><line x1="12" y1="4" x2="12" y2="20" /></svg>
 }
+function CalloutIcon() {
+  return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M21 11.5a8.38 8.38 0 01-.9 3.8 8.5 8.5 0 01-7.6 4.7 8.38 8.38 0 01-3.8-.9L3 21l1.9-5.7a8.38 8.38 0 01-.9-3.8 8.5 8.5 0 014.7-7.6 8.38 8.38 0 013.8-.9h.5a8.48 8.48 0 018 8v.5z" /></svg>
+}
 function PenIcon() {
   return <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M12 19l7-7 3 3-7 7-3-3z" /><path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z" /><path d="M2 2l7.586 7.586" /><circle cx="11" cy="11" r="2" /></svg>
 }
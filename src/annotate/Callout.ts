@@ -0,0 +1,163 @@
+/**
+ * Callout annotation: an editable, wrapping text box drawn inside a rounded
+ * speech bubble whose tail points at a spot on the screenshot.
+ *
+ * The tail tip is stored relative to the text box's top-left corner in
+ * unscaled object units, so it follows the callout when it's moved, scaled
+ * (including the crop re-scale) or grows as text is typed. Selected callouts
+ * get an extra control on the tip for dragging it.
+ */
+
+import { Control, Line, Point, Textbox, classRegistry, controlsUtils, util } from 'fabric'
+import type { TPointerEvent, Transform, TextboxProps, XY } from 'fabric'
+import { calloutPath } from '@/lib/callout-geometry'
+import { readableTextColor } from '@/lib/colors'
+
+/** Space between the text and the bubble's edge */
+export const CALLOUT_PADDING = 10
+
+const CALLOUT_CORNER_RADIUS = 10
+
+// New callouts: wrapping width, and where the bubble goes relative to the
+// clicked spot when the tail wasn't dragged out
+const CALLOUT_WIDTH = 200
+const CALLOUT_CLICK_OFFSET = { x: 40, y: -80 }
+const CALLOUT_MIN_DRAG = 10
+
+export interface CalloutProps extends TextboxProps {
+  /** Fill of the bubble and its tail */
+  bubbleColor: string
+  /** Tail tip, relative to the text box's top-left corner */
+  tailX: number
+  tailY: number
+}
+
+export class Callout extends Textbox {
+  static type = 'Callout'
+
+  /** Serialized with the standard Textbox properties */
+  static customProperties = ['bubbleColor', 'tailX', 'tailY']
+
+  declare bubbleColor: string
+  declare tailX: number
+  declare tailY: number
+
+  constructor(text: string, options: Partial<CalloutProps> = {}) {
+    super(text, {
+      padding: CALLOUT_PADDING,
+      objectCaching: false, // The bubble and tail draw outside the text bounds
+      ...options,
+    })
+    this.bubbleColor ??= '#ef4444'
+    this.tailX ??= 0
+    this.tailY ??= 0
+  }
+
+  static createControls() {
+    const { controls } = super.createControls()
+    return { controls: { ...controls, tail: createTailControl() } }
+  }
+
+  /** The tail tip relative to the object's center, in object units */
+  getTailPoint(): Point {
+    return new Point(this.tailX - this.width / 2, this.tailY - this.height / 2)
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const tip = this.getTailPoint()
+    const path = calloutPath(
+      this.width + CALLOUT_PADDING * 2,
+      this.height + CALLOUT_PADDING * 2,
+      CALLOUT_CORNER_RADIUS,
+      tip
+    )
+
+    ctx.save()
+    ctx.beginPath()
+    for (const command of path) {
+      switch (command[0]) {
+        case 'M':
+          ctx.moveTo(command[1], command[2])
+          break
+        case 'L':
+          ctx.lineTo(command[1], command[2])
+          break
+        case 'Q':
+          ctx.quadraticCurveTo(command[1], command[2], command[3], command[4])
+          break
+        case 'Z':
+          ctx.closePath()
+          break
+      }
+    }
+    ctx.fillStyle = this.bubbleColor
+    ctx.fill()
+    ctx.restore()
+
+    super._render(ctx)
+  }
+}
+
+classRegistry.setClass(Callout)
+
+/**
+ * The dashed line previewing a new callout's tail while it's dragged from
+ * the spot to point at out to where the bubble goes
+ */
+export function createTailPreview(tip: XY, color: string): Line {
+  return new Line([tip.x, tip.y, tip.x, tip.y], {
+    stroke: color,
+    strokeWidth: 2,
+    strokeDashArray: [6, 4],
+    selectable: false,
+    evented: false,
+  })
+}
+
+/**
+ * A new callout in `color` whose tail points at `tip`, with the bubble
+ * centered where the drag ended - or just above and to the right of the tip
+ * after a plain click
+ */
+export function createCallout(tip: XY, end: XY, color: string): Callout {
+  const dragged = Math.hypot(end.x - tip.x, end.y - tip.y) > CALLOUT_MIN_DRAG
+  const at = dragged ? end : { x: tip.x + CALLOUT_CLICK_OFFSET.x, y: tip.y + CALLOUT_CLICK_OFFSET.y }
+
+  const callout = new Callout('Type here', {
+    width: CALLOUT_WIDTH,
+    fontSize: 18,
+    fontFamily: 'Arial',
+    fill: readableTextColor(color),
+    bubbleColor: color,
+  })
+  const left = at.x - callout.width / 2
+  const top = at.y - callout.height / 2
+  callout.set({ left, top, tailX: tip.x - left, tailY: tip.y - top })
+  callout.setCoords()
+  return callout
+}
+
+/**
+ * The draggable control on the tail tip
+ */
+function createTailControl(): Control {
+  return new Control({
+    actionName: 'moveTail',
+    cursorStyle: 'crosshair',
+    render: controlsUtils.renderCircleControl,
+    positionHandler: (_dim, _finalMatrix, fabricObject) => {
+      const callout = fabricObject as Callout
+      const matrix = util.multiplyTransformMatrices(callout.getViewportTransform(), callout.calcTransformMatrix())
+      return callout.getTailPoint().transform(matrix)
+    },
+    actionHandler: (_eventData: TPointerEvent, transform: Transform, x: number, y: number) => {
+      const callout = transform.target as Callout
+      const local = util.sendPointToPlane(new Point(x, y), undefined, callout.calcOwnMatrix())
+      callout.set({
+        tailX: local.x + callout.width / 2,
+        tailY: local.y + callout.height / 2,
+      })
+      return true
+    },
+  })
+}
@@ -0,0 +1,186 @@
+/**
+ * Magnifier inset annotation: a bordered box showing an enlarged copy of a
+ * source region of the screenshot, optionally joined to it by a line.
+ *
+ * The source region is a separate dashed rectangle on the canvas, tagged
+ * with a magnifierId the inset refers to. The inset looks its source up
+ * whenever it renders and copies the pixels straight from the background
+ * image at full resolution, without smoothing, so moving or resizing either
+ * one (or cropping the screenshot) always shows the current source, and
+ * one-pixel misalignments stay visible. Redaction zones over the source are
+ * drawn into the inset too, so it never shows what they hide.
+ */
+
+import { FabricImage, Point, Rect, classRegistry, util } from 'fabric'
+import type { FabricObject, RectProps, XY } from 'fabric'
+import { connectorSegment, placeInset, MAGNIFIER_ZOOM, type Box } from '@/lib/magnifier-geometry'
+
+/** Smallest source region, in canvas pixels, worth magnifying */
+const MIN_SOURCE_SIZE = 4
+
+export interface MagnifierProps extends RectProps {
+  /** magnifierId of the source region this inset shows */
+  sourceId: string
+  /** Draw a line between the source region and the inset */
+  showConnector: boolean
+}
+
+export class Magnifier extends Rect {
+  static type = 'Magnifier'
+
+  /** Serialized with the standard Rect properties */
+  static customProperties = ['sourceId', 'showConnector']
+
+  declare sourceId: string
+  declare showConnector: boolean
+
+  constructor(options: Partial<MagnifierProps> = {}) {
+    super({
+      fill: 'transparent',
+      strokeUniform: true,
+      objectCaching: false, // The connector draws outside the inset
+      perPixelTargetFind: false,
+      ...options,
+    })
+    this.sourceId ??= ''
+    this.showConnector ??= true
+  }
+
+  /** The source region, if it's still on the canvas */
+  getSource(): FabricObject | undefined {
+    return this.canvas?.getObjects().find((obj) => isMagnifierSource(obj) && obj.magnifierId === this.sourceId)
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    const source = this.getSource()
+    if (source) {
+      if (this.showConnector) this._renderConnector(ctx, source)
+      this._renderMagnified(ctx, getSourceBox(source))
+    }
+    super._render(ctx)
+  }
+
+  /** The source region's pixels (and redactions), stretched over the inset */
+  _renderMagnified(ctx: CanvasRenderingContext2D, box: Box) {
+    const canvas = this.canvas
+    const background = canvas?.backgroundImage
+    if (!canvas || !(background instanceof FabricImage) || box.width <= 0 || box.height <= 0) return
+    const scaleX = background.scaleX || 1
+    const scaleY = background.scaleY || 1
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.rect(-this.width / 2, -this.height / 2, this.width, this.height)
+    ctx.clip()
+    ctx.imageSmoothingEnabled = false
+    ctx.drawImage(
+      background.getElement(),
+      (box.x - background.left) / scaleX,
+      (box.y - background.top) / scaleY,
+      box.width / scaleX,
+      box.height / scaleY,
+      -this.width / 2,
+      -this.height / 2,
+      this.width,
+      this.height
+    )
+
+    // Canvas plane → inset, for the redaction zones over the source
+    const zoomX = this.width / box.width
+    const zoomY = this.height / box.height
+    ctx.transform(zoomX, 0, 0, zoomY, -this.width / 2 - box.x * zoomX, -this.height / 2 - box.y * zoomY)
+    for (const obj of canvas.getObjects()) {
+      if ((obj as { isPixelateZone?: boolean }).isPixelateZone) obj.render(ctx)
+    }
+    ctx.restore()
+  }
+
+  /** A line from the source region's edge to the inset's, in the border color */
+  _renderConnector(ctx: CanvasRenderingContext2D, source: FabricObject) {
+    const { left, top, width, height } = this.getBoundingRect()
+    const segment = connectorSegment(getSourceBox(source), { x: left, y: top, width, height })
+    if (!segment) return
+
+    // Back from the canvas plane into this object's own
+    const toLocal = util.invertTransform(this.calcTransformMatrix())
+    const start = new Point(segment.start).transform(toLocal)
+    const end = new Point(segment.end).transform(toLocal)
+
+    ctx.save()
+    ctx.beginPath()
+    ctx.moveTo(start.x, start.y)
+    ctx.lineTo(end.x, end.y)
+    ctx.strokeStyle = this.stroke as string
+    ctx.lineWidth = this.strokeWidth / Math.abs(this.scaleX || 1)
+    ctx.stroke()
+    ctx.restore()
+  }
+}
+
+classRegistry.setClass(Magnifier)
+
+/**
+ * Whether an object is a magnifier's source region
+ */
+export function isMagnifierSource(obj: FabricObject): obj is FabricObject & { magnifierId: string } {
+  return typeof (obj as { magnifierId?: unknown }).magnifierId === 'string'
+}
+
+/**
+ * A source region's area on the canvas (its stroke is drawn around it)
+ */
+export function getSourceBox(source: FabricObject): Box {
+  return {
+    x: source.left || 0,
+    y: source.top || 0,
+    width: (source.width || 0) * (source.scaleX || 1),
+    height: (source.height || 0) * (source.scaleY || 1),
+  }
+}
+
+/**
+ * A new source region at `at`, to be dragged out before its inset is added
+ */
+export function createMagnifierSource(at: XY, color: string): Rect {
+  return new Rect({
+    left: at.x,
+    top: at.y,
+    width: 0,
+    height: 0,
+    fill: 'transparent',
+    stroke: color,
+    strokeWidth: 2,
+    strokeDashArray: [6, 4],
+    strokeUniform: true,
+    selectable: false,
+    perPixelTargetFind: false,
+  })
+}
+
+/**
+ * Link a dragged-out source region to a new inset magnifying it, placed
+ * beside it within `bounds` (the screenshot's area on the canvas). Resolves
+ * to null, leaving the source untagged, when the region is too small to
+ * magnify.
+ */
+export function createMagnifierInset(
+  source: Rect,
+  bounds: Box,
+  options: Pick<MagnifierProps, 'stroke' | 'strokeWidth' | 'showConnector'>
+): Magnifier | null {
+  const box = getSourceBox(source)
+  if (box.width < MIN_SOURCE_SIZE || box.height < MIN_SOURCE_SIZE) return null
+
+  const magnifierId = crypto.randomUUID()
+  source.set({ magnifierId })
+
+  const inset = placeInset(box, MAGNIFIER_ZOOM, bounds)
+  return new Magnifier({
+    left: inset.x,
+    top: inset.y,
+    width: inset.width,
+    height: inset.height,
+    ...options,
+    sourceId: magnifierId,
+  })
+}
@@ -0,0 +1,171 @@
+/**
+ * Measurement annotations: a dimension line labelled with its length, and a
+ * box labelled with its width × height, both in CSS pixels of the captured
+ * page.
+ *
+ * Labels are worked out whenever the measurement renders - from its size on
+ * the canvas, the background's scale (the same bgScale the annotate page
+ * keeps) and the device pixel ratio the screenshot was taken at - so they
+ * stay right as measurements are moved, resized or the screenshot is cropped.
+ */
+
+import { Line, Point, Rect, classRegistry } from 'fabric'
+import type { FabricObject, FabricObjectProps, RectProps, XY } from 'fabric'
+import { readableTextColor } from '@/lib/colors'
+import { formatCssPixels, formatCssSize, toCssPixels } from '@/lib/measure'
+
+const LABEL_FONT_SIZE = 12
+const LABEL_PADDING = 4
+
+/** Length of the ticks across a dimension line's ends */
+const END_TICK_LENGTH = 12
+
+export interface MeasurementProps {
+  /** Screenshot pixels per CSS pixel */
+  pixelRatio: number
+}
+
+export class DimensionLine extends Line {
+  static type = 'DimensionLine'
+
+  /** Serialized with the standard Line properties */
+  static customProperties = ['pixelRatio']
+
+  declare pixelRatio: number
+
+  constructor(points: [number, number, number, number], options: Partial<FabricObjectProps & MeasurementProps> = {}) {
+    super(points, {
+      strokeUniform: true,
+      objectCaching: false, // The label and end ticks draw outside the line's box
+      ...options,
+    })
+    this.pixelRatio ??= 1
+  }
+
+  /** Length in CSS pixels */
+  getCssLength(): number {
+    const { x1, y1, x2, y2 } = this.calcLinePoints()
+    const matrix = this.calcTransformMatrix()
+    const start = new Point(x1, y1).transform(matrix)
+    const end = new Point(x2, y2).transform(matrix)
+    return toCssPixels(start.distanceFrom(end), getBackgroundScale(this), this.pixelRatio)
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx)
+
+    // Ticks across both ends, a fixed size on screen
+    const { x1, y1, x2, y2 } = this.calcLinePoints()
+    const length = Math.hypot((x2 - x1) * this.scaleX, (y2 - y1) * this.scaleY) || 1
+    const half = END_TICK_LENGTH / 2
+    const dx = ((x2 - x1) * this.scaleX) / length
+    const dy = ((y2 - y1) * this.scaleY) / length
+    const across = new Point((-dy * half) / this.scaleX, (dx * half) / this.scaleY)
+    ctx.save()
+    ctx.beginPath()
+    for (const end of [new Point(x1, y1), new Point(x2, y2)]) {
+      ctx.moveTo(end.x - across.x, end.y - across.y)
+      ctx.lineTo(end.x + across.x, end.y + across.y)
+    }
+    ctx.strokeStyle = this.stroke as string
+    ctx.lineWidth = this.strokeWidth / Math.max(Math.abs(this.scaleX), Math.abs(this.scaleY))
+    ctx.stroke()
+    ctx.restore()
+
+    renderLabel(this, ctx, formatCssPixels(this.getCssLength()), new Point(0, 0))
+  }
+}
+
+export class BoxMeasure extends Rect {
+  static type = 'BoxMeasure'
+
+  /** Serialized with the standard Rect properties */
+  static customProperties = ['pixelRatio']
+
+  declare pixelRatio: number
+
+  constructor(options: Partial<RectProps & MeasurementProps> = {}) {
+    super({
+      fill: 'transparent',
+      strokeUniform: true,
+      objectCaching: false, // The label draws outside the box
+      perPixelTargetFind: false,
+      ...options,
+    })
+    this.pixelRatio ??= 1
+  }
+
+  /** Width and height in CSS pixels */
+  getCssSize(): { width: number; height: number } {
+    const scale = getBackgroundScale(this)
+    return {
+      width: toCssPixels(this.width * Math.abs(this.scaleX), scale, this.pixelRatio),
+      height: toCssPixels(this.height * Math.abs(this.scaleY), scale, this.pixelRatio),
+    }
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    super._render(ctx)
+
+    // Centered just above the top edge
+    const { width, height } = this.getCssSize()
+    const labelHeight = LABEL_FONT_SIZE + LABEL_PADDING * 2
+    const above = new Point(0, -this.height / 2 - (labelHeight / 2 + 4) / this.scaleY)
+    renderLabel(this, ctx, formatCssSize(width, height), above)
+  }
+}
+
+classRegistry.setClass(DimensionLine)
+classRegistry.setClass(BoxMeasure)
+
+/**
+ * Whether an object is a measurement
+ */
+export function isMeasurement(obj: FabricObject): obj is DimensionLine | BoxMeasure {
+  return obj instanceof DimensionLine || obj instanceof BoxMeasure
+}
+
+/**
+ * A new measurement starting at `at`, to be dragged out to its other end
+ * (a line) or corner (a box)
+ */
+export function createMeasurement(mode: 'line' | 'box', at: XY, color: string, pixelRatio: number): DimensionLine | BoxMeasure {
+  const options = { stroke: color, pixelRatio, selectable: false }
+  return mode === 'line'
+    ? new DimensionLine([at.x, at.y, at.x, at.y], { ...options, strokeWidth: 2 })
+    : new BoxMeasure({ ...options, left: at.x, top: at.y, width: 0, height: 0, strokeWidth: 1 })
+}
+
+/**
+ * Whether a just-drawn measurement was a click without a drag, measuring
+ * nothing
+ */
+export function isEmptyMeasurement(obj: DimensionLine | BoxMeasure): boolean {
+  return obj.width < 2 && obj.height < 2
+}
+
+/** Canvas pixels per screenshot pixel */
+function getBackgroundScale(obj: FabricObject): number {
+  return obj.canvas?.backgroundImage?.scaleX || 1
+}
+
+/**
+ * A label in the measurement's color at `at` (in the object's own plane),
+ * drawn unscaled so it reads the same however the measurement is stretched
+ */
+function renderLabel(obj: FabricObject, ctx: CanvasRenderingContext2D, text: string, at: Point) {
+  const color = obj.stroke as string
+  ctx.save()
+  ctx.translate(at.x, at.y)
+  ctx.scale(1 / obj.scaleX, 1 / obj.scaleY)
+  ctx.font = `bold ${LABEL_FONT_SIZE}px Arial`
+  const width = ctx.measureText(text).width + LABEL_PADDING * 2
+  const height = LABEL_FONT_SIZE + LABEL_PADDING * 2
+  ctx.fillStyle = color
+  ctx.fillRect(-width / 2, -height / 2, width, height)
+  ctx.fillStyle = readableTextColor(color)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(text, 0, 0)
+  ctx.restore()
+}
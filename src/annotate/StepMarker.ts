@@ -0,0 +1,80 @@
+/**
+ * Numbered step marker annotation: a filled circle with its number in the
+ * contrasting color, placed with one click.
+ *
+ * Markers are plain groups tagged with a stepNumber (serialized through the
+ * annotate page's custom properties), numbered from 1 in the order they were
+ * placed. Deleting or reordering them renumbers the rest - see
+ * lib/step-markers.ts for the matching edits to the description.
+ */
+
+import { Circle, FabricText, Group } from 'fabric'
+import type { Canvas, FabricObject, XY } from 'fabric'
+import { readableTextColor } from '@/lib/colors'
+
+export type StepMarker = Group & { stepNumber: number }
+
+/**
+ * A step marker centered on `at`, sized to the stroke width
+ */
+export function createStepMarker(number: number, at: XY, color: string, strokeWidth: number): StepMarker {
+  const radius = 10 + strokeWidth * 2
+  const textColor = readableTextColor(color)
+
+  const circle = new Circle({
+    radius,
+    fill: color,
+    stroke: textColor,
+    strokeWidth: 2,
+    originX: 'center',
+    originY: 'center',
+  })
+
+  const label = new FabricText(String(number), {
+    fontSize: radius,
+    fontFamily: 'Arial',
+    fontWeight: 'bold',
+    fill: textColor,
+    originX: 'center',
+    originY: 'center',
+  })
+
+  const marker = new Group([circle, label], {
+    left: at.x,
+    top: at.y,
+    originX: 'center',
+    originY: 'center',
+  })
+  return Object.assign(marker, { stepNumber: number })
+}
+
+/**
+ * Whether an object is a numbered step marker (a circle and number group)
+ */
+export function isStepMarker(obj: FabricObject): obj is StepMarker {
+  return obj instanceof Group && typeof (obj as { stepNumber?: unknown }).stepNumber === 'number'
+}
+
+/**
+ * The canvas's step markers in number order
+ */
+export function getStepMarkers(canvas: Canvas): StepMarker[] {
+  return canvas.getObjects().filter(isStepMarker).sort((a, b) => a.stepNumber - b.stepNumber)
+}
+
+/**
+ * The number the next marker placed on the canvas gets - one after the last
+ */
+export function nextStepNumber(canvas: Canvas): number {
+  return Math.max(0, ...getStepMarkers(canvas).map((marker) => marker.stepNumber)) + 1
+}
+
+/**
+ * Show a new number on a step marker
+ */
+export function setStepNumber(marker: StepMarker, number: number) {
+  marker.stepNumber = number
+  const label = marker.getObjects().find((obj) => obj instanceof FabricText)
+  label?.set({ text: String(number) })
+  marker.dirty = true
+}
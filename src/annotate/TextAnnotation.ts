@@ -0,0 +1,157 @@
+/**
+ * Text annotation: editable text with a font size, bold and italic,
+ * alignment, an optional padded box behind it and an outline or shadow for
+ * legibility over busy screenshots.
+ *
+ * By default the box is as wide as the longest line and lines only break
+ * where Enter was pressed. Setting a wrap width - from the toolbar, or by
+ * dragging a side handle - wraps the text at that width instead.
+ */
+
+import { Control, Shadow, Textbox, classRegistry, controlsUtils } from 'fabric'
+import type { TPointerEvent, TextboxProps, Transform, XY } from 'fabric'
+import { readableTextColor } from '@/lib/colors'
+import { textEffectProps, type TextEffect, type TextStyle } from '@/lib/text-style'
+
+const BOX_CORNER_RADIUS = 4
+
+/** Width to lay out at while measuring text that isn't wrapped */
+const UNWRAPPED_LAYOUT_WIDTH = 100000
+
+export interface TextAnnotationProps extends TextboxProps {
+  /** Draw a box in the contrasting color behind the text */
+  showBox: boolean
+  boxPadding: number
+  textEffect: TextEffect
+  /** Size to the text rather than wrapping at `width` */
+  autoWidth: boolean
+}
+
+export class TextAnnotation extends Textbox {
+  static type = 'TextAnnotation'
+
+  /** Serialized with the standard Textbox properties */
+  static customProperties = ['showBox', 'boxPadding', 'textEffect', 'autoWidth']
+
+  /** Switching between sized-to-text and wrapped re-lays the text out */
+  static textLayoutProperties = [...Textbox.textLayoutProperties, 'autoWidth']
+
+  declare showBox: boolean
+  declare boxPadding: number
+  declare textEffect: TextEffect
+  declare autoWidth: boolean
+
+  constructor(text: string, options: Partial<TextAnnotationProps> = {}) {
+    super(text, {
+      showBox: false,
+      boxPadding: 0,
+      textEffect: 'none',
+      autoWidth: true,
+      objectCaching: false, // The box draws outside the text bounds
+      ...options,
+    })
+  }
+
+  static createControls() {
+    const { controls } = super.createControls()
+    return {
+      controls: {
+        ...controls,
+        ml: new Control({ ...controls.ml, actionHandler: resizeWrapWidth }),
+        mr: new Control({ ...controls.mr, actionHandler: resizeWrapWidth }),
+      },
+    }
+  }
+
+  initDimensions() {
+    if (!this.initialized || !this.autoWidth) {
+      super.initDimensions()
+      return
+    }
+    // Lay out without wrapping, then shrink to the longest line
+    this._set('width', UNWRAPPED_LAYOUT_WIDTH)
+    super.initDimensions()
+    this._set('width', this.calcTextWidth() || this.cursorWidth || this.MIN_TEXT_WIDTH)
+  }
+
+  /** The toolbar's view of this text's styling */
+  getTextStyle(): TextStyle {
+    return {
+      fontSize: this.fontSize,
+      bold: this.fontWeight === 'bold',
+      italic: this.fontStyle === 'italic',
+      align: this.textAlign === 'center' || this.textAlign === 'right' ? this.textAlign : 'left',
+      box: this.showBox,
+      boxPadding: this.boxPadding,
+      effect: this.textEffect,
+      wrapWidth: this.autoWidth ? 0 : Math.round(this.width),
+    }
+  }
+
+  /** Apply toolbar styling, keeping the outline or shadow in step with the size */
+  setTextStyle(style: TextStyle) {
+    const effect = textEffectProps(style.effect, this.fill as string, style.fontSize)
+    this.set({
+      fontSize: style.fontSize,
+      fontWeight: style.bold ? 'bold' : 'normal',
+      fontStyle: style.italic ? 'italic' : 'normal',
+      textAlign: style.align,
+      showBox: style.box,
+      boxPadding: style.boxPadding,
+      // Selection handles surround the box rather than the text
+      padding: style.box ? style.boxPadding : 0,
+      textEffect: style.effect,
+      stroke: effect.stroke,
+      strokeWidth: effect.strokeWidth,
+      paintFirst: effect.paintFirst,
+      shadow: effect.shadow ? new Shadow(effect.shadow) : null,
+      autoWidth: style.wrapWidth === 0,
+      ...(style.wrapWidth > 0 && { width: style.wrapWidth }),
+    })
+    this.setCoords()
+  }
+
+  _render(ctx: CanvasRenderingContext2D) {
+    if (this.showBox) {
+      const padding = this.boxPadding
+      ctx.save()
+      ctx.beginPath()
+      ctx.roundRect(
+        -this.width / 2 - padding,
+        -this.height / 2 - padding,
+        this.width + padding * 2,
+        this.height + padding * 2,
+        BOX_CORNER_RADIUS
+      )
+      ctx.fillStyle = readableTextColor(this.fill as string)
+      ctx.fill()
+      ctx.restore()
+    }
+    super._render(ctx)
+  }
+}
+
+classRegistry.setClass(TextAnnotation)
+
+/**
+ * New placeholder text at `at`, styled from the toolbar
+ */
+export function createTextAnnotation(at: XY, color: string, style: TextStyle): TextAnnotation {
+  const text = new TextAnnotation('Type here', {
+    left: at.x,
+    top: at.y,
+    fill: color,
+    fontFamily: 'Arial',
+  })
+  text.setTextStyle(style)
+  return text
+}
+
+/**
+ * Dragging a side handle sets a wrap width instead of sizing to the text
+ */
+function resizeWrapWidth(eventData: TPointerEvent, transform: Transform, x: number, y: number): boolean {
+  const text = transform.target as TextAnnotation
+  if (text.autoWidth) text.autoWidth = false
+  return controlsUtils.changeWidth(eventData, transform, x, y)
+}
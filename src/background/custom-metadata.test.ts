@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { runExtractors } from './custom-metadata'
+
+describe('runExtractors', () => {
+  beforeEach(() => {
+    document.head.innerHTML = '<meta name="build-sha" content="abc123"><meta property="og:site_name" content="Shop">'
+    document.body.innerHTML = '<div id="plan">  Pro\n plan </div><input id="tenant" value="acme">'
+    ;(window as unknown as { __APP__: unknown }).__APP__ = { flags: { beta: true }, version: 42 }
+    localStorage.setItem('featureFlags', 'new-checkout')
+  })
+
+  afterEach(() => {
+    delete (window as unknown as { __APP__?: unknown }).__APP__
+    localStorage.clear()
+  })
+
+  it('reads meta tags, elements, globals and localStorage', () => {
+    const fields = runExtractors([
+      { label: 'Build', source: 'meta', query: 'build-sha' },
+      { label: 'Site', source: 'meta', query: 'og:site_name' },
+      { label: 'Plan', source: 'selector', query: '#plan' },
+      { label: 'Tenant', source: 'selector', query: '#tenant' },
+      { label: 'Flags', source: 'global', query: 'window.__APP__.flags' },
+      { label: 'Version', source: 'global', query: '__APP__.version' },
+      { label: 'Stored', source: 'localStorage', query: 'featureFlags' },
+    ], 500)
+
+    expect(fields).toEqual([
+      { label: 'Build', value: 'abc123' },
+      { label: 'Site', value: 'Shop' },
+      { label: 'Plan', value: 'Pro plan' },
+      { label: 'Tenant', value: 'acme' },
+      { label: 'Flags', value: '{"beta":true}' },
+      { label: 'Version', value: '42' },
+      { label: 'Stored', value: 'new-checkout' },
+    ])
+  })
+
+  it('skips extractors that find nothing or throw', () => {
+    const fields = runExtractors([
+      { label: 'Missing meta', source: 'meta', query: 'nope' },
+      { label: 'Bad selector', source: 'selector', query: '##' },
+      { label: 'Missing global', source: 'global', query: '__APP__.a.b.c' },
+      { label: 'Missing key', source: 'localStorage', query: 'nope' },
+    ], 500)
+
+    expect(fields).toEqual([])
+  })
+
+  it('truncates long values', () => {
+    localStorage.setItem('long', 'x'.repeat(20))
+
+    const [field] = runExtractors([{ label: 'Long', source: 'localStorage', query: 'long' }], 5)
+
+    expect(field.value).toBe('xxxxx…')
+  })
+})
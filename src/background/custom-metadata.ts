@@ -0,0 +1,101 @@
+/**
+ * Custom metadata extraction.
+ *
+ * Runs the user's extractors for the tab's origin (see lib/extractors.ts)
+ * in the page's MAIN world - app globals like window.__APP__ aren't visible
+ * from the isolated world - and returns the values found as report rows.
+ */
+
+import type { CustomMetadataField } from '../lib/metadata'
+import { findExtractorsForUrl, MAX_EXTRACTED_VALUE_LENGTH, type MetadataExtractor } from '../lib/extractors'
+import { getMetadataExtractors } from '../lib/storage'
+
+/**
+ * Evaluate the extractors configured for the tab's origin. Extractors that
+ * find nothing are left out; pages that can't be scripted yield no rows.
+ */
+export async function collectCustomFields(tab: chrome.tabs.Tab): Promise<CustomMetadataField[]> {
+  if (!tab.id || !tab.url) return []
+
+  const extractors = findExtractorsForUrl(await getMetadataExtractors(), tab.url)
+  if (extractors.length === 0) return []
+
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      world: 'MAIN',
+      func: runExtractors,
+      args: [extractors, MAX_EXTRACTED_VALUE_LENGTH],
+    })
+    return (result?.result as CustomMetadataField[] | undefined) ?? []
+  } catch (error) {
+    console.warn('Custom metadata extraction failed:', error)
+    return []
+  }
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope. Exported for
+// tests.
+// ============================================================================
+
+export function runExtractors(extractors: MetadataExtractor[], maxLength: number): CustomMetadataField[] {
+  const toText = (value: unknown): string | null => {
+    if (value === undefined || value === null) return null
+    if (typeof value === 'string') return value
+    try {
+      return JSON.stringify(value) ?? String(value)
+    } catch {
+      return String(value)
+    }
+  }
+
+  const extract = (extractor: MetadataExtractor): string | null => {
+    switch (extractor.source) {
+      case 'meta': {
+        const name = extractor.query.replace(/["\\]/g, '\\$&')
+        const meta = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`)
+        return meta?.getAttribute('content') ?? null
+      }
+      case 'selector': {
+        const el = document.querySelector(extractor.query)
+        if (!el) return null
+        if (el instanceof HTMLInputElement || el instanceof HTMLSelectElement || el instanceof HTMLTextAreaElement) {
+          return el.value
+        }
+        return el.textContent?.replace(/\s+/g, ' ').trim() ?? null
+      }
+      case 'global': {
+        let value: unknown = window
+        for (const key of extractor.query.replace(/^window\./, '').split('.')) {
+          if (value === undefined || value === null) return null
+          value = (value as Record<string, unknown>)[key]
+        }
+        return toText(value)
+      }
+      case 'localStorage':
+        return window.localStorage.getItem(extractor.query)
+      default:
+        return null
+    }
+  }
+
+  const fields: CustomMetadataField[] = []
+  for (const extractor of extractors) {
+    let value: string | null = null
+    try {
+      value = extract(extractor)
+    } catch {
+      // Invalid selector, throwing getter, storage blocked
+    }
+    if (value === null || value === '') continue
+    fields.push({
+      label: extractor.label,
+      value: value.length > maxLength ? `${value.slice(0, maxLength)}…` : value,
+    })
+  }
+  return fields
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { startCountdown } from './delayed-capture'
+
+describe('startCountdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('ticks once per second and fires onDone when the timer elapses', () => {
+    const onTick = vi.fn()
+    const onDone = vi.fn()
+
+    startCountdown(3, onTick, onDone)
+    expect(onTick.mock.calls).toEqual([[3]])
+
+    vi.advanceTimersByTime(2000)
+    expect(onTick.mock.calls).toEqual([[3], [2], [1]])
+    expect(onDone).not.toHaveBeenCalled()
+
+    vi.advanceTimersByTime(1000)
+    expect(onDone).toHaveBeenCalledTimes(1)
+    expect(onTick).toHaveBeenCalledTimes(3)
+  })
+
+  it('never fires onDone once cancelled', () => {
+    const onTick = vi.fn()
+    const onDone = vi.fn()
+
+    const cancel = startCountdown(5, onTick, onDone)
+    vi.advanceTimersByTime(2000)
+    cancel()
+    vi.advanceTimersByTime(10_000)
+
+    expect(onDone).not.toHaveBeenCalled()
+    expect(onTick).toHaveBeenCalledTimes(3)
+  })
+
+  it('fires onDone immediately for a zero delay', () => {
+    const onTick = vi.fn()
+    const onDone = vi.fn()
+
+    startCountdown(0, onTick, onDone)
+
+    expect(onDone).toHaveBeenCalledTimes(1)
+    expect(onTick).not.toHaveBeenCalled()
+  })
+})
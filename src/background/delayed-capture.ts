@@ -0,0 +1,42 @@
+/**
+ * Countdown for delayed (timer) captures.
+ *
+ * Clicking the PopShot icon closes open menus, tooltips and hover states, so
+ * a delayed capture lets the user start the timer, go back to the page and
+ * re-open whatever needs capturing before the screenshot is taken.
+ */
+
+/** Delays offered in the action context menu, in seconds */
+export const CAPTURE_DELAYS = [3, 5, 10] as const
+
+/**
+ * Count down from `seconds`, calling onTick with the seconds remaining (once
+ * immediately, then every second) and onDone when the timer elapses.
+ * Returns a function that cancels the countdown; onDone never fires after
+ * cancelling.
+ */
+export function startCountdown(
+  seconds: number,
+  onTick: (remaining: number) => void,
+  onDone: () => void
+): () => void {
+  let remaining = Math.max(0, Math.floor(seconds))
+
+  if (remaining === 0) {
+    onDone()
+    return () => {}
+  }
+
+  onTick(remaining)
+  const interval = setInterval(() => {
+    remaining--
+    if (remaining > 0) {
+      onTick(remaining)
+      return
+    }
+    clearInterval(interval)
+    onDone()
+  }, 1000)
+
+  return () => clearInterval(interval)
+}
@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { serializeDocument, snapshotOrigin } from './dom-snapshot'
+
+const RECT = 'data-popshot-rect'
+const SCROLL = 'data-popshot-scroll'
+
+function serialize(): Document {
+  const { html } = serializeDocument(RECT, SCROLL, 1024 * 1024)
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('serializeDocument', () => {
+  beforeEach(() => {
+    document.head.innerHTML = ''
+    document.body.innerHTML = ''
+  })
+
+  it('drops scripts, event handlers and javascript: links', () => {
+    document.body.innerHTML = `
+      <script>window.secret = 1</script>
+      <button id="go" onclick="alert(1)">Go</button>
+      <a id="link" href="javascript:void(0)">Link</a>`
+
+    const doc = serialize()
+
+    expect(doc.querySelectorAll('body script')).toHaveLength(0)
+    expect(doc.getElementById('go')?.hasAttribute('onclick')).toBe(false)
+    expect(doc.getElementById('link')?.hasAttribute('href')).toBe(false)
+  })
+
+  it('never includes typed values', () => {
+    document.body.innerHTML = `
+      <input id="name" type="text">
+      <input id="password" type="password" value="hunter2">
+      <textarea id="notes"></textarea>
+      <input id="agree" type="checkbox">`
+    ;(document.getElementById('name') as HTMLInputElement).value = 'Jane'
+    ;(document.getElementById('notes') as HTMLTextAreaElement).value = 'private'
+    ;(document.getElementById('agree') as HTMLInputElement).checked = true
+
+    const doc = serialize()
+
+    expect(doc.getElementById('name')?.getAttribute('value')).toBe('••••')
+    expect(doc.getElementById('password')?.hasAttribute('value')).toBe(false)
+    expect(doc.getElementById('notes')?.textContent).toBe('•••••••')
+    expect(doc.getElementById('agree')?.hasAttribute('checked')).toBe(true)
+  })
+
+  it('inlines stylesheet text', () => {
+    document.head.innerHTML = '<style>.box { color: red; }</style>'
+
+    const doc = serialize()
+
+    expect(doc.querySelector('style')?.textContent).toContain('.box')
+  })
+
+  it('tags elements showing content with their page rect', () => {
+    document.body.innerHTML = '<div id="wrapper"><p id="text">Hello</p></div>'
+    const text = document.getElementById('text')!
+    text.getBoundingClientRect = () => ({ left: 10, top: 20, width: 100, height: 18 }) as DOMRect
+
+    const doc = serialize()
+
+    expect(doc.getElementById('text')?.getAttribute(RECT)).toBe('10,20,100,18')
+    expect(doc.getElementById('wrapper')?.hasAttribute(RECT)).toBe(false)
+  })
+
+  it('records scroll positions and replaces frames with a placeholder', () => {
+    document.body.innerHTML = '<div id="list"></div><iframe id="frame" src="https://example.com"></iframe>'
+    const list = document.getElementById('list')!
+    Object.defineProperty(list, 'scrollTop', { value: 120 })
+
+    const doc = serialize()
+
+    expect(doc.getElementById('list')?.getAttribute(SCROLL)).toBe('0,120')
+    expect(doc.getElementById('frame')?.hasAttribute('src')).toBe(false)
+    expect(doc.getElementById('frame')?.getAttribute('srcdoc')).toContain('not captured')
+  })
+
+  it('adds a base URL so remaining relative links resolve', () => {
+    const doc = serialize()
+
+    expect(doc.querySelector('base')?.getAttribute('href')).toBe(document.baseURI)
+  })
+})
+
+describe('snapshotOrigin', () => {
+  const page = { scrollX: 0, scrollY: 500, devicePixelRatio: 2 }
+
+  it('places a viewport capture at the scroll position', () => {
+    expect(snapshotOrigin(page, { kind: 'viewport' })).toEqual({ x: 0, y: 500, scale: 2 })
+  })
+
+  it('places a full-page capture at the top of the document', () => {
+    expect(snapshotOrigin(page, { kind: 'page' })).toEqual({ x: 0, y: 0, scale: 2 })
+  })
+
+  it('offsets a region capture by the region within the viewport', () => {
+    const region = { x: 40, y: 60, width: 100, height: 100, devicePixelRatio: 2 }
+
+    expect(snapshotOrigin(page, { kind: 'region', region })).toEqual({ x: 40, y: 560, scale: 2 })
+  })
+})
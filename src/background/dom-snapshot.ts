@@ -0,0 +1,292 @@
+/**
+ * DOM snapshot capture.
+ *
+ * Serializes the captured tab into one self-contained HTML file the
+ * receiving engineer can open and inspect: stylesheets inlined as text,
+ * images (and canvases) inlined as data URIs where the page allows reading
+ * them, scroll positions restored on load, scripts and event handlers
+ * removed. Typed form values are never included - fields keep their length
+ * as bullets. Shadow DOM content and cross-origin frames aren't captured.
+ *
+ * The snapshot is stored in the snapshot store, still tagged with element
+ * positions so the annotate page can redact it under pixelated regions
+ * (see lib/dom-snapshot.ts).
+ */
+
+import { SNAPSHOT_RECT_ATTRIBUTE, SNAPSHOT_SCROLL_ATTRIBUTE } from '../lib/dom-snapshot'
+import { saveSnapshot } from '../lib/snapshot-store'
+import type { SelectedRegion } from './region-capture'
+
+/** Images stop being inlined once this many bytes of data URIs are used */
+const MAX_INLINE_IMAGE_BYTES = 20 * 1024 * 1024
+
+/** What the injected serializer returns */
+export interface SerializedPage {
+  html: string
+  scrollX: number
+  scrollY: number
+  devicePixelRatio: number
+}
+
+/**
+ * Which part of the page the screenshot shows: the viewport, the whole page
+ * (full-page capture) or a region of the viewport (region/element capture)
+ */
+export type CaptureArea =
+  | { kind: 'viewport' }
+  | { kind: 'page' }
+  | { kind: 'region'; region: SelectedRegion }
+
+/**
+ * Serialize the tab and store the snapshot. Returns its id, or null when the
+ * page can't be serialized (restricted pages, pages that time out).
+ */
+export async function captureDomSnapshot(tab: chrome.tabs.Tab, area: CaptureArea): Promise<string | null> {
+  if (!tab.id) return null
+
+  try {
+    const [serialized] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: serializeDocument,
+      args: [SNAPSHOT_RECT_ATTRIBUTE, SNAPSHOT_SCROLL_ATTRIBUTE, MAX_INLINE_IMAGE_BYTES],
+    })
+    const page = serialized?.result as SerializedPage | undefined
+    if (!page) return null
+
+    const id = crypto.randomUUID()
+    await saveSnapshot({
+      id,
+      html: page.html,
+      origin: snapshotOrigin(page, area),
+      createdAt: Date.now(),
+    })
+    return id
+  } catch (error) {
+    console.warn('DOM snapshot failed:', error)
+    return null
+  }
+}
+
+/**
+ * The page position of the screenshot's top-left pixel, in CSS pixels
+ */
+export function snapshotOrigin(
+  page: Pick<SerializedPage, 'scrollX' | 'scrollY' | 'devicePixelRatio'>,
+  area: CaptureArea
+): { x: number; y: number; scale: number } {
+  const scale = page.devicePixelRatio
+  switch (area.kind) {
+    case 'page':
+      return { x: 0, y: 0, scale }
+    case 'region':
+      return { x: page.scrollX + area.region.x, y: page.scrollY + area.region.y, scale }
+    case 'viewport':
+      return { x: page.scrollX, y: page.scrollY, scale }
+  }
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope. Exported for
+// tests.
+// ============================================================================
+
+export function serializeDocument(
+  rectAttribute: string,
+  scrollAttribute: string,
+  maxInlineImageBytes: number
+): SerializedPage {
+  const root = document.documentElement
+  const clone = root.cloneNode(true) as HTMLElement
+  // Freshly cloned, both trees list their elements in the same order
+  const originals = [root, ...Array.from(root.querySelectorAll('*'))]
+  const copies = [clone, ...Array.from(clone.querySelectorAll('*'))]
+
+  const CONTENT_TAGS = new Set(['img', 'input', 'textarea', 'select', 'canvas', 'video', 'svg', 'iframe', 'picture'])
+  const TEXT_INPUT_EXCLUDED = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'image', 'file', 'hidden', 'range', 'color'])
+  let inlinedBytes = 0
+
+  const mask = (value: string) => '•'.repeat(Math.min(value.length, 50))
+
+  // Readable stylesheet text by owner node. Cross-origin sheets throw on
+  // cssRules and stay as links.
+  const sheetText = new Map<Node, string>()
+  for (const sheet of Array.from(document.styleSheets)) {
+    if (!sheet.ownerNode) continue
+    try {
+      let text = Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n')
+      if (sheet.href) {
+        // Relative url()s in a linked sheet are relative to the sheet
+        const base = sheet.href
+        text = text.replace(/url\((['"]?)(?!data:|blob:|https?:|\/\/|#)([^'")]+)\1\)/g, (_match, quote: string, path: string) => {
+          try {
+            return `url(${quote}${new URL(path, base).href}${quote})`
+          } catch {
+            return `url(${quote}${path}${quote})`
+          }
+        })
+      }
+      sheetText.set(sheet.ownerNode, text)
+    } catch {
+      // Cross-origin
+    }
+  }
+
+  const toDataUrl = (source: CanvasImageSource & { width: number; height: number }, width: number, height: number) => {
+    if (inlinedBytes >= maxInlineImageBytes || width === 0 || height === 0) return null
+    try {
+      const canvas = document.createElement('canvas')
+      canvas.width = width
+      canvas.height = height
+      canvas.getContext('2d')?.drawImage(source, 0, 0, width, height)
+      const dataUrl = canvas.toDataURL('image/png')
+      inlinedBytes += dataUrl.length
+      return dataUrl
+    } catch {
+      // Tainted by a cross-origin image
+      return null
+    }
+  }
+
+  const removals: Element[] = []
+  const replacements: [Element, Element][] = []
+
+  originals.forEach((original, i) => {
+    const copy = copies[i]
+    const tag = original.tagName.toLowerCase()
+
+    if (tag === 'script' || tag === 'noscript' || tag === 'base') {
+      removals.push(copy)
+      return
+    }
+
+    // Event handlers and javascript: links
+    for (const attribute of Array.from(copy.attributes)) {
+      if (attribute.name.startsWith('on') || /^\s*javascript:/i.test(attribute.value)) {
+        copy.removeAttribute(attribute.name)
+      }
+    }
+
+    // Position, for redaction under pixelated regions
+    const hasText = Array.from(original.childNodes).some((node) => node.nodeType === 3 && node.textContent?.trim())
+    if (hasText || CONTENT_TAGS.has(tag)) {
+      const rect = original.getBoundingClientRect()
+      if (rect.width > 0 && rect.height > 0) {
+        copy.setAttribute(rectAttribute, [
+          Math.round(rect.left + window.scrollX),
+          Math.round(rect.top + window.scrollY),
+          Math.round(rect.width),
+          Math.round(rect.height),
+        ].join(','))
+      }
+    }
+
+    if (original !== root && original !== document.body && (original.scrollTop || original.scrollLeft)) {
+      copy.setAttribute(scrollAttribute, `${original.scrollLeft},${original.scrollTop}`)
+    }
+
+    if (tag === 'style' || (tag === 'link' && /\bstylesheet\b/i.test(original.getAttribute('rel') ?? ''))) {
+      const text = sheetText.get(original)
+      if (text !== undefined) {
+        const style = document.createElement('style')
+        const media = original.getAttribute('media')
+        if (media) style.setAttribute('media', media)
+        style.textContent = text
+        replacements.push([copy, style])
+      } else if (tag === 'link') {
+        copy.setAttribute('href', (original as HTMLLinkElement).href)
+      }
+      return
+    }
+
+    if (tag === 'input') {
+      const input = original as HTMLInputElement
+      const type = input.type.toLowerCase()
+      if (type === 'checkbox' || type === 'radio') {
+        if (input.checked) copy.setAttribute('checked', '')
+        else copy.removeAttribute('checked')
+      } else if (type === 'password' || type === 'file' || type === 'hidden') {
+        copy.removeAttribute('value')
+      } else if (!TEXT_INPUT_EXCLUDED.has(type)) {
+        copy.setAttribute('value', mask(input.value))
+      }
+    } else if (tag === 'textarea') {
+      copy.textContent = mask((original as HTMLTextAreaElement).value)
+    } else if (tag === 'option') {
+      if ((original as HTMLOptionElement).selected) copy.setAttribute('selected', '')
+      else copy.removeAttribute('selected')
+    } else if (tag === 'img') {
+      const img = original as HTMLImageElement
+      copy.removeAttribute('srcset')
+      copy.removeAttribute('sizes')
+      copy.removeAttribute('loading')
+      const inlined = img.complete ? toDataUrl(img, img.naturalWidth, img.naturalHeight) : null
+      copy.setAttribute('src', inlined ?? (img.currentSrc || img.src))
+    } else if (tag === 'source' && original.parentElement?.tagName.toLowerCase() === 'picture') {
+      // The <img> carries the chosen source
+      removals.push(copy)
+    } else if (tag === 'canvas') {
+      const canvas = original as HTMLCanvasElement
+      const inlined = toDataUrl(canvas, canvas.width, canvas.height)
+      if (inlined) {
+        const img = document.createElement('img')
+        for (const attribute of Array.from(copy.attributes)) {
+          img.setAttribute(attribute.name, attribute.value)
+        }
+        img.setAttribute('src', inlined)
+        img.style.width = `${canvas.clientWidth}px`
+        img.style.height = `${canvas.clientHeight}px`
+        replacements.push([copy, img])
+      }
+    } else if (tag === 'iframe') {
+      copy.removeAttribute('src')
+      copy.setAttribute('srcdoc', '<p style="font:12px sans-serif;color:#888">Frame not captured</p>')
+    } else if (tag === 'a' && copy.hasAttribute('href')) {
+      copy.setAttribute('href', (original as HTMLAnchorElement).href)
+    }
+  })
+
+  for (const copy of removals) copy.remove()
+  for (const [copy, replacement] of replacements) copy.replaceWith(replacement)
+
+  // Constructed stylesheets (adoptedStyleSheets) have no node to clone
+  const adopted = (document as Document & { adoptedStyleSheets?: CSSStyleSheet[] }).adoptedStyleSheets ?? []
+  const head = clone.querySelector('head') ?? clone.insertBefore(document.createElement('head'), clone.firstChild)
+  for (const sheet of adopted) {
+    try {
+      const style = document.createElement('style')
+      style.textContent = Array.from(sheet.cssRules).map((rule) => rule.cssText).join('\n')
+      head.appendChild(style)
+    } catch {
+      // Unreadable
+    }
+  }
+
+  // Resolve remaining relative URLs against the page, and restore scroll
+  // positions when the file is opened
+  const charset = document.createElement('meta')
+  charset.setAttribute('charset', 'utf-8')
+  const base = document.createElement('base')
+  base.setAttribute('href', document.baseURI)
+  const restore = document.createElement('script')
+  restore.textContent = [
+    'addEventListener("load", function () {',
+    `  document.querySelectorAll("[${scrollAttribute}]").forEach(function (el) {`,
+    `    var p = el.getAttribute("${scrollAttribute}").split(",");`,
+    '    el.scrollLeft = +p[0]; el.scrollTop = +p[1];',
+    '  });',
+    `  scrollTo(${Math.round(window.scrollX)}, ${Math.round(window.scrollY)});`,
+    '});',
+  ].join('\n')
+  head.prepend(charset, base)
+  head.appendChild(restore)
+
+  return {
+    html: `<!DOCTYPE html>\n${clone.outerHTML}`,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    devicePixelRatio: window.devicePixelRatio,
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { describePickedElement } from './element-capture'
+
+const ATTR = 'data-popshot-picked'
+
+describe('describePickedElement', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('returns null when nothing was picked', () => {
+    expect(describePickedElement(ATTR)).toBeNull()
+  })
+
+  it('anchors the selector on the nearest id', () => {
+    document.body.innerHTML = `
+      <div id="checkout">
+        <form><button class="btn primary large" ${ATTR}>Pay now</button></form>
+      </div>`
+
+    const info = describePickedElement(ATTR)
+
+    expect(info?.selector).toBe('#checkout > form > button.btn.primary')
+    expect(info?.tagName).toBe('button')
+    expect(info?.textSnippet).toBe('Pay now')
+  })
+
+  it('disambiguates same-tag siblings with :nth-of-type', () => {
+    document.body.innerHTML = `<ul><li>One</li><li ${ATTR}>Two</li><li>Three</li></ul>`
+
+    const info = describePickedElement(ATTR)
+
+    expect(info?.selector).toBe('body > ul > li:nth-of-type(2)')
+    expect(document.querySelector(info!.selector)?.textContent).toBe('Two')
+  })
+
+  it('removes the picker mark', () => {
+    document.body.innerHTML = `<p ${ATTR}>Hello</p>`
+
+    describePickedElement(ATTR)
+
+    expect(document.querySelector(`[${ATTR}]`)).toBeNull()
+  })
+
+  it('collapses whitespace and truncates long text', () => {
+    const long = 'word '.repeat(60)
+    document.body.innerHTML = `<p ${ATTR}>  ${long}  </p>`
+
+    const info = describePickedElement(ATTR)
+
+    expect(info?.textSnippet.length).toBe(120)
+    expect(info?.textSnippet.endsWith('...')).toBe(true)
+    expect(info?.textSnippet).not.toMatch(/\s{2,}/)
+  })
+})
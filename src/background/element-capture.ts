@@ -0,0 +1,219 @@
+/**
+ * DOM element picker capture.
+ *
+ * Works like the devtools "inspect element" picker: hovering highlights the
+ * element under the cursor, clicking picks it. The picked element is scrolled
+ * into view if needed, the viewport is captured and cropped to the element's
+ * bounding box, and a description of the element (selector, tag, text, size)
+ * travels with the report so the engineer knows exactly which component it
+ * is about.
+ */
+
+import type { ElementInfo } from '../lib/metadata'
+import { cropToRegion, type SelectedRegion } from './region-capture'
+
+/** Attribute the picker leaves on the chosen element for describePickedElement */
+const PICKED_ATTRIBUTE = 'data-popshot-picked'
+
+/**
+ * Let the user pick an element in the tab and capture exactly its bounding
+ * box. Resolves to null when the user cancels with Escape.
+ */
+export async function captureElement(
+  tab: chrome.tabs.Tab
+): Promise<{ dataUrl: string; element: ElementInfo; region: SelectedRegion } | null> {
+  if (!tab.id) {
+    throw new Error('No active tab found')
+  }
+
+  const [picked] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: pickElementInPage,
+    args: [PICKED_ATTRIBUTE],
+  })
+  const region = picked?.result as SelectedRegion | null | undefined
+  if (!region) {
+    return null
+  }
+
+  const [described] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: describePickedElement,
+    args: [PICKED_ATTRIBUTE],
+  })
+  const element = described?.result as ElementInfo | null | undefined
+  if (!element) {
+    throw new Error('The picked element is no longer on the page')
+  }
+
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+    format: 'png',
+    quality: 100,
+  })
+
+  return { dataUrl: await cropToRegion(dataUrl, region), element, region }
+}
+
+// ============================================================================
+// Injected page functions
+//
+// These run inside the captured tab via chrome.scripting.executeScript, so
+// they must be self-contained: no imports, no references to module scope.
+// ============================================================================
+
+/**
+ * Describe the element the picker marked and remove the mark. Exported for
+ * tests; in production it only ever runs inside the page.
+ */
+export function describePickedElement(attribute: string): ElementInfo | null {
+  const el = document.querySelector(`[${attribute}]`)
+  if (!el) return null
+  el.removeAttribute(attribute)
+
+  const escape = (value: string) =>
+    typeof CSS !== 'undefined' && CSS.escape ? CSS.escape(value) : value.replace(/([^\w-])/g, '\\$1')
+
+  // Walk up to the nearest id (or the root), qualifying each step with a
+  // couple of classes and an :nth-of-type when siblings share the tag.
+  const parts: string[] = []
+  let node: Element | null = el
+  while (node && node !== document.documentElement) {
+    if (node.id) {
+      parts.unshift(`#${escape(node.id)}`)
+      break
+    }
+
+    let part = node.tagName.toLowerCase()
+    const classes = Array.from(node.classList).slice(0, 2)
+    if (classes.length > 0) {
+      part += classes.map((c) => `.${escape(c)}`).join('')
+    }
+
+    const parent: Element | null = node.parentElement
+    if (parent) {
+      const sameTag = Array.from(parent.children).filter((child) => child.tagName === node!.tagName)
+      if (sameTag.length > 1) {
+        part += `:nth-of-type(${sameTag.indexOf(node) + 1})`
+      }
+    }
+
+    parts.unshift(part)
+    node = parent
+  }
+
+  const text = ((el as HTMLElement).innerText ?? el.textContent ?? '').replace(/\s+/g, ' ').trim()
+  const rect = el.getBoundingClientRect()
+
+  return {
+    selector: parts.join(' > '),
+    tagName: el.tagName.toLowerCase(),
+    textSnippet: text.length > 120 ? `${text.slice(0, 117)}...` : text,
+    width: Math.round(rect.width),
+    height: Math.round(rect.height),
+  }
+}
+
+function pickElementInPage(attribute: string): Promise<SelectedRegion | null> {
+  const HIGHLIGHT_ID = 'popshot-element-highlight'
+  if (document.getElementById(HIGHLIGHT_ID)) {
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    const highlight = document.createElement('div')
+    highlight.id = HIGHLIGHT_ID
+    highlight.style.cssText = [
+      'position:fixed', 'z-index:2147483647', 'pointer-events:none', 'display:none',
+      'border:2px solid #3b82f6', 'background:rgba(59,130,246,0.15)', 'box-sizing:border-box',
+    ].join(';')
+
+    const label = document.createElement('div')
+    label.style.cssText = [
+      'position:absolute', 'left:-2px', 'bottom:100%', 'margin-bottom:4px', 'white-space:nowrap',
+      'padding:2px 6px', 'border-radius:4px', 'background:#0f172a', 'color:#f1f5f9',
+      'font:12px -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif',
+    ].join(';')
+    highlight.appendChild(label)
+
+    let hovered: Element | null = null
+
+    const onMove = (e: MouseEvent) => {
+      const target = document.elementFromPoint(e.clientX, e.clientY)
+      if (!target || target === highlight || target === document.documentElement) return
+      hovered = target
+      const rect = target.getBoundingClientRect()
+      highlight.style.display = 'block'
+      highlight.style.left = `${rect.left}px`
+      highlight.style.top = `${rect.top}px`
+      highlight.style.width = `${rect.width}px`
+      highlight.style.height = `${rect.height}px`
+      label.textContent = `${target.tagName.toLowerCase()} ${Math.round(rect.width)} × ${Math.round(rect.height)}`
+    }
+
+    // Swallow the page's own handlers so picking a link or button doesn't
+    // navigate or submit anything
+    const swallow = (e: Event) => {
+      e.preventDefault()
+      e.stopPropagation()
+    }
+
+    const onClick = (e: MouseEvent) => {
+      swallow(e)
+      if (hovered) finish(hovered)
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        swallow(e)
+        finish(null)
+      }
+    }
+
+    const finish = (el: Element | null) => {
+      highlight.remove()
+      document.removeEventListener('mousemove', onMove, true)
+      document.removeEventListener('mousedown', swallow, true)
+      document.removeEventListener('mouseup', swallow, true)
+      document.removeEventListener('click', onClick, true)
+      document.removeEventListener('keydown', onKeyDown, true)
+
+      if (!el) {
+        resolve(null)
+        return
+      }
+
+      el.setAttribute(attribute, '')
+      const before = el.getBoundingClientRect()
+      const offscreen = before.top < 0 || before.left < 0 ||
+        before.bottom > window.innerHeight || before.right > window.innerWidth
+      if (offscreen) {
+        el.scrollIntoView({
+          block: before.height > window.innerHeight ? 'start' : 'center',
+          inline: 'nearest',
+          behavior: 'instant',
+        })
+      }
+
+      // Let the page repaint (scrolled, without the highlight) before capture
+      requestAnimationFrame(() => requestAnimationFrame(() => {
+        const rect = el.getBoundingClientRect()
+        const left = Math.max(0, rect.left)
+        const top = Math.max(0, rect.top)
+        resolve({
+          x: left,
+          y: top,
+          width: Math.max(1, Math.min(window.innerWidth, rect.right) - left),
+          height: Math.max(1, Math.min(window.innerHeight, rect.bottom) - top),
+          devicePixelRatio: window.devicePixelRatio,
+        })
+      }))
+    }
+
+    document.addEventListener('mousemove', onMove, true)
+    document.addEventListener('mousedown', swallow, true)
+    document.addEventListener('mouseup', swallow, true)
+    document.addEventListener('click', onClick, true)
+    document.addEventListener('keydown', onKeyDown, true)
+    document.documentElement.appendChild(highlight)
+  })
+}
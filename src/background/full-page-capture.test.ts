@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { planScrollPositions, MAX_STITCHED_HEIGHT } from './full-page-capture'
+
+describe('planScrollPositions', () => {
+  it('captures a single slice when the page fits in the viewport', () => {
+    expect(planScrollPositions(600, 800)).toEqual([0])
+    expect(planScrollPositions(800, 800)).toEqual([0])
+  })
+
+  it('steps one viewport at a time from the top', () => {
+    expect(planScrollPositions(2400, 800)).toEqual([0, 800, 1600])
+  })
+
+  it('bottom-aligns the last slice instead of scrolling past the end', () => {
+    // 2000px page, 800px viewport: the last slice starts at 1200 (not 1600,
+    // which the browser would clamp to 1200 anyway) and overlaps the second.
+    expect(planScrollPositions(2000, 800)).toEqual([0, 800, 1200])
+  })
+
+  it('stops covering the page at maxHeight', () => {
+    const positions = planScrollPositions(100_000, 1000, 3500)
+
+    expect(positions).toEqual([0, 1000, 2000, 2500])
+    expect(positions[positions.length - 1] + 1000).toBe(3500)
+  })
+
+  it('keeps device-pixel output within MAX_STITCHED_HEIGHT for a 2x display', () => {
+    const dpr = 2
+    const viewport = 900
+    const positions = planScrollPositions(50_000, viewport, MAX_STITCHED_HEIGHT / dpr)
+    const bottom = (positions[positions.length - 1] + viewport) * dpr
+
+    expect(bottom).toBeLessThanOrEqual(MAX_STITCHED_HEIGHT)
+  })
+
+  it('falls back to a single slice for a zero-height viewport', () => {
+    expect(planScrollPositions(2000, 0)).toEqual([0])
+  })
+})
@@ -0,0 +1,223 @@
+/**
+ * Full-page (scrolling) capture.
+ *
+ * captureVisibleTab only ever sees the viewport, so a full-page capture
+ * scrolls the tab through chrome.scripting.executeScript, grabs one viewport
+ * slice per scroll position and stitches the slices into a single tall PNG
+ * on an OffscreenCanvas (the service worker has no DOM).
+ */
+
+import { loadBitmap, canvasToDataUrl } from './image-utils'
+
+/**
+ * Tallest stitched image we produce, in device pixels. Chrome refuses to
+ * allocate canvases much past this (and Fabric in the annotate page gets
+ * unusably slow well before the hard limit), so very long pages are cut off
+ * at this height rather than failing outright.
+ */
+export const MAX_STITCHED_HEIGHT = 16384
+
+/**
+ * captureVisibleTab is rate limited to
+ * MAX_CAPTURE_VISIBLE_TAB_CALLS_PER_SECOND (2) - calling it faster rejects
+ * with a quota error, so slices are spaced slightly wider than that.
+ */
+const CAPTURE_INTERVAL_MS = 550
+
+/** Page geometry reported by preparePageForCapture (CSS pixels) */
+export interface PageGeometry {
+  scrollHeight: number
+  viewportWidth: number
+  viewportHeight: number
+  devicePixelRatio: number
+  originalScrollX: number
+  originalScrollY: number
+}
+
+/** One captured viewport and the scroll offset (CSS pixels) it was taken at */
+export interface CapturedSlice {
+  dataUrl: string
+  scrollY: number
+}
+
+/**
+ * Scroll offsets (CSS pixels) that together cover the page from the top.
+ *
+ * Offsets step by one viewport; the last one is pulled up to end exactly at
+ * the bottom of the page, so it overlaps the previous slice instead of
+ * asking the browser for a scroll position it would clamp anyway. Pages
+ * taller than maxHeight are only covered down to maxHeight.
+ */
+export function planScrollPositions(
+  scrollHeight: number,
+  viewportHeight: number,
+  maxHeight: number = Number.POSITIVE_INFINITY
+): number[] {
+  if (viewportHeight <= 0) return [0]
+
+  const coveredHeight = Math.min(scrollHeight, maxHeight)
+  if (coveredHeight <= viewportHeight) return [0]
+
+  const positions: number[] = []
+  for (let y = 0; y + viewportHeight < coveredHeight; y += viewportHeight) {
+    positions.push(y)
+  }
+  positions.push(coveredHeight - viewportHeight)
+  return positions
+}
+
+/**
+ * Capture the whole page of a tab as one stitched PNG data URL.
+ *
+ * Always puts the page back the way it found it - scroll position, and any
+ * fixed/sticky elements hidden after the first slice - even when a capture
+ * fails midway.
+ */
+export async function captureFullPage(tab: chrome.tabs.Tab): Promise<string> {
+  if (!tab.id) {
+    throw new Error('No active tab found')
+  }
+  const tabId = tab.id
+
+  const [prepared] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: preparePageForCapture,
+  })
+  const geometry = prepared?.result as PageGeometry | undefined
+  if (!geometry) {
+    throw new Error('Failed to measure the page')
+  }
+
+  const maxCssHeight = MAX_STITCHED_HEIGHT / geometry.devicePixelRatio
+  const positions = planScrollPositions(geometry.scrollHeight, geometry.viewportHeight, maxCssHeight)
+  const slices: CapturedSlice[] = []
+
+  try {
+    for (let i = 0; i < positions.length; i++) {
+      const [scrolled] = await chrome.scripting.executeScript({
+        target: { tabId },
+        func: scrollPageTo,
+        args: [positions[i]],
+      })
+      const scrollY = (scrolled?.result as number | undefined) ?? positions[i]
+
+      if (i > 0) {
+        await delay(CAPTURE_INTERVAL_MS)
+      }
+
+      const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+        format: 'png',
+        quality: 100,
+      })
+      slices.push({ dataUrl, scrollY })
+
+      // Headers and cookie bars would otherwise be repeated in every slice.
+      if (i === 0 && positions.length > 1) {
+        await chrome.scripting.executeScript({
+          target: { tabId },
+          func: hideFixedElements,
+        })
+      }
+    }
+  } finally {
+    await chrome.scripting.executeScript({
+      target: { tabId },
+      func: restorePage,
+      args: [geometry.originalScrollX, geometry.originalScrollY],
+    }).catch((error) => {
+      console.warn('[Full page] Failed to restore page after capture:', error)
+    })
+  }
+
+  const totalHeight = Math.min(geometry.scrollHeight, maxCssHeight)
+  return stitchSlices(slices, totalHeight, geometry.devicePixelRatio)
+}
+
+/**
+ * Draw the slices onto one canvas at their scroll offsets. Later slices
+ * overwrite the overlap with earlier ones, which is what we want for the
+ * bottom-aligned final slice.
+ */
+async function stitchSlices(
+  slices: CapturedSlice[],
+  totalCssHeight: number,
+  devicePixelRatio: number
+): Promise<string> {
+  if (slices.length === 1) {
+    return slices[0].dataUrl
+  }
+
+  const bitmaps = await Promise.all(slices.map((slice) => loadBitmap(slice.dataUrl)))
+
+  const width = bitmaps[0].width
+  const height = Math.min(Math.round(totalCssHeight * devicePixelRatio), MAX_STITCHED_HEIGHT)
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to create stitching canvas')
+  }
+
+  bitmaps.forEach((bitmap, i) => {
+    ctx.drawImage(bitmap, 0, Math.round(slices[i].scrollY * devicePixelRatio))
+    bitmap.close()
+  })
+
+  return canvasToDataUrl(canvas)
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+// ============================================================================
+// Injected page functions
+//
+// These run inside the captured tab via chrome.scripting.executeScript, so
+// they must be self-contained: no imports, no references to module scope.
+// ============================================================================
+
+function preparePageForCapture(): PageGeometry {
+  const root = document.documentElement
+  // Smooth scrolling would make scrollTo return before the page has moved.
+  root.dataset.popshotScrollBehavior = root.style.scrollBehavior
+  root.style.scrollBehavior = 'auto'
+
+  return {
+    scrollHeight: Math.max(root.scrollHeight, document.body?.scrollHeight ?? 0),
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+    devicePixelRatio: window.devicePixelRatio,
+    originalScrollX: window.scrollX,
+    originalScrollY: window.scrollY,
+  }
+}
+
+async function scrollPageTo(y: number): Promise<number> {
+  window.scrollTo(0, y)
+  // Two frames: one for the scroll, one for lazy content/scroll listeners
+  // to paint before the slice is captured.
+  await new Promise((resolve) => requestAnimationFrame(() => requestAnimationFrame(resolve)))
+  return window.scrollY
+}
+
+function hideFixedElements(): void {
+  for (const el of Array.from(document.querySelectorAll<HTMLElement>('body *'))) {
+    const position = getComputedStyle(el).position
+    if (position === 'fixed' || position === 'sticky') {
+      el.dataset.popshotVisibility = el.style.visibility
+      el.style.visibility = 'hidden'
+    }
+  }
+}
+
+function restorePage(scrollX: number, scrollY: number): void {
+  for (const el of Array.from(document.querySelectorAll<HTMLElement>('[data-popshot-visibility]'))) {
+    el.style.visibility = el.dataset.popshotVisibility ?? ''
+    delete el.dataset.popshotVisibility
+  }
+
+  const root = document.documentElement
+  window.scrollTo(scrollX, scrollY)
+  root.style.scrollBehavior = root.dataset.popshotScrollBehavior ?? ''
+  delete root.dataset.popshotScrollBehavior
+}
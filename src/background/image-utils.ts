@@ -0,0 +1,35 @@
+/**
+ * Image helpers for the service worker.
+ *
+ * The worker has no DOM, so image work goes through createImageBitmap and
+ * OffscreenCanvas, and results travel back as PNG data URLs - the format
+ * the image store and the annotate page expect.
+ */
+
+/**
+ * Decode a data URL (as returned by captureVisibleTab) into a bitmap
+ */
+export async function loadBitmap(dataUrl: string): Promise<ImageBitmap> {
+  const blob = await (await fetch(dataUrl)).blob()
+  return createImageBitmap(blob)
+}
+
+/**
+ * Encode an OffscreenCanvas as a PNG data URL
+ */
+export async function canvasToDataUrl(canvas: OffscreenCanvas): Promise<string> {
+  const blob = await canvas.convertToBlob({ type: 'image/png' })
+  return blobToDataUrl(blob)
+}
+
+/**
+ * Read a Blob as a data URL
+ */
+export function blobToDataUrl(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(blob)
+  })
+}
@@ -0,0 +1,65 @@
+/**
+ * Read the buffers the MAIN-world content scripts keep in the page: console
+ * output (content/console-buffer.ts), network requests
+ * (content/network-buffer.ts) and user-action breadcrumbs
+ * (content/breadcrumb-buffer.ts).
+ *
+ * The buffer keys are repeated here rather than imported: a value shared
+ * with the service worker would be split into its own chunk, and the content
+ * scripts would then need a module loader instead of running synchronously
+ * at document_start.
+ */
+
+import type { Breadcrumb, ConsoleEntry, NetworkRequest } from '../lib/metadata'
+
+const CONSOLE_BUFFER_KEY = 'popshot.consoleLog'
+const NETWORK_BUFFER_KEY = 'popshot.networkLog'
+const BREADCRUMB_BUFFER_KEY = 'popshot.breadcrumbs'
+
+/**
+ * The tab's buffered console output and uncaught errors, oldest first
+ */
+export function getConsoleLog(tabId: number): Promise<ConsoleEntry[]> {
+  return readPageBuffer<ConsoleEntry>(tabId, CONSOLE_BUFFER_KEY)
+}
+
+/**
+ * The tab's recent network requests, oldest first, exactly as the page
+ * recorded them - redact before storing
+ */
+export function getNetworkLog(tabId: number): Promise<NetworkRequest[]> {
+  return readPageBuffer<NetworkRequest>(tabId, NETWORK_BUFFER_KEY)
+}
+
+/**
+ * The user's recent actions in the tab, oldest first
+ */
+export function getBreadcrumbs(tabId: number): Promise<Breadcrumb[]> {
+  return readPageBuffer<Breadcrumb>(tabId, BREADCRUMB_BUFFER_KEY)
+}
+
+/**
+ * Copy a buffer out of the page. Empty when the content scripts aren't
+ * running there (restricted pages, tabs opened before the extension was
+ * installed).
+ */
+async function readPageBuffer<T>(tabId: number, key: string): Promise<T[]> {
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId },
+      world: 'MAIN',
+      func: readBuffer,
+      args: [key],
+    })
+    return (result?.result as T[] | null | undefined) ?? []
+  } catch {
+    return []
+  }
+}
+
+// Runs inside the page via chrome.scripting.executeScript, so it must be
+// self-contained
+function readBuffer(key: string): unknown[] | null {
+  const entries = (window as unknown as Record<symbol, unknown[] | undefined>)[Symbol.for(key)]
+  return Array.isArray(entries) ? entries.slice() : null
+}
@@ -0,0 +1,108 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { describeOperatingSystem, readPageEnvironment, toEnvironmentInfo, type RawEnvironment } from './page-environment'
+
+const MAC_UA = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+const WINDOWS_UA = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36'
+
+describe('describeOperatingSystem', () => {
+  it('uses the platform version hint for macOS', () => {
+    expect(describeOperatingSystem({ platform: 'macOS', platformVersion: '14.5.0', userAgent: MAC_UA })).toBe('macOS 14.5')
+  })
+
+  it('tells Windows 11 from Windows 10 by the platform version', () => {
+    expect(describeOperatingSystem({ platform: 'Windows', platformVersion: '15.0.0', userAgent: WINDOWS_UA })).toBe('Windows 11')
+    expect(describeOperatingSystem({ platform: 'Windows', platformVersion: '10.0.0', userAgent: WINDOWS_UA })).toBe('Windows 10')
+    expect(describeOperatingSystem({ platform: 'Windows', platformVersion: '0.3.0', userAgent: WINDOWS_UA })).toBe('Windows')
+  })
+
+  it('falls back to the platform name without a version', () => {
+    expect(describeOperatingSystem({ platform: 'Linux', userAgent: '' })).toBe('Linux')
+  })
+
+  it('falls back to the user agent without hints', () => {
+    expect(describeOperatingSystem({ userAgent: MAC_UA })).toBe('macOS 10.15.7')
+    expect(describeOperatingSystem({ userAgent: WINDOWS_UA })).toBe('Windows 10')
+    expect(describeOperatingSystem({ userAgent: 'Mozilla/5.0 (Linux; Android 14; Pixel 8)' })).toBe('Android 14')
+    expect(describeOperatingSystem({ userAgent: 'Mozilla/5.0 (X11; CrOS x86_64 15633.69.0)' })).toBe('ChromeOS')
+    expect(describeOperatingSystem({ userAgent: 'Something else' })).toBe('Unknown')
+  })
+})
+
+describe('toEnvironmentInfo', () => {
+  const raw: RawEnvironment = {
+    platform: 'macOS',
+    platformVersion: '14.5.0',
+    architecture: 'arm',
+    bitness: '64',
+    userAgent: MAC_UA,
+    screenWidth: 1728,
+    screenHeight: 1117,
+    language: 'en-US',
+    timezone: 'Europe/Berlin',
+    colorScheme: 'dark',
+    reducedMotion: false,
+    online: true,
+    connectionType: '4g',
+  }
+
+  it('combines the hints and the tab zoom', () => {
+    expect(toEnvironmentInfo(raw, 1.25)).toEqual({
+      os: 'macOS 14.5',
+      architecture: 'arm 64-bit',
+      screenWidth: 1728,
+      screenHeight: 1117,
+      zoom: 1.25,
+      language: 'en-US',
+      timezone: 'Europe/Berlin',
+      colorScheme: 'dark',
+      reducedMotion: false,
+      online: true,
+      connectionType: '4g',
+    })
+  })
+
+  it('leaves out what the browser did not report', () => {
+    const info = toEnvironmentInfo({ ...raw, architecture: undefined, bitness: undefined, connectionType: undefined })
+
+    expect(info).not.toHaveProperty('architecture')
+    expect(info).not.toHaveProperty('zoom')
+    expect(info).not.toHaveProperty('connectionType')
+  })
+})
+
+describe('readPageEnvironment', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('reads display preferences from media queries', async () => {
+    vi.stubGlobal('matchMedia', (query: string) => ({ matches: query.includes('dark') }))
+
+    const env = await readPageEnvironment()
+
+    expect(env.colorScheme).toBe('dark')
+    expect(env.reducedMotion).toBe(false)
+    expect(env.language).toBe(navigator.language)
+    expect(env.timezone).toBe(Intl.DateTimeFormat().resolvedOptions().timeZone)
+  })
+
+  it('uses userAgentData high-entropy hints when available', async () => {
+    Object.defineProperty(navigator, 'userAgentData', {
+      configurable: true,
+      value: {
+        platform: 'Windows',
+        getHighEntropyValues: async () => ({ platformVersion: '15.0.0', architecture: 'x86', bitness: '64' }),
+      },
+    })
+
+    try {
+      const env = await readPageEnvironment()
+
+      expect(env.platform).toBe('Windows')
+      expect(env.platformVersion).toBe('15.0.0')
+      expect(env.bitness).toBe('64')
+    } finally {
+      delete (navigator as { userAgentData?: unknown }).userAgentData
+    }
+  })
+})
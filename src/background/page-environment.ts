@@ -0,0 +1,159 @@
+/**
+ * Environment metadata.
+ *
+ * What the page's browser reports about the machine and user settings -
+ * operating system (from navigator.userAgentData high-entropy hints where
+ * available), screen, language, timezone, color scheme, reduced motion and
+ * connection - plus the tab's zoom level, which only the extension API knows.
+ */
+
+import type { EnvironmentInfo } from '../lib/metadata'
+
+/** What the injected reader returns, before the OS is put into words */
+export interface RawEnvironment {
+  /** userAgentData hints - absent outside Chromium or on insecure pages */
+  platform?: string
+  platformVersion?: string
+  architecture?: string
+  bitness?: string
+  model?: string
+  userAgent: string
+  screenWidth: number
+  screenHeight: number
+  language: string
+  timezone: string
+  colorScheme: 'light' | 'dark'
+  reducedMotion: boolean
+  online: boolean
+  connectionType?: string
+}
+
+/**
+ * Read the tab's environment. Resolves to undefined when the page can't be
+ * scripted.
+ */
+export async function collectEnvironment(tab: chrome.tabs.Tab): Promise<EnvironmentInfo | undefined> {
+  if (!tab.id) return undefined
+
+  let raw: RawEnvironment | undefined
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: readPageEnvironment,
+    })
+    raw = result?.result as RawEnvironment | undefined
+  } catch {
+    // Restricted page
+  }
+  if (!raw) return undefined
+
+  let zoom: number | undefined
+  try {
+    zoom = await chrome.tabs.getZoom(tab.id)
+  } catch {
+    // Tab closed
+  }
+
+  return toEnvironmentInfo(raw, zoom)
+}
+
+/**
+ * Combine the page's raw environment and the tab zoom into report metadata
+ */
+export function toEnvironmentInfo(raw: RawEnvironment, zoom?: number): EnvironmentInfo {
+  const bits = raw.bitness ? `${raw.bitness}-bit` : ''
+  const architecture = [raw.architecture, bits].filter(Boolean).join(' ')
+
+  return {
+    os: describeOperatingSystem(raw),
+    ...(architecture ? { architecture } : {}),
+    ...(raw.model ? { deviceModel: raw.model } : {}),
+    screenWidth: raw.screenWidth,
+    screenHeight: raw.screenHeight,
+    ...(zoom !== undefined ? { zoom } : {}),
+    language: raw.language,
+    timezone: raw.timezone,
+    colorScheme: raw.colorScheme,
+    reducedMotion: raw.reducedMotion,
+    online: raw.online,
+    ...(raw.connectionType ? { connectionType: raw.connectionType } : {}),
+  }
+}
+
+/**
+ * Name the operating system and version, e.g. "macOS 14.5" or "Windows 11".
+ * Prefers the userAgentData hints: the frozen user agent string reports
+ * every Windows 10+ as "Windows NT 10.0" and every macOS as 10.15.7.
+ */
+export function describeOperatingSystem(raw: Pick<RawEnvironment, 'platform' | 'platformVersion' | 'userAgent'>): string {
+  const { platform, platformVersion } = raw
+  if (platform) {
+    const version = platformVersion?.replace(/(\.0)+$/, '')
+    if (platform === 'Windows') {
+      // platformVersion is the Windows API contract version: 13+ is
+      // Windows 11, 1-10 is Windows 10, 0 is 7/8/8.1
+      const major = parseInt(platformVersion ?? '', 10)
+      if (major >= 13) return 'Windows 11'
+      if (major > 0) return 'Windows 10'
+      return 'Windows'
+    }
+    return version ? `${platform} ${version}` : platform
+  }
+
+  const ua = raw.userAgent
+  const windows = ua.match(/Windows NT ([\d.]+)/)
+  if (windows) return windows[1] === '10.0' ? 'Windows 10' : `Windows NT ${windows[1]}`
+  const android = ua.match(/Android ([\d.]+)/)
+  if (android) return `Android ${android[1]}`
+  const ios = ua.match(/(?:iPhone|iPad)[^)]* OS ([\d_]+)/)
+  if (ios) return `iOS ${ios[1].replace(/_/g, '.')}`
+  const mac = ua.match(/Mac OS X ([\d_]+)/)
+  if (mac) return `macOS ${mac[1].replace(/_/g, '.')}`
+  if (ua.includes('CrOS')) return 'ChromeOS'
+  if (ua.includes('Linux')) return 'Linux'
+  return 'Unknown'
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope. Exported for
+// tests.
+// ============================================================================
+
+export async function readPageEnvironment(): Promise<RawEnvironment> {
+  const matches = (query: string) =>
+    typeof window.matchMedia === 'function' && window.matchMedia(query).matches
+
+  type UserAgentData = {
+    platform?: string
+    getHighEntropyValues?: (hints: string[]) => Promise<Record<string, string | undefined>>
+  }
+  const uaData = (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData
+  let hints: Record<string, string | undefined> = {}
+  try {
+    hints = (await uaData?.getHighEntropyValues?.(['platformVersion', 'architecture', 'bitness', 'model'])) ?? {}
+  } catch {
+    // Hints refused
+  }
+
+  const connection = (navigator as Navigator & { connection?: { effectiveType?: string; type?: string } }).connection
+
+  return {
+    platform: uaData?.platform || undefined,
+    platformVersion: hints.platformVersion || undefined,
+    architecture: hints.architecture || undefined,
+    bitness: hints.bitness || undefined,
+    model: hints.model || undefined,
+    userAgent: navigator.userAgent,
+    screenWidth: window.screen.width,
+    screenHeight: window.screen.height,
+    language: navigator.language,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    colorScheme: matches('(prefers-color-scheme: dark)') ? 'dark' : 'light',
+    reducedMotion: matches('(prefers-reduced-motion: reduce)'),
+    online: navigator.onLine,
+    connectionType: connection?.effectiveType || connection?.type || undefined,
+  }
+}
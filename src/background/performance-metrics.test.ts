@@ -0,0 +1,83 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { readPerformanceMetrics } from './performance-metrics'
+
+type Entry = Record<string, unknown>
+
+/**
+ * Stand-in PerformanceObserver that replays the given entries per type
+ */
+function stubObserver(entriesByType: Record<string, Entry[]>) {
+  class FakeObserver {
+    static supportedEntryTypes = Object.keys(entriesByType)
+    constructor(private callback: (list: { getEntries: () => Entry[] }) => void) {}
+    observe({ type }: { type: string }) {
+      queueMicrotask(() => this.callback({ getEntries: () => entriesByType[type] ?? [] }))
+    }
+    takeRecords() {
+      return []
+    }
+    disconnect() {}
+  }
+  vi.stubGlobal('PerformanceObserver', FakeObserver)
+}
+
+describe('readPerformanceMetrics', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('reads navigation timing and paints', async () => {
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([
+      { responseStart: 310.4, domContentLoadedEventEnd: 1200, loadEventEnd: 2100.6 },
+    ] as unknown as PerformanceEntryList)
+    vi.spyOn(performance, 'getEntriesByName').mockReturnValue([{ startTime: 900 }] as unknown as PerformanceEntryList)
+    stubObserver({})
+
+    const metrics = await readPerformanceMetrics(0)
+
+    expect(metrics).toMatchObject({ ttfb: 310, domContentLoaded: 1200, load: 2101, fcp: 900 })
+  })
+
+  it('computes LCP, CLS session windows, INP and blocking time', async () => {
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([])
+    vi.spyOn(performance, 'getEntriesByName').mockReturnValue([])
+    stubObserver({
+      'largest-contentful-paint': [{ startTime: 1800 }, { startTime: 3200 }],
+      'layout-shift': [
+        { startTime: 1000, value: 0.05, hadRecentInput: false },
+        { startTime: 1500, value: 0.1, hadRecentInput: false },
+        { startTime: 1600, value: 0.5, hadRecentInput: true },
+        // New window after a gap over a second
+        { startTime: 4000, value: 0.12, hadRecentInput: false },
+      ],
+      event: [
+        { interactionId: 1, duration: 80 },
+        { interactionId: 1, duration: 120 },
+        { interactionId: 2, duration: 340 },
+        { interactionId: 0, duration: 900 },
+      ],
+      longtask: [{ duration: 120 }, { duration: 60 }],
+    })
+
+    const metrics = await readPerformanceMetrics(0)
+
+    expect(metrics.lcp).toBe(3200)
+    expect(metrics.cls).toBe(0.15)
+    expect(metrics.inp).toBe(340)
+    expect(metrics.longTaskCount).toBe(2)
+    expect(metrics.totalBlockingTime).toBe(80)
+  })
+
+  it('leaves out what the browser does not support', async () => {
+    vi.spyOn(performance, 'getEntriesByType').mockReturnValue([])
+    vi.spyOn(performance, 'getEntriesByName').mockReturnValue([])
+    stubObserver({})
+
+    const metrics = await readPerformanceMetrics(0)
+
+    expect(metrics).not.toHaveProperty('cls')
+    expect(metrics).not.toHaveProperty('longTaskCount')
+    expect(metrics).not.toHaveProperty('inp')
+  })
+})
@@ -0,0 +1,139 @@
+/**
+ * Performance metrics capture.
+ *
+ * Reads the tab's performance timeline at capture time: navigation timing,
+ * first and largest contentful paint, cumulative layout shift, interaction
+ * latency (INP), long tasks and JS heap size. The browser buffers these
+ * entries from page load, so observing with `buffered: true` at capture time
+ * sees the whole page lifetime without a content script.
+ */
+
+import type { PerformanceMetrics } from '../lib/metadata'
+
+/** How long the injected reader waits for buffered observer entries */
+const OBSERVER_WAIT_MS = 50
+
+/**
+ * Read the tab's performance metrics. Resolves to undefined when the page
+ * can't be scripted or reports nothing.
+ */
+export async function collectPerformanceMetrics(tab: chrome.tabs.Tab): Promise<PerformanceMetrics | undefined> {
+  if (!tab.id) return undefined
+
+  try {
+    const [result] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: readPerformanceMetrics,
+      args: [OBSERVER_WAIT_MS],
+    })
+    const metrics = result?.result as PerformanceMetrics | undefined
+    return metrics && Object.keys(metrics).length > 0 ? metrics : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope. Exported for
+// tests.
+// ============================================================================
+
+export async function readPerformanceMetrics(waitMs: number): Promise<PerformanceMetrics> {
+  const metrics: PerformanceMetrics = {}
+  const round = (value: number) => Math.round(value)
+
+  const [navigation] = performance.getEntriesByType('navigation') as PerformanceNavigationTiming[]
+  if (navigation) {
+    if (navigation.responseStart > 0) metrics.ttfb = round(navigation.responseStart)
+    if (navigation.domContentLoadedEventEnd > 0) metrics.domContentLoaded = round(navigation.domContentLoadedEventEnd)
+    if (navigation.loadEventEnd > 0) metrics.load = round(navigation.loadEventEnd)
+  }
+
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0]
+  if (fcp) metrics.fcp = round(fcp.startTime)
+
+  // Observed entry types, collected from the buffer
+  const supported: readonly string[] =
+    typeof PerformanceObserver === 'function' ? PerformanceObserver.supportedEntryTypes ?? [] : []
+  const observe = (type: string, options: Record<string, unknown> = {}) =>
+    new Promise<PerformanceEntry[]>((resolve) => {
+      const entries: PerformanceEntry[] = []
+      if (!supported.includes(type)) {
+        resolve(entries)
+        return
+      }
+      const observer = new PerformanceObserver((list) => entries.push(...list.getEntries()))
+      try {
+        observer.observe({ type, buffered: true, ...options })
+      } catch {
+        resolve(entries)
+        return
+      }
+      setTimeout(() => {
+        entries.push(...observer.takeRecords())
+        observer.disconnect()
+        resolve(entries)
+      }, waitMs)
+    })
+
+  const [lcpEntries, shifts, events, longTasks] = await Promise.all([
+    observe('largest-contentful-paint'),
+    observe('layout-shift'),
+    observe('event', { durationThreshold: 16 }),
+    observe('longtask'),
+  ])
+
+  const lcp = lcpEntries[lcpEntries.length - 1]
+  if (lcp) metrics.lcp = round(lcp.startTime)
+
+  // CLS: the largest session window of shifts (gaps under 1 s, at most 5 s
+  // long), ignoring shifts right after user input
+  type LayoutShift = PerformanceEntry & { value: number; hadRecentInput: boolean }
+  let cls = 0
+  let windowValue = 0
+  let windowStart = 0
+  let lastShift = 0
+  for (const shift of shifts as LayoutShift[]) {
+    if (shift.hadRecentInput) continue
+    if (windowValue > 0 && shift.startTime - lastShift < 1000 && shift.startTime - windowStart < 5000) {
+      windowValue += shift.value
+    } else {
+      windowValue = shift.value
+      windowStart = shift.startTime
+    }
+    lastShift = shift.startTime
+    cls = Math.max(cls, windowValue)
+  }
+  if (supported.includes('layout-shift')) {
+    metrics.cls = Math.round(cls * 1000) / 1000
+  }
+
+  // INP: the slowest interaction, or the 98th percentile once there are
+  // enough interactions for one outlier not to dominate
+  type EventTiming = PerformanceEntry & { interactionId?: number }
+  const interactions = new Map<number, number>()
+  for (const event of events as EventTiming[]) {
+    if (!event.interactionId) continue
+    interactions.set(event.interactionId, Math.max(interactions.get(event.interactionId) ?? 0, event.duration))
+  }
+  if (interactions.size > 0) {
+    const durations = [...interactions.values()].sort((a, b) => b - a)
+    metrics.inp = round(durations[Math.min(durations.length - 1, Math.floor(durations.length / 50))])
+  }
+
+  if (supported.includes('longtask')) {
+    metrics.longTaskCount = longTasks.length
+    metrics.totalBlockingTime = round(longTasks.reduce((total, task) => total + Math.max(0, task.duration - 50), 0))
+  }
+
+  const memory = (performance as Performance & { memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number } }).memory
+  if (memory?.usedJSHeapSize) {
+    metrics.jsHeapUsed = memory.usedJSHeapSize
+    metrics.jsHeapLimit = memory.jsHeapSizeLimit
+  }
+
+  return metrics
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { scaleRegion } from './region-capture'
+
+describe('scaleRegion', () => {
+  it('passes CSS pixels through unchanged at 1x', () => {
+    const rect = scaleRegion({ x: 10, y: 20, width: 300, height: 150, devicePixelRatio: 1 }, 1280, 800)
+
+    expect(rect).toEqual({ x: 10, y: 20, width: 300, height: 150 })
+  })
+
+  it('scales the region by devicePixelRatio', () => {
+    const rect = scaleRegion({ x: 10, y: 20, width: 300, height: 150, devicePixelRatio: 2 }, 2560, 1600)
+
+    expect(rect).toEqual({ x: 20, y: 40, width: 600, height: 300 })
+  })
+
+  it('rounds fractional ratios outwards so edge pixels are kept', () => {
+    const rect = scaleRegion({ x: 3, y: 3, width: 7, height: 7, devicePixelRatio: 1.25 }, 1000, 1000)
+
+    // 3 * 1.25 = 3.75 -> 3; (3 + 7) * 1.25 = 12.5 -> 13
+    expect(rect).toEqual({ x: 3, y: 3, width: 10, height: 10 })
+  })
+
+  it('clamps a region that crosses the image edge', () => {
+    const rect = scaleRegion({ x: 1200, y: 700, width: 200, height: 200, devicePixelRatio: 1 }, 1280, 800)
+
+    expect(rect).toEqual({ x: 1200, y: 700, width: 80, height: 100 })
+  })
+
+  it('treats a missing devicePixelRatio as 1x', () => {
+    const rect = scaleRegion({ x: 5, y: 5, width: 10, height: 10, devicePixelRatio: 0 }, 100, 100)
+
+    expect(rect).toEqual({ x: 5, y: 5, width: 10, height: 10 })
+  })
+})
@@ -0,0 +1,198 @@
+/**
+ * Region capture.
+ *
+ * Injects a full-viewport overlay into the tab, lets the user drag a
+ * rectangle over the live page, then captures the viewport and crops it to
+ * that rectangle. The overlay reports CSS pixels; captureVisibleTab returns
+ * device pixels, so the crop is scaled by the page's devicePixelRatio.
+ */
+
+import { loadBitmap, canvasToDataUrl } from './image-utils'
+
+/** A rectangle dragged on the page, in viewport CSS pixels */
+export interface SelectedRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+  devicePixelRatio: number
+}
+
+/** A crop rectangle in captured-image (device) pixels */
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Convert a selected region to integer device-pixel bounds within the
+ * captured image. Rounds outwards so a region never loses its edge pixels,
+ * and clamps to the image in case the overlay reported a rectangle that
+ * crosses the viewport edge.
+ */
+export function scaleRegion(
+  region: SelectedRegion,
+  imageWidth: number,
+  imageHeight: number
+): PixelRect {
+  const dpr = region.devicePixelRatio || 1
+  const left = Math.max(0, Math.floor(region.x * dpr))
+  const top = Math.max(0, Math.floor(region.y * dpr))
+  const right = Math.min(imageWidth, Math.ceil((region.x + region.width) * dpr))
+  const bottom = Math.min(imageHeight, Math.ceil((region.y + region.height) * dpr))
+
+  return {
+    x: left,
+    y: top,
+    width: Math.max(1, right - left),
+    height: Math.max(1, bottom - top),
+  }
+}
+
+/**
+ * Let the user pick a region of the tab and capture just that region.
+ * Resolves to null when the user cancels with Escape.
+ */
+export async function captureRegion(
+  tab: chrome.tabs.Tab
+): Promise<{ dataUrl: string; region: SelectedRegion } | null> {
+  if (!tab.id) {
+    throw new Error('No active tab found')
+  }
+
+  const [selected] = await chrome.scripting.executeScript({
+    target: { tabId: tab.id },
+    func: selectRegionInPage,
+  })
+  const region = selected?.result as SelectedRegion | null | undefined
+  if (!region) {
+    return null
+  }
+
+  const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
+    format: 'png',
+    quality: 100,
+  })
+
+  return { dataUrl: await cropToRegion(dataUrl, region), region }
+}
+
+/**
+ * Crop a captured viewport to a selected region
+ */
+export async function cropToRegion(dataUrl: string, region: SelectedRegion): Promise<string> {
+  const bitmap = await loadBitmap(dataUrl)
+  const rect = scaleRegion(region, bitmap.width, bitmap.height)
+
+  const canvas = new OffscreenCanvas(rect.width, rect.height)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to create crop canvas')
+  }
+
+  ctx.drawImage(bitmap, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height)
+  bitmap.close()
+
+  return canvasToDataUrl(canvas)
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope.
+// ============================================================================
+
+function selectRegionInPage(): Promise<SelectedRegion | null> {
+  const OVERLAY_ID = 'popshot-region-overlay'
+  // A second shortcut press while the overlay is up shouldn't stack overlays
+  if (document.getElementById(OVERLAY_ID)) {
+    return Promise.resolve(null)
+  }
+
+  return new Promise((resolve) => {
+    const overlay = document.createElement('div')
+    overlay.id = OVERLAY_ID
+    overlay.style.cssText = [
+      'position:fixed', 'inset:0', 'z-index:2147483647', 'cursor:crosshair',
+      'background:rgba(15,23,42,0.35)', 'user-select:none',
+    ].join(';')
+
+    // The huge spread shadow dims everything outside the selection
+    const selection = document.createElement('div')
+    selection.style.cssText = [
+      'position:fixed', 'display:none', 'pointer-events:none',
+      'border:2px solid #3b82f6', 'box-shadow:0 0 0 100vmax rgba(15,23,42,0.35)',
+    ].join(';')
+
+    const hint = document.createElement('div')
+    hint.textContent = 'Drag to select a region · Esc to cancel'
+    hint.style.cssText = [
+      'position:fixed', 'top:16px', 'left:50%', 'transform:translateX(-50%)',
+      'padding:6px 12px', 'border-radius:6px', 'background:#0f172a', 'color:#f1f5f9',
+      'font:13px -apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,sans-serif',
+      'pointer-events:none',
+    ].join(';')
+
+    overlay.append(selection, hint)
+
+    let start: { x: number; y: number } | null = null
+    let current = { x: 0, y: 0, width: 0, height: 0 }
+
+    const finish = (region: SelectedRegion | null) => {
+      overlay.remove()
+      document.removeEventListener('keydown', onKeyDown, true)
+      // Let the page repaint without the overlay before the capture happens
+      requestAnimationFrame(() => requestAnimationFrame(() => resolve(region)))
+    }
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        e.preventDefault()
+        e.stopPropagation()
+        finish(null)
+      }
+    }
+
+    overlay.addEventListener('mousedown', (e) => {
+      e.preventDefault()
+      start = { x: e.clientX, y: e.clientY }
+      current = { x: e.clientX, y: e.clientY, width: 0, height: 0 }
+      overlay.style.background = 'transparent'
+      hint.style.display = 'none'
+    })
+
+    overlay.addEventListener('mousemove', (e) => {
+      if (!start) return
+      current = {
+        x: Math.min(start.x, e.clientX),
+        y: Math.min(start.y, e.clientY),
+        width: Math.abs(e.clientX - start.x),
+        height: Math.abs(e.clientY - start.y),
+      }
+      selection.style.display = 'block'
+      selection.style.left = `${current.x}px`
+      selection.style.top = `${current.y}px`
+      selection.style.width = `${current.width}px`
+      selection.style.height = `${current.height}px`
+    })
+
+    overlay.addEventListener('mouseup', () => {
+      if (!start) return
+      start = null
+      // A click or tiny drag is almost always a mis-hit - let the user retry
+      if (current.width < 5 || current.height < 5) {
+        selection.style.display = 'none'
+        overlay.style.background = 'rgba(15,23,42,0.35)'
+        hint.style.display = 'block'
+        return
+      }
+      finish({ ...current, devicePixelRatio: window.devicePixelRatio })
+    })
+
+    document.addEventListener('keydown', onKeyDown, true)
+    document.documentElement.appendChild(overlay)
+  })
+}
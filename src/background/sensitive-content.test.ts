@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import {
+  captureBounds,
+  detectSensitiveContent,
+  scanForSensitiveContent,
+  MAX_SUGGESTED_REGIONS,
+  type ScannedPage,
+} from './sensitive-content'
+import { SENSITIVE_PATTERNS, type SensitiveCandidate } from '../lib/sensitive-content'
+import { chromeMock, resetAllMocks } from '../test/chrome-mock'
+
+const rect = (left: number, top: number, width: number, height: number) =>
+  ({ left, top, width, height, right: left + width, bottom: top + height, x: left, y: top }) as DOMRect
+
+describe('scanForSensitiveContent', () => {
+  const originalRangeRect = Range.prototype.getBoundingClientRect
+
+  beforeEach(() => {
+    document.body.innerHTML = ''
+    // jsdom doesn't lay out text
+    Range.prototype.getBoundingClientRect = () => rect(10, 20, 120, 16)
+  })
+
+  afterEach(() => {
+    Range.prototype.getBoundingClientRect = originalRangeRect
+  })
+
+  it('measures each text match', () => {
+    document.body.innerHTML = '<p>Signed in as jane@example.com</p><script>const email = "x@example.com"</script>'
+
+    const { candidates } = scanForSensitiveContent(SENSITIVE_PATTERNS)
+
+    expect(candidates).toEqual([{ kind: 'email', text: 'jane@example.com', x: 10, y: 20, width: 120, height: 16 }])
+  })
+
+  it('flags filled-in password and card fields by their type', () => {
+    document.body.innerHTML = `
+      <input id="password" type="password">
+      <input id="card" autocomplete="cc-number">
+      <input id="empty" type="password">`
+    for (const id of ['password', 'card']) {
+      const field = document.getElementById(id) as HTMLInputElement
+      field.value = 'secret'
+      field.getBoundingClientRect = () => rect(0, 0, 200, 30)
+    }
+
+    const { candidates } = scanForSensitiveContent(SENSITIVE_PATTERNS)
+
+    expect(candidates.map((candidate) => candidate.kind)).toEqual(['password', 'creditCard'])
+    expect(candidates[0]).not.toHaveProperty('text')
+  })
+
+  it('matches other fields by their value', () => {
+    document.body.innerHTML = '<input id="email" type="email"><input id="name">'
+    const email = document.getElementById('email') as HTMLInputElement
+    email.value = 'jane@example.com'
+    email.getBoundingClientRect = () => rect(0, 0, 200, 30)
+    ;(document.getElementById('name') as HTMLInputElement).value = 'Jane'
+
+    const { candidates } = scanForSensitiveContent(SENSITIVE_PATTERNS)
+
+    expect(candidates).toEqual([{ kind: 'email', text: 'jane@example.com', x: 0, y: 0, width: 200, height: 30 }])
+  })
+
+})
+
+describe('detectSensitiveContent', () => {
+  const tab = { id: 1 } as chrome.tabs.Tab
+  const scanned = (candidates: SensitiveCandidate[]): ScannedPage => ({
+    candidates,
+    scrollX: 0,
+    scrollY: 0,
+    viewportWidth: 1280,
+    viewportHeight: 720,
+    devicePixelRatio: 1,
+  })
+  const emailAt = (x: number, y: number): SensitiveCandidate =>
+    ({ kind: 'email', text: 'jane@example.com', x, y, width: 100, height: 16 })
+
+  beforeEach(() => {
+    resetAllMocks()
+  })
+
+  it('keeps real matches that follow many false positives and off-screen ones', async () => {
+    const candidates = [
+      ...Array.from({ length: MAX_SUGGESTED_REGIONS }, (_, i): SensitiveCandidate =>
+        ({ kind: 'creditCard', text: '1234 5678 9012 3456', x: 0, y: i * 20, width: 100, height: 16 })),
+      ...Array.from({ length: MAX_SUGGESTED_REGIONS }, (_, i) => emailAt(0, 2000 + i * 20)),
+      emailAt(200, 100),
+    ]
+    chromeMock.scripting.executeScript.mockResolvedValueOnce([{ result: scanned(candidates) }])
+
+    const regions = await detectSensitiveContent(tab, { kind: 'viewport' })
+
+    expect(regions).toEqual([{ kind: 'email', x: 198, y: 98, width: 104, height: 20 }])
+  })
+
+  it('suggests at most the region limit', async () => {
+    const candidates = Array.from({ length: MAX_SUGGESTED_REGIONS + 10 }, (_, i) => emailAt(0, i * 20))
+    chromeMock.scripting.executeScript.mockResolvedValueOnce([{ result: scanned(candidates) }])
+
+    const regions = await detectSensitiveContent(tab, { kind: 'page' })
+
+    expect(regions).toHaveLength(MAX_SUGGESTED_REGIONS)
+  })
+})
+
+describe('captureBounds', () => {
+  const page: ScannedPage = {
+    candidates: [],
+    scrollX: 0,
+    scrollY: 400,
+    viewportWidth: 1280,
+    viewportHeight: 720,
+    devicePixelRatio: 2,
+  }
+
+  it('is the viewport or region in screenshot pixels', () => {
+    expect(captureBounds(page, { kind: 'viewport' })).toEqual({ width: 2560, height: 1440 })
+    expect(
+      captureBounds(page, { kind: 'region', region: { x: 10, y: 10, width: 300, height: 200, devicePixelRatio: 2 } })
+    ).toEqual({ width: 600, height: 400 })
+  })
+
+  it('is unbounded for full-page captures', () => {
+    expect(captureBounds(page, { kind: 'page' })).toBeUndefined()
+  })
+})
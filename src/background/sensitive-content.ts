@@ -0,0 +1,137 @@
+/**
+ * Sensitive content detection at capture time.
+ *
+ * Scans the captured tab's text and form fields (see lib/sensitive-content.ts
+ * for the patterns and checks) and maps what it finds into the screenshot, so
+ * the annotate page can propose redaction zones over it. Matched text never
+ * leaves this module - only the kind and position of each match are stored.
+ */
+
+import { SENSITIVE_PATTERNS, toSensitiveRegions, type SensitiveCandidate, type SensitivePattern, type SensitiveRegion } from '../lib/sensitive-content'
+import { snapshotOrigin, type CaptureArea } from './dom-snapshot'
+
+/** Suggest at most this many redactions - beyond that the page is better redacted by hand */
+export const MAX_SUGGESTED_REGIONS = 200
+
+/** What the injected scanner returns */
+export interface ScannedPage {
+  candidates: SensitiveCandidate[]
+  scrollX: number
+  scrollY: number
+  viewportWidth: number
+  viewportHeight: number
+  devicePixelRatio: number
+}
+
+/**
+ * Find likely sensitive content in the part of the tab the screenshot shows.
+ * Resolves to an empty list when the page can't be scripted.
+ */
+export async function detectSensitiveContent(tab: chrome.tabs.Tab, area: CaptureArea): Promise<SensitiveRegion[]> {
+  if (!tab.id) return []
+
+  try {
+    const [scanned] = await chrome.scripting.executeScript({
+      target: { tabId: tab.id },
+      func: scanForSensitiveContent,
+      args: [SENSITIVE_PATTERNS],
+    })
+    const page = scanned?.result as ScannedPage | undefined
+    if (!page) return []
+    // Capped only once false positives and off-screen matches are dropped,
+    // so they can't crowd out what the screenshot shows
+    return toSensitiveRegions(page.candidates, snapshotOrigin(page, area), captureBounds(page, area))
+      .slice(0, MAX_SUGGESTED_REGIONS)
+  } catch (error) {
+    console.warn('Sensitive content detection failed:', error)
+    return []
+  }
+}
+
+/**
+ * The screenshot's size in pixels, or undefined for full-page captures
+ * (which show everything the scanner can find)
+ */
+export function captureBounds(page: ScannedPage, area: CaptureArea): { width: number; height: number } | undefined {
+  const scale = page.devicePixelRatio || 1
+  switch (area.kind) {
+    case 'page':
+      return undefined
+    case 'region':
+      return { width: area.region.width * scale, height: area.region.height * scale }
+    case 'viewport':
+      return { width: page.viewportWidth * scale, height: page.viewportHeight * scale }
+  }
+}
+
+// ============================================================================
+// Injected page function
+//
+// Runs inside the captured tab via chrome.scripting.executeScript, so it must
+// be self-contained: no imports, no references to module scope. Exported for
+// tests.
+// ============================================================================
+
+export function scanForSensitiveContent(patterns: SensitivePattern[]): ScannedPage {
+  const candidates: SensitiveCandidate[] = []
+  const toPage = (rect: DOMRect) => ({
+    x: rect.left + window.scrollX,
+    y: rect.top + window.scrollY,
+    width: rect.width,
+    height: rect.height,
+  })
+  const add = (candidate: SensitiveCandidate) => {
+    if (candidate.width > 0 && candidate.height > 0) {
+      candidates.push(candidate)
+    }
+  }
+
+  // Text on the page, each match measured on its own
+  const skipped = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'TEXTAREA'])
+  const walker = document.createTreeWalker(document.body ?? document.documentElement, NodeFilter.SHOW_TEXT, {
+    acceptNode: (node) => {
+      const parent = node.parentElement
+      if (!parent || skipped.has(parent.tagName) || !node.textContent?.trim()) return NodeFilter.FILTER_REJECT
+      return NodeFilter.FILTER_ACCEPT
+    },
+  })
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const text = node.textContent ?? ''
+    for (const pattern of patterns) {
+      for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+        const range = document.createRange()
+        range.setStart(node, match.index ?? 0)
+        range.setEnd(node, (match.index ?? 0) + match[0].length)
+        add({ kind: pattern.kind, text: match[0], ...toPage(range.getBoundingClientRect()) })
+      }
+    }
+  }
+
+  // Form fields: password and card fields whenever they're filled in, other
+  // fields when their value matches a pattern
+  const cardField = /card.?num|cc.?num|cvv|cvc|csc/i
+  for (const field of document.querySelectorAll<HTMLInputElement | HTMLTextAreaElement>('input, textarea')) {
+    if (!field.value) continue
+    const rect = toPage(field.getBoundingClientRect())
+    const autocomplete = field.getAttribute('autocomplete') ?? ''
+    if (field.type === 'password') {
+      add({ kind: 'password', ...rect })
+    } else if (autocomplete.startsWith('cc-') || cardField.test(field.name) || cardField.test(field.id)) {
+      add({ kind: 'creditCard', ...rect })
+    } else if (field.type !== 'hidden') {
+      for (const pattern of patterns) {
+        const match = field.value.match(new RegExp(pattern.source, pattern.flags.replace('g', '')))
+        if (match) add({ kind: pattern.kind, text: match[0], ...rect })
+      }
+    }
+  }
+
+  return {
+    candidates,
+    scrollX: window.scrollX,
+    scrollY: window.scrollY,
+    viewportWidth: window.innerWidth,
+    viewportHeight: window.innerHeight,
+    devicePixelRatio: window.devicePixelRatio,
+  }
+}
@@ -6,6 +6,24 @@
 import { parseApiErrorMessage } from './api-error'
 import { parseOAuthErrorCode, type OAuthErrorCode } from './oauth-error'
 import { resolveOAuthApp } from '../lib/basecamp-oauth-app'
+import { captureFullPage } from './full-page-capture'
+import { captureRegion } from './region-capture'
+import { captureElement } from './element-capture'
+import { captureDomSnapshot, type CaptureArea } from './dom-snapshot'
+import { collectEnvironment } from './page-environment'
+import { detectSensitiveContent } from './sensitive-content'
+import { collectCustomFields } from './custom-metadata'
+import { collectPerformanceMetrics } from './performance-metrics'
+import { CAPTURE_DELAYS, startCountdown } from './delayed-capture'
+import { getActiveRecording, startTabRecording, stopTabRecording, finishTabRecording } from './tab-recording'
+import { getBreadcrumbs, getConsoleLog, getNetworkLog } from './page-buffers'
+import { pruneStoredCaptures } from './stored-captures'
+import type { PageMetadata } from '../lib/metadata'
+import type { SensitiveRegion } from '../lib/sensitive-content'
+import { getRedactionSettings } from '../lib/storage'
+import { saveImage } from '../lib/image-store'
+import { redactNetworkRequest } from '../lib/network'
+import { describeRedactions, redactMetadata } from '../lib/redaction'
 
 const FIZZY_API_BASE = 'https://app.fizzy.do'
 const BASECAMP_API_BASE = 'https://3.basecampapi.com'
@@ -16,9 +34,13 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   console.log('[Service Worker] Received message:', message.action)
   
   if (message.action === 'captureScreenshot') {
-    captureScreenshot()
+    captureScreenshot(message.mode)
       .then((dataUrl) => {
-        sendResponse({ success: true, dataUrl })
+        if (dataUrl) {
+          sendResponse({ success: true, dataUrl })
+        } else {
+          sendResponse({ success: false, error: 'Capture cancelled' })
+        }
       })
       .catch((error) => {
         console.error('Screenshot capture failed:', error)
@@ -87,6 +109,24 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
     return true
   }
 
+  // The offscreen recorder saved a finished recording
+  if (message.action === 'recordingFinished') {
+    openRecordingReview(message.recordingId)
+    return false
+  }
+
+  if (message.action === 'recordingFailed') {
+    finishTabRecording().then(() => {
+      chrome.notifications.create({
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+        title: 'Recording Failed',
+        message: message.error || 'Failed to record the tab',
+      })
+    })
+    return false
+  }
+
   // Show success notification and save to history
   if (message.action === 'showSuccessNotification') {
     showSuccessNotification(message.cardUrl, message.title, message.integration)
@@ -151,10 +191,27 @@ chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   }
 })
 
+/**
+ * How a capture grabs the tab: just the viewport, the whole scrollable page,
+ * a region the user drags out on the page, or one picked DOM element
+ */
+type CaptureMode = 'visible' | 'fullPage' | 'region' | 'element'
+
+/**
+ * A captured image plus any metadata only the capture itself knows about
+ * (e.g. which element was picked)
+ */
+interface CapturedImage {
+  dataUrl: string
+  metadata?: Partial<PageMetadata>
+  /** The part of the page the image shows, for placing it in the DOM snapshot */
+  area: CaptureArea
+}
+
 /**
  * Capture screenshot of the currently active tab
  */
-async function captureScreenshot(): Promise<string> {
+async function captureScreenshot(mode: CaptureMode = 'visible'): Promise<string | null> {
   const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
   
   if (!tab?.id) {
@@ -162,17 +219,48 @@ async function captureScreenshot(): Promise<string> {
   }
 
   // Check if we can capture this tab (some pages like chrome:// are restricted)
-  if (tab.url?.startsWith('chrome://') || tab.url?.startsWith('chrome-extension://')) {
+  if (isRestrictedUrl(tab.url)) {
     throw new Error('Cannot capture screenshots of browser internal pages')
   }
 
-  // Capture the visible tab
+  const captured = await captureTabImage(tab, mode)
+  return captured?.dataUrl ?? null
+}
+
+/**
+ * Browser-internal pages can be neither captured nor scripted
+ */
+function isRestrictedUrl(url?: string): boolean {
+  return !!url && (url.startsWith('chrome://') || url.startsWith('chrome-extension://'))
+}
+
+/**
+ * Grab the tab's pixels for the given capture mode. Resolves to null when
+ * the user backs out of an interactive mode (e.g. Escape during region select).
+ * Any capture replaces a delayed capture that's still counting down.
+ */
+async function captureTabImage(tab: chrome.tabs.Tab, mode: CaptureMode): Promise<CapturedImage | null> {
+  cancelPendingCountdown?.()
+
+  if (mode === 'fullPage') {
+    return { dataUrl: await captureFullPage(tab), area: { kind: 'page' } }
+  }
+  if (mode === 'region') {
+    const selected = await captureRegion(tab)
+    return selected ? { dataUrl: selected.dataUrl, area: { kind: 'region', region: selected.region } } : null
+  }
+  if (mode === 'element') {
+    const picked = await captureElement(tab)
+    return picked
+      ? { dataUrl: picked.dataUrl, metadata: { element: picked.element }, area: { kind: 'region', region: picked.region } }
+      : null
+  }
+
   const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId, {
     format: 'png',
     quality: 100,
   })
-
-  return dataUrl
+  return { dataUrl, area: { kind: 'viewport' } }
 }
 
 /**
@@ -390,81 +478,124 @@ chrome.notifications.onClicked.addListener((notificationId) => {
 // Extension Icon Click Handler
 // ============================================================================
 
-// Handle extension icon click - immediately capture screenshot
+// Handle extension icon click - immediately capture screenshot, or stop the
+// tab recording if one is running
 chrome.action.onClicked.addListener(async (tab) => {
-  try {
-    // Check if any integration is configured
-    const { apiKey, integrationCredentials } = await chrome.storage.local.get(['apiKey', 'integrationCredentials'])
-    const hasFizzy = apiKey || integrationCredentials?.fizzy?.apiKey
-    const hasBasecamp = integrationCredentials?.basecamp?.accessToken
-    
-    if (!hasFizzy && !hasBasecamp) {
-      // Open settings page if no integrations configured
-      chrome.runtime.openOptionsPage()
-      return
-    }
+  if (await getActiveRecording()) {
+    stopTabRecording().catch((error) => {
+      console.error('Failed to stop recording:', error)
+    })
+    return
+  }
+  startCapture(tab, 'visible')
+})
 
-    // Check if we can capture this tab
-    if (tab.url?.startsWith('chrome://') || tab.url?.startsWith('chrome-extension://')) {
-      chrome.notifications.create({
-        type: 'basic',
-        iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
-        title: 'Cannot Capture',
-        message: 'Screenshots cannot be taken on browser internal pages.',
-      })
-      return
-    }
+// Cancels the running delayed-capture countdown, if any
+let cancelPendingCountdown: (() => void) | null = null
 
-    // Capture screenshot
-    const dataUrl = await chrome.tabs.captureVisibleTab(tab.windowId!, {
-      format: 'png',
-      quality: 100,
-    })
+/**
+ * Capture the tab after a countdown shown as a badge on the action icon, so
+ * the user can re-open the menu/tooltip/hover state the click just closed.
+ * Starting a new countdown, another capture or a recording cancels any one
+ * already running.
+ */
+function startDelayedCapture(tab: chrome.tabs.Tab, seconds: number): void {
+  if (!tab.id) return
+  const tabId = tab.id
 
-    // Get viewport dimensions from the tab
-    let dimensions = { 
-      viewportWidth: 0, 
-      viewportHeight: 0,
-      devicePixelRatio: 1,
-    }
-    if (tab.id) {
-      try {
-        const results = await chrome.scripting.executeScript({
-          target: { tabId: tab.id },
-          func: () => ({ 
-            viewportWidth: window.innerWidth, 
-            viewportHeight: window.innerHeight,
-            devicePixelRatio: window.devicePixelRatio,
-          }),
+  cancelPendingCountdown?.()
+
+  chrome.action.setBadgeBackgroundColor({ color: '#ef4444', tabId })
+  const cancel = startCountdown(
+    seconds,
+    (remaining) => {
+      chrome.action.setBadgeText({ text: String(remaining), tabId })
+    },
+    async () => {
+      cancelPendingCountdown = null
+      await chrome.action.setBadgeText({ text: '', tabId })
+
+      // captureVisibleTab grabs whatever tab is frontmost, and activeTab only
+      // covers the tab the user invoked PopShot on - so only capture if the
+      // user is still looking at it.
+      const current = await chrome.tabs.get(tabId).catch(() => undefined)
+      if (!current?.active) {
+        chrome.notifications.create({
+          type: 'basic',
+          iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+          title: 'Delayed Capture Cancelled',
+          message: 'Switch back to the tab you started the timer on and try again.',
         })
-        if (results?.[0]?.result) {
-          dimensions = results[0].result
-        }
-      } catch {
-        // Ignore dimension errors
+        return
       }
+
+      startCapture(current, 'visible')
     }
+  )
 
-    // Store session data and open annotation page
-    await chrome.storage.session.set({
-      annotationSession: {
-        imageDataUrl: dataUrl,
-        metadata: {
-          url: tab.url || 'Unknown',
-          title: tab.title || 'Unknown',
-          browser: 'Chrome',
-          browserVersion: navigator.userAgent.match(/Chrome\/([\d.]+)/)?.[1] || 'Unknown',
-          viewportWidth: dimensions.viewportWidth,
-          viewportHeight: dimensions.viewportHeight,
-          devicePixelRatio: dimensions.devicePixelRatio,
-        },
-      }
+  cancelPendingCountdown = () => {
+    cancel()
+    cancelPendingCountdown = null
+    chrome.action.setBadgeText({ text: '', tabId })
+  }
+}
+
+// Keyboard shortcuts beyond _execute_action (see commands in manifest.config.ts)
+chrome.commands.onCommand.addListener((command, tab) => {
+  if (command === 'capture-region' && tab) {
+    startCapture(tab, 'region')
+  }
+})
+
+/**
+ * Check a tab can be captured from a user gesture. Opens settings when no
+ * integration is configured yet, and explains restricted pages with a
+ * notification.
+ */
+async function canCaptureTab(tab: chrome.tabs.Tab): Promise<boolean> {
+  // Check if any integration is configured
+  const { apiKey, integrationCredentials } = await chrome.storage.local.get(['apiKey', 'integrationCredentials'])
+  const hasFizzy = apiKey || integrationCredentials?.fizzy?.apiKey
+  const hasBasecamp = integrationCredentials?.basecamp?.accessToken
+  
+  if (!hasFizzy && !hasBasecamp) {
+    // Open settings page if no integrations configured
+    chrome.runtime.openOptionsPage()
+    return false
+  }
+
+  // Check if we can capture this tab
+  if (isRestrictedUrl(tab.url)) {
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+      title: 'Cannot Capture',
+      message: 'Screenshots cannot be taken on browser internal pages.',
     })
+    return false
+  }
 
-    // Open annotation page
-    const annotateUrl = chrome.runtime.getURL('src/annotate/index.html')
-    await chrome.tabs.create({ url: annotateUrl })
+  return true
+}
+
+/**
+ * Run a capture from a user gesture (icon click, context menu) through to the
+ * annotation page. Failures surface as notifications since there is no UI
+ * open to show them in.
+ */
+async function startCapture(tab: chrome.tabs.Tab, mode: CaptureMode): Promise<void> {
+  try {
+    if (!(await canCaptureTab(tab))) {
+      return
+    }
 
+    // Capture screenshot
+    const captured = await captureTabImage(tab, mode)
+    if (!captured) {
+      return
+    }
+
+    await openAnnotationSession(tab, captured)
   } catch (error) {
     console.error('Screenshot capture failed:', error)
     chrome.notifications.create({
@@ -474,6 +605,185 @@ chrome.action.onClicked.addListener(async (tab) => {
       message: error instanceof Error ? error.message : 'Failed to capture screenshot',
     })
   }
+}
+
+/**
+ * Start recording the tab from a user gesture. Clicking the icon again stops
+ * the recording and opens the review page.
+ */
+async function startRecording(tab: chrome.tabs.Tab): Promise<void> {
+  try {
+    if (!(await canCaptureTab(tab))) {
+      return
+    }
+    cancelPendingCountdown?.()
+
+    // Metadata describes the page the recording started on
+    await startTabRecording(tab, await collectPageMetadata(tab))
+  } catch (error) {
+    console.error('Tab recording failed:', error)
+    chrome.notifications.create({
+      type: 'basic',
+      iconUrl: chrome.runtime.getURL('public/icons/icon-128.png'),
+      title: 'Recording Failed',
+      message: error instanceof Error ? error.message : 'Failed to record the tab',
+    })
+  }
+}
+
+/**
+ * Hand a finished recording to the review page, where it is trimmed and a
+ * poster frame becomes the report's screenshot
+ */
+async function openRecordingReview(recordingId: string): Promise<void> {
+  const recording = await finishTabRecording()
+  if (!recording) {
+    return
+  }
+
+  await chrome.storage.session.set({
+    recordingReview: {
+      recordingId,
+      metadata: recording.metadata,
+    }
+  })
+
+  const reviewUrl = chrome.runtime.getURL('src/review/index.html')
+  await chrome.tabs.create({ url: reviewUrl })
+}
+
+/**
+ * Describe the tab being captured: URL, title, browser, viewport, and recent
+ * console output, network requests and user actions. Credentials and
+ * whatever the redaction rules match are removed here, before any of it is
+ * stored.
+ */
+async function collectPageMetadata(
+  tab: chrome.tabs.Tab,
+  extra?: Partial<PageMetadata>
+): Promise<PageMetadata> {
+  // Get viewport dimensions from the tab
+  let dimensions = { 
+    viewportWidth: 0, 
+    viewportHeight: 0,
+    devicePixelRatio: 1,
+  }
+  if (tab.id) {
+    try {
+      const results = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: () => ({ 
+          viewportWidth: window.innerWidth, 
+          viewportHeight: window.innerHeight,
+          devicePixelRatio: window.devicePixelRatio,
+        }),
+      })
+      if (results?.[0]?.result) {
+        dimensions = results[0].result
+      }
+    } catch {
+      // Ignore dimension errors
+    }
+  }
+
+  const environment = await collectEnvironment(tab)
+  const customFields = await collectCustomFields(tab)
+  const performance = await collectPerformanceMetrics(tab)
+  const consoleLogs = tab.id ? await getConsoleLog(tab.id) : []
+  const networkRequests = (tab.id ? await getNetworkLog(tab.id) : []).map(redactNetworkRequest)
+  const breadcrumbs = tab.id ? await getBreadcrumbs(tab.id) : []
+
+  const metadata: PageMetadata = {
+    url: tab.url || 'Unknown',
+    title: tab.title || 'Unknown',
+    browser: 'Chrome',
+    browserVersion: navigator.userAgent.match(/Chrome\/([\d.]+)/)?.[1] || 'Unknown',
+    viewportWidth: dimensions.viewportWidth,
+    viewportHeight: dimensions.viewportHeight,
+    devicePixelRatio: dimensions.devicePixelRatio,
+    ...(environment ? { environment } : {}),
+    ...(customFields.length > 0 ? { customFields } : {}),
+    ...(performance ? { performance } : {}),
+    ...(consoleLogs.length > 0 ? { consoleLogs } : {}),
+    ...(networkRequests.length > 0 ? { networkRequests } : {}),
+    ...(breadcrumbs.length > 0 ? { breadcrumbs } : {}),
+    ...extra,
+  }
+
+  const redacted = redactMetadata(metadata, await getRedactionSettings())
+  const redactedParts = describeRedactions(metadata, redacted)
+  return redactedParts.length > 0 ? { ...redacted, redactedParts } : redacted
+}
+
+/**
+ * Store a captured image with the tab's metadata and open the annotation page.
+ * While an annotation page is waiting for another screenshot (its "+" in the
+ * filmstrip), the capture is handed to that page instead.
+ */
+async function openAnnotationSession(tab: chrome.tabs.Tab, captured: CapturedImage): Promise<void> {
+  const metadata = await collectPageMetadata(tab, captured.metadata)
+  const snapshotId = await captureDomSnapshot(tab, captured.area)
+  const sensitiveRegions = await detectSensitiveContent(tab, captured.area)
+
+  // Only the image's id goes into session storage, which a full-page
+  // capture would overflow
+  const imageId = await saveImage(captured.dataUrl)
+
+  const capture = {
+    imageId,
+    metadata,
+    ...(snapshotId ? { snapshotId } : {}),
+    ...(sensitiveRegions.length > 0 ? { sensitiveRegions } : {}),
+  }
+
+  if (await addToWaitingAnnotationPage(capture)) {
+    return
+  }
+
+  // Store session data and open annotation page
+  await chrome.storage.session.set({ annotationSession: capture })
+
+  // Open annotation page
+  const annotateUrl = chrome.runtime.getURL('src/annotate/index.html')
+  await chrome.tabs.create({ url: annotateUrl })
+}
+
+/**
+ * Hand a capture to the annotation page waiting for one, and bring that page
+ * back to the front. Returns false when no page is waiting (or it was closed).
+ */
+async function addToWaitingAnnotationPage(
+  capture: { imageId: string; metadata: PageMetadata; snapshotId?: string; sensitiveRegions?: SensitiveRegion[] }
+): Promise<boolean> {
+  const { addCaptureTarget } = await chrome.storage.session.get('addCaptureTarget')
+  if (!addCaptureTarget) return false
+  await chrome.storage.session.remove('addCaptureTarget')
+
+  const { tabId } = addCaptureTarget as { tabId: number }
+  const annotateTab = await chrome.tabs.get(tabId).catch(() => null)
+  if (!annotateTab) return false
+
+  const key = `addedCaptures:${tabId}`
+  const stored = await chrome.storage.session.get(key)
+  const pending = (stored[key] as unknown[] | undefined) ?? []
+  await chrome.storage.session.set({ [key]: [...pending, capture] })
+
+  await chrome.tabs.update(tabId, { active: true })
+  await chrome.windows.update(annotateTab.windowId, { focused: true })
+  return true
+}
+
+// ============================================================================
+// Stored Capture Cleanup
+// ============================================================================
+
+// Drop screenshots, snapshots and recordings abandoned by closed pages
+chrome.runtime.onStartup.addListener(() => {
+  pruneStoredCaptures()
+})
+
+chrome.runtime.onInstalled.addListener(() => {
+  pruneStoredCaptures()
 })
 
 // ============================================================================
@@ -484,6 +794,51 @@ chrome.action.onClicked.addListener(async (tab) => {
 chrome.runtime.onInstalled.addListener(() => {
   // Remove any existing menu items first
   chrome.contextMenus.removeAll(() => {
+    // Capture modes beyond the plain icon click live in one submenu: Chrome
+    // caps top-level action menu items at ACTION_MENU_TOP_LEVEL_LIMIT (6).
+    chrome.contextMenus.create({
+      id: 'popshot-capture',
+      title: 'Capture',
+      contexts: ['action'],
+    })
+    chrome.contextMenus.create({
+      id: 'popshot-capture-full-page',
+      parentId: 'popshot-capture',
+      title: 'Full Page',
+      contexts: ['action'],
+    })
+    chrome.contextMenus.create({
+      id: 'popshot-capture-region',
+      parentId: 'popshot-capture',
+      title: 'Select Region (Alt+Shift+R)',
+      contexts: ['action'],
+    })
+    chrome.contextMenus.create({
+      id: 'popshot-capture-element',
+      parentId: 'popshot-capture',
+      title: 'Pick Element',
+      contexts: ['action'],
+    })
+    chrome.contextMenus.create({
+      id: 'popshot-capture-record',
+      parentId: 'popshot-capture',
+      title: 'Record Tab',
+      contexts: ['action'],
+    })
+    chrome.contextMenus.create({
+      id: 'popshot-capture-delayed',
+      parentId: 'popshot-capture',
+      title: 'Delayed',
+      contexts: ['action'],
+    })
+    for (const seconds of CAPTURE_DELAYS) {
+      chrome.contextMenus.create({
+        id: `popshot-capture-delay-${seconds}`,
+        parentId: 'popshot-capture-delayed',
+        title: `In ${seconds} seconds`,
+        contexts: ['action'],
+      })
+    }
     chrome.contextMenus.create({
       id: 'fizzy-history',
       title: 'History',
@@ -498,8 +853,20 @@ chrome.runtime.onInstalled.addListener(() => {
 })
 
 // Handle context menu clicks
-chrome.contextMenus.onClicked.addListener((info) => {
-  if (info.menuItemId === 'fizzy-history') {
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const delayMatch = String(info.menuItemId).match(/^popshot-capture-delay-(\d+)$/)
+
+  if (delayMatch && tab) {
+    startDelayedCapture(tab, parseInt(delayMatch[1], 10))
+  } else if (info.menuItemId === 'popshot-capture-full-page' && tab) {
+    startCapture(tab, 'fullPage')
+  } else if (info.menuItemId === 'popshot-capture-region' && tab) {
+    startCapture(tab, 'region')
+  } else if (info.menuItemId === 'popshot-capture-element' && tab) {
+    startCapture(tab, 'element')
+  } else if (info.menuItemId === 'popshot-capture-record' && tab) {
+    startRecording(tab)
+  } else if (info.menuItemId === 'fizzy-history') {
     const historyUrl = chrome.runtime.getURL('src/history/index.html')
     chrome.tabs.create({ url: historyUrl })
   } else if (info.menuItemId === 'fizzy-settings') {
@@ -0,0 +1,34 @@
+/**
+ * Cleanup of captures left behind in IndexedDB.
+ *
+ * Screenshots, DOM snapshots and recordings are deleted by the annotate page
+ * when a report is sent or discarded. A page that's simply closed - or a
+ * recording that's never reviewed - leaves its records behind, so anything
+ * older than a day is dropped whenever the browser starts or the extension
+ * is installed or updated. By then the session that referenced it is gone.
+ */
+
+import { deleteImagesOlderThan } from '../lib/image-store'
+import { deleteSnapshotsOlderThan } from '../lib/snapshot-store'
+import { deleteRecordingsOlderThan } from '../lib/recording-store'
+
+/** How long a stored capture outlives the session it was made for, in ms */
+export const STORED_CAPTURE_MAX_AGE = 24 * 60 * 60 * 1000
+
+/**
+ * Delete stored captures older than STORED_CAPTURE_MAX_AGE. A store that
+ * fails to open is skipped rather than stopping the others.
+ */
+export async function pruneStoredCaptures(now = Date.now()): Promise<void> {
+  const cutoff = now - STORED_CAPTURE_MAX_AGE
+  const results = await Promise.allSettled([
+    deleteImagesOlderThan(cutoff),
+    deleteSnapshotsOlderThan(cutoff),
+    deleteRecordingsOlderThan(cutoff),
+  ])
+  for (const result of results) {
+    if (result.status === 'rejected') {
+      console.warn('Pruning stored captures failed:', result.reason)
+    }
+  }
+}
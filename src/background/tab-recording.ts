@@ -0,0 +1,135 @@
+/**
+ * Tab screen recording.
+ *
+ * MV3 service workers have no DOM and can't run MediaRecorder, so the
+ * recording itself happens in an offscreen document (src/offscreen). The
+ * service worker turns the user gesture (icon click, context menu) into a
+ * tab capture stream id and hands it to the recorder; the recorder writes
+ * the finished WebM to the recording store and messages back
+ * 'recordingFinished' with its id, or 'recordingFailed'.
+ *
+ * Which tab is being recorded lives in chrome.storage.session rather than a
+ * module variable so a service worker restart mid-recording doesn't lose it.
+ */
+
+import type { PageMetadata } from '../lib/metadata'
+
+const OFFSCREEN_DOCUMENT_PATH = 'src/offscreen/index.html'
+
+/** A recording in progress, and the page it was started on */
+export interface ActiveRecording {
+  tabId: number
+  startedAt: number
+  metadata: PageMetadata
+}
+
+/**
+ * The recording in progress, if any
+ */
+export async function getActiveRecording(): Promise<ActiveRecording | undefined> {
+  const { activeRecording } = await chrome.storage.session.get('activeRecording')
+  return activeRecording as ActiveRecording | undefined
+}
+
+/**
+ * Start recording a tab. Must be called while the activeTab grant from a
+ * user gesture is still live, since tabCapture requires it.
+ */
+export async function startTabRecording(tab: chrome.tabs.Tab, metadata: PageMetadata): Promise<void> {
+  if (!tab.id) {
+    throw new Error('No active tab found')
+  }
+  if (await getActiveRecording()) {
+    throw new Error('A recording is already in progress')
+  }
+
+  const streamId = await getTabStreamId(tab.id)
+  await ensureOffscreenDocument()
+
+  const response = await chrome.runtime.sendMessage({
+    target: 'offscreen',
+    action: 'startRecording',
+    streamId,
+  })
+  if (!response?.success) {
+    await closeOffscreenDocument()
+    throw new Error(response?.error || 'Failed to start recording')
+  }
+
+  const recording: ActiveRecording = { tabId: tab.id, startedAt: Date.now(), metadata }
+  await chrome.storage.session.set({ activeRecording: recording })
+
+  await chrome.action.setBadgeBackgroundColor({ color: '#ef4444', tabId: tab.id })
+  await chrome.action.setBadgeText({ text: 'REC', tabId: tab.id })
+  await chrome.action.setTitle({ title: 'Stop Recording', tabId: tab.id })
+}
+
+/**
+ * Ask the recorder to stop. The recorder answers with 'recordingFinished'
+ * once the video is saved. If the recorder is gone (its offscreen document
+ * was closed), nothing will answer, so the recording is cleared here and the
+ * error rethrown.
+ */
+export async function stopTabRecording(): Promise<void> {
+  try {
+    await chrome.runtime.sendMessage({ target: 'offscreen', action: 'stopRecording' })
+  } catch (error) {
+    await finishTabRecording()
+    throw error
+  }
+}
+
+/**
+ * Clear the recording state, badge and offscreen document after the
+ * recorder has finished (or failed). Returns the recording that ended.
+ */
+export async function finishTabRecording(): Promise<ActiveRecording | undefined> {
+  const recording = await getActiveRecording()
+  await chrome.storage.session.remove('activeRecording')
+
+  if (recording) {
+    // The tab may have been closed while recording
+    await chrome.action.setBadgeText({ text: '', tabId: recording.tabId }).catch(() => {})
+    const defaultTitle = chrome.runtime.getManifest().action?.default_title ?? ''
+    await chrome.action.setTitle({ title: defaultTitle, tabId: recording.tabId }).catch(() => {})
+  }
+
+  await closeOffscreenDocument()
+  return recording
+}
+
+function getTabStreamId(tabId: number): Promise<string> {
+  return new Promise((resolve, reject) => {
+    chrome.tabCapture.getMediaStreamId({ targetTabId: tabId }, (streamId) => {
+      if (chrome.runtime.lastError || !streamId) {
+        reject(new Error(chrome.runtime.lastError?.message || 'Failed to capture the tab'))
+        return
+      }
+      resolve(streamId)
+    })
+  })
+}
+
+async function hasOffscreenDocument(): Promise<boolean> {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)],
+  })
+  return contexts.length > 0
+}
+
+async function ensureOffscreenDocument(): Promise<void> {
+  if (await hasOffscreenDocument()) return
+
+  await chrome.offscreen.createDocument({
+    url: OFFSCREEN_DOCUMENT_PATH,
+    reasons: [chrome.offscreen.Reason.USER_MEDIA],
+    justification: 'Record the tab with MediaRecorder',
+  })
+}
+
+async function closeOffscreenDocument(): Promise<void> {
+  if (await hasOffscreenDocument()) {
+    await chrome.offscreen.closeDocument()
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describeTarget, installBreadcrumbRecorder } from './breadcrumb-buffer'
+
+describe('describeTarget', () => {
+  beforeEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('names buttons and links by their text', () => {
+    document.body.innerHTML = `
+      <button id="save"><span id="icon">💾</span> Save   changes</button>
+      <a id="pricing" href="/pricing">Pricing</a>`
+
+    expect(describeTarget(document.getElementById('icon')!)).toBe('button "💾 Save changes"')
+    expect(describeTarget(document.getElementById('pricing')!)).toBe('link "Pricing"')
+  })
+
+  it('names fields by label or placeholder, never their value', () => {
+    document.body.innerHTML = `
+      <label for="email">Email address</label><input id="email" value="me@example.com">
+      <input id="search" placeholder="Search docs" value="secret query">`
+
+    expect(describeTarget(document.getElementById('email')!)).toBe('field "Email address"')
+    expect(describeTarget(document.getElementById('search')!)).toBe('field "Search docs"')
+  })
+
+  it('prefers aria-label and falls back to the tag', () => {
+    document.body.innerHTML = `<div role="button" aria-label="Close dialog">×</div><div id="plain"></div>`
+
+    expect(describeTarget(document.querySelector('[role=button]')!)).toBe('button "Close dialog"')
+    expect(describeTarget(document.getElementById('plain')!)).toBe('<div> "plain"')
+  })
+
+  it('truncates long names', () => {
+    document.body.innerHTML = `<button>${'word '.repeat(20)}</button>`
+
+    expect(describeTarget(document.querySelector('button')!)).toMatch(/^button "word word .*\.\.\."$/)
+  })
+})
+
+describe('installBreadcrumbRecorder', () => {
+  let win: Window & typeof globalThis
+
+  beforeEach(() => {
+    // A fresh window per test, since installing patches its history for good
+    const frame = document.createElement('iframe')
+    document.body.appendChild(frame)
+    win = frame.contentWindow as Window & typeof globalThis
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('starts with the current page and records route changes', () => {
+    // The test's own window: an about:blank frame can't pushState
+    const entries = installBreadcrumbRecorder(window)
+    const start = window.location.href
+
+    window.history.pushState({}, '', '#/settings')
+
+    expect(entries.map((e) => [e.type, e.detail])).toEqual([
+      ['navigation', start],
+      ['navigation', `${start}#/settings`],
+    ])
+  })
+
+  it('records clicks and form submissions', () => {
+    win.document.body.innerHTML = `<form name="login"><button type="button">Sign in</button></form>`
+    const entries = installBreadcrumbRecorder(win)
+
+    win.document.querySelector('button')!.dispatchEvent(new win.MouseEvent('click', { bubbles: true }))
+    win.document.querySelector('form')!.dispatchEvent(new win.Event('submit', { bubbles: true }))
+
+    expect(entries.slice(1).map((e) => [e.type, e.target])).toEqual([
+      ['click', 'button "Sign in"'],
+      ['submit', 'form "login"'],
+    ])
+  })
+
+  it('records named keys and shortcuts but only that typing happened', () => {
+    win.document.body.innerHTML = `<input placeholder="Search">`
+    const input = win.document.querySelector('input')!
+    const entries = installBreadcrumbRecorder(win)
+    const press = (key: string, init: KeyboardEventInit = {}) =>
+      input.dispatchEvent(new win.KeyboardEvent('keydown', { key, bubbles: true, ...init }))
+
+    press('h')
+    press('i')
+    press('Shift')
+    press('Enter')
+    press('s', { ctrlKey: true })
+
+    expect(entries.slice(1).map((e) => [e.type, e.detail, e.target])).toEqual([
+      ['input', undefined, 'field "Search"'],
+      ['keypress', 'Enter', 'field "Search"'],
+      ['keypress', 'Ctrl+S', 'field "Search"'],
+    ])
+    expect(JSON.stringify(entries)).not.toContain('"hi"')
+  })
+
+  it('keeps only the most recent breadcrumbs', () => {
+    win.document.body.innerHTML = `<button>Go</button>`
+    const entries = installBreadcrumbRecorder(win, 3)
+
+    for (let i = 0; i < 5; i++) {
+      win.document.querySelector('button')!.dispatchEvent(new win.MouseEvent('click', { bubbles: true }))
+    }
+
+    expect(entries.map((e) => e.type)).toEqual(['click', 'click', 'click'])
+  })
+})
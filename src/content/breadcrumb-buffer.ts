@@ -0,0 +1,219 @@
+/**
+ * User-action breadcrumbs.
+ *
+ * Installed into every page at document_start by the breadcrumb recorder
+ * content script, in the page's own (MAIN) world so route changes made with
+ * history.pushState are seen. Keeps a rolling log of the last MAX_BREADCRUMBS
+ * clicks, form submissions, route changes and key presses in an array hung
+ * off window under a Symbol.for() key, where the service worker reads it at
+ * capture time (see background/page-buffers.ts).
+ *
+ * Never records what the user typed: printable keys only produce an "input"
+ * breadcrumb naming the field, and form submissions carry no values.
+ */
+
+import type { Breadcrumb } from '../lib/metadata'
+
+/** Symbol.for() key of the buffer on window */
+export const BREADCRUMB_BUFFER_KEY = 'popshot.breadcrumbs'
+
+export const MAX_BREADCRUMBS = 50
+
+/** Element names are cut to this many characters */
+const MAX_NAME_LENGTH = 40
+
+/** Keys worth a "Press" step; printable characters count as typing */
+const NAMED_KEYS = new Set([
+  'Enter', 'Escape', 'Tab', 'Backspace', 'Delete', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
+  'PageUp', 'PageDown', 'Home', 'End', 'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12',
+])
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'CapsLock', 'AltGraph'])
+
+/**
+ * Start recording the user's actions in the window. Installing twice
+ * returns the existing buffer.
+ */
+export function installBreadcrumbRecorder(
+  win: Window & typeof globalThis,
+  limit: number = MAX_BREADCRUMBS
+): Breadcrumb[] {
+  const key = Symbol.for(BREADCRUMB_BUFFER_KEY)
+  const existing = (win as unknown as Record<symbol, Breadcrumb[] | undefined>)[key]
+  if (existing) {
+    return existing
+  }
+
+  const entries: Breadcrumb[] = []
+  Object.defineProperty(win, key, { value: entries })
+
+  const push = (crumb: Omit<Breadcrumb, 'timestamp'>) => {
+    entries.push({ ...crumb, timestamp: Date.now() })
+    if (entries.length > limit) {
+      entries.splice(0, entries.length - limit)
+    }
+  }
+
+  // Route changes, including single-page app navigation
+  let lastUrl = win.location.href
+  push({ type: 'navigation', detail: lastUrl })
+
+  const onRouteChange = () => {
+    const url = win.location.href
+    if (url !== lastUrl) {
+      lastUrl = url
+      push({ type: 'navigation', detail: url })
+    }
+  }
+
+  for (const method of ['pushState', 'replaceState'] as const) {
+    const original = win.history[method]
+    win.history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args)
+      onRouteChange()
+      return result
+    }
+  }
+  win.addEventListener('popstate', onRouteChange)
+  win.addEventListener('hashchange', onRouteChange)
+
+  // Capture phase, so handlers that stop propagation don't hide actions
+  const doc = win.document
+  const asElement = (target: EventTarget | null) => (target instanceof win.Element ? target : null)
+
+  doc.addEventListener('click', (event) => {
+    const el = asElement(event.target)
+    if (el) {
+      push({ type: 'click', target: describeTarget(el) })
+    }
+  }, true)
+
+  doc.addEventListener('submit', (event) => {
+    const form = asElement(event.target)
+    if (form) {
+      push({ type: 'submit', target: describeForm(form) })
+    }
+  }, true)
+
+  doc.addEventListener('keydown', (event) => {
+    if (event.repeat || MODIFIER_KEYS.has(event.key)) return
+
+    const el = asElement(event.target)
+    const field = el && isEditable(el) ? describeTarget(el) : undefined
+    const pressed = describeKey(event)
+    if (pressed) {
+      push({ type: 'keypress', detail: pressed, target: field })
+      return
+    }
+
+    // Typing: one breadcrumb per stretch of typing in a field
+    const last = entries[entries.length - 1]
+    if (field && !(last?.type === 'input' && last.target === field)) {
+      push({ type: 'input', target: field })
+    }
+  }, true)
+
+  return entries
+}
+
+/**
+ * Name a key press worth its own step ("Enter", "Ctrl+S"), or null for plain
+ * typing
+ */
+function describeKey(event: KeyboardEvent): string | null {
+  const modifiers = [
+    event.ctrlKey && 'Ctrl',
+    event.metaKey && 'Cmd',
+    event.altKey && 'Alt',
+  ].filter(Boolean) as string[]
+
+  if (modifiers.length === 0 && !NAMED_KEYS.has(event.key)) {
+    return null
+  }
+  if (event.shiftKey) {
+    modifiers.push('Shift')
+  }
+  const key = event.key.length === 1 ? event.key.toUpperCase() : event.key
+  return [...modifiers, key].join('+')
+}
+
+function isEditable(el: Element): boolean {
+  const tag = el.tagName.toLowerCase()
+  return tag === 'input' || tag === 'textarea' || tag === 'select' || (el as HTMLElement).isContentEditable
+}
+
+/**
+ * Describe what the user interacted with the way a tester would write it:
+ * `button "Save"`, `link "Pricing"`, `field "Email"`
+ */
+export function describeTarget(el: Element): string {
+  const target = el.closest(
+    'a, button, input, select, textarea, summary, label, [role="button"], [role="link"], [role="tab"], ' +
+    '[role="menuitem"], [role="checkbox"], [contenteditable="true"], [contenteditable=""]'
+  ) ?? el
+
+  const kind = describeKind(target)
+  const name = accessibleName(target, kind === 'field' || kind === 'dropdown')
+  return name ? `${kind} "${name}"` : kind
+}
+
+function describeKind(el: Element): string {
+  const tag = el.tagName.toLowerCase()
+  const role = el.getAttribute('role')
+  const type = (el.getAttribute('type') || '').toLowerCase()
+
+  if (tag === 'a' || role === 'link') return 'link'
+  if (tag === 'button' || role === 'button') return 'button'
+  if (tag === 'input' && ['button', 'submit', 'reset', 'image'].includes(type)) return 'button'
+  if ((tag === 'input' && type === 'checkbox') || role === 'checkbox') return 'checkbox'
+  if (tag === 'input' && type === 'radio') return 'radio button'
+  if (tag === 'input' || tag === 'textarea' || (el as HTMLElement).isContentEditable) return 'field'
+  if (tag === 'select') return 'dropdown'
+  if (role === 'tab') return 'tab'
+  if (role === 'menuitem') return 'menu item'
+  if (tag === 'summary') return 'disclosure'
+  if (tag === 'label') return 'label'
+  return `<${tag}>`
+}
+
+/**
+ * A short name for the element. Fields are named by their label or
+ * placeholder, never their content.
+ */
+function accessibleName(el: Element, isField: boolean): string {
+  const candidates: (string | null | undefined)[] = [el.getAttribute('aria-label')]
+
+  if (isField) {
+    const labels = (el as HTMLInputElement).labels
+    candidates.push(
+      labels?.[0]?.textContent,
+      el.getAttribute('placeholder'),
+      el.getAttribute('name'),
+    )
+  } else {
+    const type = (el.getAttribute('type') || '').toLowerCase()
+    if (el.tagName.toLowerCase() === 'input' && ['button', 'submit', 'reset'].includes(type)) {
+      // A button input's value is its label
+      candidates.push(el.getAttribute('value'))
+    }
+    candidates.push(
+      (el as HTMLElement).innerText ?? el.textContent,
+      el.getAttribute('title'),
+      el.querySelector('img[alt]')?.getAttribute('alt'),
+    )
+  }
+  candidates.push(el.id)
+
+  for (const candidate of candidates) {
+    const name = candidate?.replace(/\s+/g, ' ').trim()
+    if (name) {
+      return name.length > MAX_NAME_LENGTH ? `${name.slice(0, MAX_NAME_LENGTH - 3)}...` : name
+    }
+  }
+  return ''
+}
+
+function describeForm(form: Element): string {
+  const name = form.getAttribute('aria-label') || form.getAttribute('name') || form.id
+  return name ? `form "${name}"` : 'form'
+}
@@ -0,0 +1,10 @@
+/**
+ * Breadcrumb recorder content script.
+ *
+ * Runs in the page's MAIN world at document_start (see manifest.config.ts)
+ * so the page's history methods are wrapped before its router uses them.
+ */
+
+import { installBreadcrumbRecorder } from './breadcrumb-buffer'
+
+installBreadcrumbRecorder(window)
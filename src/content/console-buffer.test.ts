@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { formatConsoleArgs, installConsoleCapture, MAX_MESSAGE_LENGTH } from './console-buffer'
+
+describe('formatConsoleArgs', () => {
+  it('joins arguments with spaces', () => {
+    expect(formatConsoleArgs(['Loaded', 3, 'items', true, null, undefined])).toBe('Loaded 3 items true null undefined')
+  })
+
+  it('serializes objects and marks circular references', () => {
+    const state: Record<string, unknown> = { id: 1, tags: ['a'] }
+    state.self = state
+
+    expect(formatConsoleArgs([state])).toBe('{"id":1,"tags":["a"],"self":"[Circular]"}')
+  })
+
+  it('describes errors, functions and elements', () => {
+    const el = document.createElement('button')
+    el.id = 'pay'
+    el.className = 'btn primary large'
+
+    expect(formatConsoleArgs([new TypeError('x is undefined')])).toBe('TypeError: x is undefined')
+    expect(formatConsoleArgs([function onClick() {}])).toBe('[Function onClick]')
+    expect(formatConsoleArgs([el])).toBe('<button#pay.btn.primary>')
+  })
+
+  it('truncates long messages', () => {
+    const message = formatConsoleArgs(['x'.repeat(MAX_MESSAGE_LENGTH * 2)])
+
+    expect(message).toHaveLength(MAX_MESSAGE_LENGTH)
+    expect(message.endsWith('...')).toBe(true)
+  })
+})
+
+describe('installConsoleCapture', () => {
+  let win: Window & typeof globalThis
+
+  beforeEach(() => {
+    // A fresh window per test, since installing patches its console for good
+    const frame = document.createElement('iframe')
+    document.body.appendChild(frame)
+    win = frame.contentWindow as Window & typeof globalThis
+    for (const level of ['log', 'info', 'warn', 'error', 'debug'] as const) {
+      win.console[level] = vi.fn()
+    }
+  })
+
+  afterEach(() => {
+    document.body.innerHTML = ''
+  })
+
+  it('buffers console calls and still forwards them', () => {
+    const originalWarn = win.console.warn
+    const entries = installConsoleCapture(win)
+
+    win.console.log('hello', { a: 1 })
+    win.console.warn('careful')
+
+    expect(entries.map((e) => [e.level, e.message])).toEqual([
+      ['log', 'hello {"a":1}'],
+      ['warn', 'careful'],
+    ])
+    expect(originalWarn).toHaveBeenCalledWith('careful')
+  })
+
+  it('keeps only the most recent entries', () => {
+    const entries = installConsoleCapture(win, 3)
+
+    for (let i = 1; i <= 5; i++) {
+      win.console.log(`message ${i}`)
+    }
+
+    expect(entries.map((e) => e.message)).toEqual(['message 3', 'message 4', 'message 5'])
+  })
+
+  it('records uncaught errors with their source and stack frames', () => {
+    const entries = installConsoleCapture(win)
+    const error = new Error('boom')
+    error.stack = 'Error: boom\n    at render (https://example.com/app.js:10:5)\n    at main (https://example.com/app.js:2:1)'
+
+    win.dispatchEvent(new win.ErrorEvent('error', {
+      message: 'Uncaught Error: boom',
+      filename: 'https://example.com/app.js',
+      lineno: 10,
+      colno: 5,
+      error,
+    }))
+
+    expect(entries).toEqual([expect.objectContaining({
+      level: 'exception',
+      message: 'Error: boom',
+      source: 'https://example.com/app.js:10:5',
+      stack: 'at render (https://example.com/app.js:10:5)\nat main (https://example.com/app.js:2:1)',
+    })])
+  })
+
+  it('records unhandled rejections', () => {
+    const entries = installConsoleCapture(win)
+    const event = new win.Event('unhandledrejection') as PromiseRejectionEvent
+    Object.defineProperty(event, 'reason', { value: 'network down' })
+
+    win.dispatchEvent(event)
+
+    expect(entries[0]).toMatchObject({ level: 'rejection', message: 'Unhandled rejection: network down' })
+  })
+
+  it('returns the existing buffer when installed twice', () => {
+    const entries = installConsoleCapture(win)
+
+    expect(installConsoleCapture(win)).toBe(entries)
+    win.console.log('once')
+    expect(entries).toHaveLength(1)
+  })
+})
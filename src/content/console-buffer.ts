@@ -0,0 +1,136 @@
+/**
+ * Console and JavaScript error buffering.
+ *
+ * Installed into every page at document_start by the console capture
+ * content script, in the page's own (MAIN) world so it sees the page's
+ * console calls. Keeps the last MAX_CONSOLE_ENTRIES entries in an array
+ * hung off window under a Symbol.for() key, where the service worker reads
+ * it at capture time (see background/page-buffers.ts).
+ */
+
+import type { ConsoleEntry } from '../lib/metadata'
+
+/** Symbol.for() key of the buffer on window */
+export const CONSOLE_BUFFER_KEY = 'popshot.consoleLog'
+
+export const MAX_CONSOLE_ENTRIES = 100
+
+/** Longer messages (big objects, huge strings) are cut to this many characters */
+export const MAX_MESSAGE_LENGTH = 1000
+
+const CONSOLE_LEVELS = ['log', 'info', 'warn', 'error', 'debug'] as const
+
+/**
+ * Patch the window's console and listen for uncaught errors and unhandled
+ * rejections. Installing twice returns the existing buffer.
+ */
+export function installConsoleCapture(win: Window & typeof globalThis, limit: number = MAX_CONSOLE_ENTRIES): ConsoleEntry[] {
+  const key = Symbol.for(CONSOLE_BUFFER_KEY)
+  const existing = (win as unknown as Record<symbol, ConsoleEntry[] | undefined>)[key]
+  if (existing) {
+    return existing
+  }
+
+  const entries: ConsoleEntry[] = []
+  Object.defineProperty(win, key, { value: entries })
+
+  const push = (entry: ConsoleEntry) => {
+    entries.push(entry)
+    if (entries.length > limit) {
+      entries.splice(0, entries.length - limit)
+    }
+  }
+
+  for (const level of CONSOLE_LEVELS) {
+    const original = win.console[level]
+    win.console[level] = function (this: Console, ...args: unknown[]) {
+      // Never let capture break the page's own logging
+      try {
+        push({ level, message: formatConsoleArgs(args), timestamp: Date.now() })
+      } catch {
+        // Ignore
+      }
+      return original.apply(this, args)
+    }
+  }
+
+  win.addEventListener('error', (event) => {
+    // Resource load errors don't bubble to window, so this is a script error
+    push({
+      level: 'exception',
+      message: truncate(event.error instanceof Error ? formatError(event.error) : event.message),
+      timestamp: Date.now(),
+      source: event.filename ? `${event.filename}:${event.lineno}:${event.colno}` : undefined,
+      stack: stackFrames(event.error),
+    })
+  })
+
+  win.addEventListener('unhandledrejection', (event) => {
+    push({
+      level: 'rejection',
+      message: truncate(`Unhandled rejection: ${formatValue(event.reason)}`),
+      timestamp: Date.now(),
+      stack: stackFrames(event.reason),
+    })
+  })
+
+  return entries
+}
+
+/**
+ * Render console arguments the way the devtools console roughly would, as
+ * one line of text
+ */
+export function formatConsoleArgs(args: unknown[]): string {
+  return truncate(args.map((arg) => formatValue(arg)).join(' '))
+}
+
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') return value
+  if (value instanceof Error) return formatError(value)
+  if (typeof value === 'function') return `[Function ${value.name || '(anonymous)'}]`
+  if (value === null || typeof value !== 'object') return String(value)
+  if (typeof Element !== 'undefined' && value instanceof Element) return describeElement(value)
+
+  try {
+    const seen = new WeakSet<object>()
+    const json = JSON.stringify(value, (_key, nested: unknown) => {
+      if (typeof nested === 'bigint') return `${nested}n`
+      if (typeof nested === 'function') return `[Function ${nested.name || '(anonymous)'}]`
+      if (nested !== null && typeof nested === 'object') {
+        if (seen.has(nested)) return '[Circular]'
+        seen.add(nested)
+      }
+      return nested
+    })
+    return json ?? String(value)
+  } catch {
+    return Object.prototype.toString.call(value)
+  }
+}
+
+function formatError(error: Error): string {
+  return `${error.name}: ${error.message}`
+}
+
+function describeElement(el: Element): string {
+  let description = el.tagName.toLowerCase()
+  if (el.id) description += `#${el.id}`
+  for (const className of Array.from(el.classList).slice(0, 2)) {
+    description += `.${className}`
+  }
+  return `<${description}>`
+}
+
+/**
+ * The "at ..." frames of an error's stack, without the leading message line
+ */
+function stackFrames(error: unknown): string | undefined {
+  if (!(error instanceof Error) || !error.stack) return undefined
+  const frames = error.stack.split('\n').filter((line) => /^\s*at /.test(line))
+  return frames.length > 0 ? frames.map((frame) => frame.trim()).join('\n') : undefined
+}
+
+function truncate(message: string): string {
+  return message.length > MAX_MESSAGE_LENGTH ? `${message.slice(0, MAX_MESSAGE_LENGTH - 3)}...` : message
+}
@@ -0,0 +1,10 @@
+/**
+ * Console capture content script.
+ *
+ * Runs in the page's MAIN world at document_start (see manifest.config.ts)
+ * so it is in place before the page's own scripts log anything.
+ */
+
+import { installConsoleCapture } from './console-buffer'
+
+installConsoleCapture(window)
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import { installNetworkCapture, parseHeaderString } from './network-buffer'
+
+describe('parseHeaderString', () => {
+  it('parses getAllResponseHeaders output with lowercased names', () => {
+    expect(parseHeaderString('Content-Type: application/json; charset=utf-8\r\nX-Request-Id: a:b\r\n')).toEqual({
+      'content-type': 'application/json; charset=utf-8',
+      'x-request-id': 'a:b',
+    })
+  })
+
+  it('returns an empty record for no headers', () => {
+    expect(parseHeaderString('')).toEqual({})
+  })
+})
+
+describe('installNetworkCapture', () => {
+  // jsdom has no fetch, so stand in a minimal window around a mocked one
+  // (without XMLHttpRequest or PerformanceObserver, which are skipped)
+  const fakeWindow = (fetch: typeof globalThis.fetch) => ({
+    fetch,
+    Request,
+    Headers,
+    location: { href: 'https://example.com/app' },
+    performance,
+  }) as unknown as Window & typeof globalThis
+
+  it('records fetch requests with method, status and headers', async () => {
+    const response = new Response('{}', {
+      status: 404,
+      statusText: 'Not Found',
+      headers: { 'Content-Type': 'application/json; charset=utf-8' },
+    })
+    const win = fakeWindow(vi.fn(async () => response))
+    const entries = installNetworkCapture(win)
+
+    const result = await win.fetch('https://api.example.com/items', {
+      method: 'post',
+      headers: { Authorization: 'Bearer secret' },
+    })
+
+    expect(result).toBe(response)
+    expect(entries).toEqual([expect.objectContaining({
+      url: 'https://api.example.com/items',
+      method: 'POST',
+      status: 404,
+      statusText: 'Not Found',
+      type: 'fetch',
+      mimeType: 'application/json',
+      requestHeaders: { authorization: 'Bearer secret' },
+      responseHeaders: { 'content-type': 'application/json; charset=utf-8' },
+    })])
+  })
+
+  it('records failed fetches with status 0 and rethrows', async () => {
+    const win = fakeWindow(vi.fn(async () => {
+      throw new TypeError('Failed to fetch')
+    }))
+    const entries = installNetworkCapture(win)
+
+    await expect(win.fetch('https://api.example.com/down')).rejects.toThrow('Failed to fetch')
+    expect(entries[0]).toMatchObject({ method: 'GET', status: 0, statusText: 'Failed to fetch' })
+  })
+
+  it('keeps only the most recent requests', async () => {
+    const win = fakeWindow(vi.fn(async () => new Response('')))
+    const entries = installNetworkCapture(win, 2)
+
+    for (let i = 1; i <= 3; i++) {
+      await win.fetch(`https://example.com/${i}`)
+    }
+
+    expect(entries.map((e) => e.url)).toEqual(['https://example.com/2', 'https://example.com/3'])
+  })
+
+  it('resolves relative URLs against the page', async () => {
+    const win = fakeWindow(vi.fn(async () => new Response('')))
+    const entries = installNetworkCapture(win)
+
+    await win.fetch('/api/me')
+
+    expect(entries[0].url).toBe('https://example.com/api/me')
+  })
+
+  it('returns the existing buffer when installed twice', () => {
+    const win = fakeWindow(vi.fn())
+    const entries = installNetworkCapture(win)
+
+    expect(installNetworkCapture(win)).toBe(entries)
+  })
+})
@@ -0,0 +1,209 @@
+/**
+ * Network request buffering.
+ *
+ * Installed into every page at document_start by the network capture
+ * content script, in the page's own (MAIN) world. Resource timing (a
+ * PerformanceObserver) sees every request the page makes; wrapping fetch and
+ * XMLHttpRequest adds what timing can't: the method, status and headers of
+ * API calls. Keeps the last MAX_NETWORK_ENTRIES requests in an array hung off
+ * window under a Symbol.for() key, where the service worker reads it at
+ * capture time (see background/page-buffers.ts).
+ *
+ * Nothing here is redacted - the buffer never leaves the page until the
+ * service worker reads and redacts it.
+ */
+
+import type { NetworkRequest } from '../lib/metadata'
+
+/** Symbol.for() key of the buffer on window */
+export const NETWORK_BUFFER_KEY = 'popshot.networkLog'
+
+export const MAX_NETWORK_ENTRIES = 200
+
+/**
+ * Start recording the window's network requests. Installing twice returns
+ * the existing buffer.
+ */
+export function installNetworkCapture(
+  win: Window & typeof globalThis,
+  limit: number = MAX_NETWORK_ENTRIES
+): NetworkRequest[] {
+  const key = Symbol.for(NETWORK_BUFFER_KEY)
+  const existing = (win as unknown as Record<symbol, NetworkRequest[] | undefined>)[key]
+  if (existing) {
+    return existing
+  }
+
+  const entries: NetworkRequest[] = []
+  Object.defineProperty(win, key, { value: entries })
+
+  const push = (entry: NetworkRequest) => {
+    entries.push(entry)
+    if (entries.length > limit) {
+      entries.splice(0, entries.length - limit)
+    }
+  }
+
+  const absoluteUrl = (url: string) => {
+    try {
+      return new URL(url, win.location.href).href
+    } catch {
+      return url
+    }
+  }
+
+  // fetch - entries are pushed when the request starts so the buffer stays
+  // in start order, and filled in when the response arrives
+  const originalFetch = win.fetch
+  if (typeof originalFetch === 'function') {
+    win.fetch = function (this: unknown, input: RequestInfo | URL, init?: RequestInit) {
+      const request = input instanceof win.Request ? input : null
+      const entry: NetworkRequest = {
+        url: absoluteUrl(request ? request.url : String(input)),
+        method: (init?.method ?? request?.method ?? 'GET').toUpperCase(),
+        type: 'fetch',
+        startTime: Date.now(),
+        duration: 0,
+      }
+      try {
+        entry.requestHeaders = headersToRecord(new win.Headers(init?.headers ?? request?.headers))
+      } catch {
+        // Invalid headers - fetch itself will reject
+      }
+      push(entry)
+
+      const started = win.performance.now()
+      return originalFetch.call(this, input, init).then(
+        (response) => {
+          entry.status = response.status
+          entry.statusText = response.statusText
+          entry.duration = Math.round(win.performance.now() - started)
+          entry.responseHeaders = headersToRecord(response.headers)
+          entry.mimeType = mimeTypeOf(entry.responseHeaders['content-type'])
+          return response
+        },
+        (error: unknown) => {
+          entry.status = 0
+          entry.statusText = error instanceof Error ? error.message : String(error)
+          entry.duration = Math.round(win.performance.now() - started)
+          throw error
+        }
+      )
+    } as typeof win.fetch
+  }
+
+  // XMLHttpRequest
+  const xhrProto = win.XMLHttpRequest?.prototype
+  if (xhrProto) {
+    const xhrEntries = new WeakMap<XMLHttpRequest, NetworkRequest>()
+    const originalOpen = xhrProto.open as (...args: unknown[]) => void
+    const originalSetRequestHeader = xhrProto.setRequestHeader
+    const originalSend = xhrProto.send
+
+    xhrProto.open = function (this: XMLHttpRequest, ...args: unknown[]) {
+      xhrEntries.set(this, {
+        url: absoluteUrl(String(args[1])),
+        method: String(args[0]).toUpperCase(),
+        type: 'xmlhttprequest',
+        startTime: 0,
+        duration: 0,
+        requestHeaders: {},
+      })
+      return originalOpen.apply(this, args)
+    } as typeof xhrProto.open
+
+    xhrProto.setRequestHeader = function (this: XMLHttpRequest, name: string, value: string) {
+      const entry = xhrEntries.get(this)
+      if (entry?.requestHeaders) {
+        entry.requestHeaders[name.toLowerCase()] = value
+      }
+      return originalSetRequestHeader.call(this, name, value)
+    }
+
+    xhrProto.send = function (this: XMLHttpRequest, body?: Document | XMLHttpRequestBodyInit | null) {
+      const entry = xhrEntries.get(this)
+      if (entry) {
+        entry.startTime = Date.now()
+        push(entry)
+        const started = win.performance.now()
+        this.addEventListener('loadend', () => {
+          entry.status = this.status
+          entry.statusText = this.statusText
+          entry.duration = Math.round(win.performance.now() - started)
+          entry.responseHeaders = parseHeaderString(this.getAllResponseHeaders())
+          entry.mimeType = mimeTypeOf(entry.responseHeaders['content-type'])
+        })
+      }
+      return originalSend.call(this, body)
+    }
+  }
+
+  // Resource timing: everything else the page loads, plus transfer sizes and
+  // full durations for the fetch/XHR entries above
+  if (typeof win.PerformanceObserver === 'function') {
+    const recordTiming = (timing: PerformanceResourceTiming) => {
+      if (/^(data|blob):/.test(timing.name)) return
+      const size = timing.transferSize || timing.encodedBodySize || undefined
+
+      if (timing.initiatorType === 'fetch' || timing.initiatorType === 'xmlhttprequest') {
+        const wrapped = entries.find((entry) =>
+          entry.type === timing.initiatorType && entry.url === timing.name && entry.size === undefined
+        )
+        if (wrapped) {
+          wrapped.size = size
+          wrapped.duration = Math.round(timing.duration)
+          return
+        }
+      }
+
+      const status = (timing as PerformanceResourceTiming & { responseStatus?: number }).responseStatus
+      push({
+        url: timing.name,
+        method: 'GET',
+        status: status || undefined,
+        type: timing.initiatorType || 'other',
+        startTime: Math.round(win.performance.timeOrigin + timing.startTime),
+        duration: Math.round(timing.duration),
+        size,
+      })
+    }
+
+    try {
+      new win.PerformanceObserver((list) => {
+        for (const timing of list.getEntries()) {
+          recordTiming(timing as PerformanceResourceTiming)
+        }
+      }).observe({ type: 'resource', buffered: true })
+    } catch {
+      // Resource timing unavailable
+    }
+  }
+
+  return entries
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value
+  })
+  return record
+}
+
+/**
+ * Parse XMLHttpRequest.getAllResponseHeaders() output
+ */
+export function parseHeaderString(raw: string): Record<string, string> {
+  const record: Record<string, string> = {}
+  for (const line of raw.trim().split(/[\r\n]+/)) {
+    const separator = line.indexOf(':')
+    if (separator > 0) {
+      record[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim()
+    }
+  }
+  return record
+}
+
+function mimeTypeOf(contentType: string | undefined): string | undefined {
+  return contentType?.split(';')[0].trim() || undefined
+}
@@ -0,0 +1,11 @@
+/**
+ * Network capture content script.
+ *
+ * Runs in the page's MAIN world at document_start (see manifest.config.ts)
+ * so fetch and XMLHttpRequest are wrapped before the page's own scripts use
+ * them.
+ */
+
+import { installNetworkCapture } from './network-buffer'
+
+installNetworkCapture(window)
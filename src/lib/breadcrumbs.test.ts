@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import type { Breadcrumb } from './metadata'
+import {
+  breadcrumbsToSteps,
+  describeBreadcrumb,
+  formatSteps,
+  formatStepsAsText,
+  parseStepsText,
+  MAX_REPRODUCTION_STEPS,
+} from './breadcrumbs'
+
+const crumb = (fields: Omit<Breadcrumb, 'timestamp'>): Breadcrumb => ({ ...fields, timestamp: 0 })
+
+describe('describeBreadcrumb', () => {
+  it('describes each kind of action', () => {
+    expect(describeBreadcrumb(crumb({ type: 'navigation', detail: 'https://example.com/cart' })))
+      .toBe('Go to https://example.com/cart')
+    expect(describeBreadcrumb(crumb({ type: 'click', target: 'button "Checkout"' }))).toBe('Click button "Checkout"')
+    expect(describeBreadcrumb(crumb({ type: 'submit', target: 'form "login"' }))).toBe('Submit form "login"')
+    expect(describeBreadcrumb(crumb({ type: 'input', target: 'field "Email"' }))).toBe('Type in field "Email"')
+    expect(describeBreadcrumb(crumb({ type: 'keypress', detail: 'Enter', target: 'field "Search"' })))
+      .toBe('Press Enter in field "Search"')
+    expect(describeBreadcrumb(crumb({ type: 'keypress', detail: 'Ctrl+S' }))).toBe('Press Ctrl+S')
+  })
+})
+
+describe('breadcrumbsToSteps', () => {
+  it('collapses repeated actions', () => {
+    const steps = breadcrumbsToSteps([
+      crumb({ type: 'navigation', detail: 'https://example.com/' }),
+      crumb({ type: 'click', target: 'button "Next"' }),
+      crumb({ type: 'click', target: 'button "Next"' }),
+      crumb({ type: 'click', target: 'button "Next"' }),
+      crumb({ type: 'click', target: 'link "Done"' }),
+    ])
+
+    expect(steps).toEqual([
+      'Go to https://example.com/',
+      'Click button "Next" (3 times)',
+      'Click link "Done"',
+    ])
+  })
+
+  it('keeps only the most recent steps', () => {
+    const crumbs = Array.from({ length: MAX_REPRODUCTION_STEPS + 5 }, (_, i) =>
+      crumb({ type: 'click', target: `button "${i}"` })
+    )
+
+    const steps = breadcrumbsToSteps(crumbs)
+
+    expect(steps).toHaveLength(MAX_REPRODUCTION_STEPS)
+    expect(steps[steps.length - 1]).toBe(`Click button "${MAX_REPRODUCTION_STEPS + 4}"`)
+  })
+})
+
+describe('steps text', () => {
+  it('round-trips through the editable numbered list', () => {
+    const steps = ['Go to https://example.com/', 'Click button "Save"']
+
+    expect(formatStepsAsText(steps)).toBe('1. Go to https://example.com/\n2. Click button "Save"')
+    expect(parseStepsText(formatStepsAsText(steps))).toEqual(steps)
+  })
+
+  it('accepts edited lists with missing numbers and blank lines', () => {
+    expect(parseStepsText('1. Open the cart\n\n  Remove an item\n3) Reload\n')).toEqual([
+      'Open the cart',
+      'Remove an item',
+      'Reload',
+    ])
+  })
+})
+
+describe('formatSteps', () => {
+  it('renders an escaped ordered list in HTML', () => {
+    expect(formatSteps(['Click <b>', 'Press Enter'], 'html')).toBe(
+      '<p><strong>Steps to reproduce:</strong></p><ol><li>Click &lt;b&gt;</li><li>Press Enter</li></ol>'
+    )
+  })
+
+  it('renders a numbered Markdown list', () => {
+    expect(formatSteps(['Click button "*Save*"', 'Press Enter'], 'markdown')).toBe(
+      '**Steps to reproduce:**\n\n1. Click button "\\*Save\\*"\n2. Press Enter'
+    )
+  })
+
+  it('renders nothing for no steps', () => {
+    expect(formatSteps([], 'html')).toBe('')
+    expect(formatSteps([], 'text')).toBe('')
+  })
+})
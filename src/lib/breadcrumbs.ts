@@ -0,0 +1,78 @@
+/**
+ * Turn recorded user-action breadcrumbs into "Steps to reproduce"
+ */
+
+import type { Breadcrumb } from './metadata'
+import { getFormatter, type ReportFormat } from './report-format'
+
+/** Suggested steps are limited to the most recent actions */
+export const MAX_REPRODUCTION_STEPS = 15
+
+/**
+ * Describe one breadcrumb as an instruction, e.g. `Click button "Save"`
+ */
+export function describeBreadcrumb(crumb: Breadcrumb): string {
+  switch (crumb.type) {
+    case 'navigation':
+      return `Go to ${crumb.detail}`
+    case 'click':
+      return `Click ${crumb.target}`
+    case 'submit':
+      return `Submit ${crumb.target}`
+    case 'keypress':
+      return crumb.target ? `Press ${crumb.detail} in ${crumb.target}` : `Press ${crumb.detail}`
+    case 'input':
+      return `Type in ${crumb.target}`
+  }
+}
+
+/**
+ * Suggested reproduction steps for a breadcrumb trail: repeated actions are
+ * collapsed ("(3 times)") and only the last MAX_REPRODUCTION_STEPS kept
+ */
+export function breadcrumbsToSteps(breadcrumbs: Breadcrumb[]): string[] {
+  const steps: { text: string; count: number }[] = []
+  for (const crumb of breadcrumbs) {
+    const text = describeBreadcrumb(crumb)
+    const last = steps[steps.length - 1]
+    if (last?.text === text) {
+      last.count++
+    } else {
+      steps.push({ text, count: 1 })
+    }
+  }
+
+  return steps
+    .slice(-MAX_REPRODUCTION_STEPS)
+    .map(({ text, count }) => (count > 1 ? `${text} (${count} times)` : text))
+}
+
+/**
+ * Steps as an editable numbered list, one per line
+ */
+export function formatStepsAsText(steps: string[]): string {
+  return steps.map((step, i) => `${i + 1}. ${step}`).join('\n')
+}
+
+/**
+ * Read steps back from the edited list. Numbering is optional (and
+ * renumbered), blank lines are dropped.
+ */
+export function parseStepsText(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.replace(/^\s*\d+[.)]\s*/, '').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Format steps as a numbered list for the report body
+ */
+export function formatSteps(steps: string[], format: ReportFormat): string {
+  if (steps.length === 0) return ''
+  const formatter = getFormatter(format)
+  return formatter.join([
+    formatter.heading('Steps to reproduce'),
+    formatter.list(steps.map((step) => formatter.text(step)), true),
+  ])
+}
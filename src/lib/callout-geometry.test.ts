@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest'
+import { calloutPath, tailSide, TAIL_BASE_WIDTH, type PathCommand } from './callout-geometry'
+
+const lines = (path: PathCommand[]) =>
+  path.filter((command) => command[0] === 'L').map((command) => [command[1], command[2]])
+
+describe('tailSide', () => {
+  it('picks the edge facing the tip', () => {
+    expect(tailSide(200, 100, { x: 0, y: 120 })).toBe('bottom')
+    expect(tailSide(200, 100, { x: 10, y: -80 })).toBe('top')
+    expect(tailSide(200, 100, { x: 300, y: 60 })).toBe('right')
+    expect(tailSide(200, 100, { x: -150, y: 0 })).toBe('left')
+  })
+
+  it('has no tail when the tip is inside the bubble', () => {
+    expect(tailSide(200, 100, { x: 50, y: 20 })).toBeNull()
+  })
+})
+
+describe('calloutPath', () => {
+  it('draws a closed rounded rectangle without a tip', () => {
+    const path = calloutPath(200, 100, 10, null)
+
+    expect(path[0]).toEqual(['M', -90, -50])
+    expect(path.filter((command) => command[0] === 'Q')).toHaveLength(4)
+    expect(path[path.length - 1]).toEqual(['Z'])
+  })
+
+  it('runs the tail out to the tip from the facing edge', () => {
+    const path = calloutPath(200, 100, 10, { x: 30, y: 150 })
+    const half = TAIL_BASE_WIDTH / 2
+
+    // Bottom edge is drawn right to left
+    expect(lines(path)).toContainEqual([30 + half, 50])
+    expect(lines(path)).toContainEqual([30, 150])
+    expect(lines(path)).toContainEqual([30 - half, 50])
+  })
+
+  it('keeps the tail base clear of the corners', () => {
+    const path = calloutPath(200, 100, 10, { x: 500, y: -400 })
+    const half = TAIL_BASE_WIDTH / 2
+
+    // Tip far up and to the right: the base slides to the top edge's end
+    expect(lines(path)).toContainEqual([90 - 2 * half, -50])
+    expect(lines(path)).toContainEqual([90, -50])
+  })
+
+  it('clamps the corner radius to the bubble size', () => {
+    expect(calloutPath(10, 8, 20, null)[0]).toEqual(['M', -1, -4])
+  })
+})
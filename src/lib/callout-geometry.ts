@@ -0,0 +1,79 @@
+/**
+ * Speech-bubble geometry for callout annotations
+ *
+ * The bubble is a rounded rectangle centered on the origin. Its tail leaves
+ * from whichever edge faces the tip, so dragging the tip around the bubble
+ * swings the tail to the nearest side.
+ */
+
+export type BubbleSide = 'top' | 'right' | 'bottom' | 'left'
+
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['Q', number, number, number, number]
+  | ['Z']
+
+/** Width of the tail where it meets the bubble */
+export const TAIL_BASE_WIDTH = 20
+
+/**
+ * The edge a tail towards `tip` leaves from, or null when the tip is inside
+ * the bubble (no tail drawn)
+ */
+export function tailSide(width: number, height: number, tip: { x: number; y: number }): BubbleSide | null {
+  const halfWidth = width / 2
+  const halfHeight = height / 2
+  if (Math.abs(tip.x) <= halfWidth && Math.abs(tip.y) <= halfHeight) return null
+  if (Math.abs(tip.y) / halfHeight >= Math.abs(tip.x) / halfWidth) {
+    return tip.y > 0 ? 'bottom' : 'top'
+  }
+  return tip.x > 0 ? 'right' : 'left'
+}
+
+/**
+ * Outline of a bubble of the given size and corner radius with a tail to
+ * `tip`, clockwise from the top-left corner
+ */
+export function calloutPath(
+  width: number,
+  height: number,
+  radius: number,
+  tip: { x: number; y: number } | null
+): PathCommand[] {
+  const w = width / 2
+  const h = height / 2
+  const r = Math.max(0, Math.min(radius, w, h))
+  const side = tip ? tailSide(width, height, tip) : null
+
+  // The tail's base, centered as close to the tip as the corners allow
+  const tail = (edgeHalf: number, along: number) => {
+    const half = Math.max(0, Math.min(TAIL_BASE_WIDTH / 2, edgeHalf - r))
+    const limit = edgeHalf - r - half
+    const center = Math.max(-limit, Math.min(limit, along))
+    return { from: center - half, to: center + half }
+  }
+
+  const path: PathCommand[] = [['M', -w + r, -h]]
+  if (tip && side === 'top') {
+    const base = tail(w, tip.x)
+    path.push(['L', base.from, -h], ['L', tip.x, tip.y], ['L', base.to, -h])
+  }
+  path.push(['L', w - r, -h], ['Q', w, -h, w, -h + r])
+  if (tip && side === 'right') {
+    const base = tail(h, tip.y)
+    path.push(['L', w, base.from], ['L', tip.x, tip.y], ['L', w, base.to])
+  }
+  path.push(['L', w, h - r], ['Q', w, h, w - r, h])
+  if (tip && side === 'bottom') {
+    const base = tail(w, tip.x)
+    path.push(['L', base.to, h], ['L', tip.x, tip.y], ['L', base.from, h])
+  }
+  path.push(['L', -w + r, h], ['Q', -w, h, -w, h - r])
+  if (tip && side === 'left') {
+    const base = tail(h, tip.y)
+    path.push(['L', -w, base.to], ['L', tip.x, tip.y], ['L', -w, base.from])
+  }
+  path.push(['L', -w, -h + r], ['Q', -w, -h, -w + r, -h], ['Z'])
+  return path
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addRecentColor,
+  normalizeHexColor,
+  parseHexColor,
+  parsePaletteColors,
+  readableTextColor,
+  rgbToHex,
+  withAlpha,
+} from './colors'
+
+describe('parseHexColor', () => {
+  it('parses long and short hex colors', () => {
+    expect(parseHexColor('#ef4444')).toEqual({ r: 239, g: 68, b: 68 })
+    expect(parseHexColor('#FFF')).toEqual({ r: 255, g: 255, b: 255 })
+  })
+
+  it('rejects anything else', () => {
+    expect(parseHexColor('red')).toBeNull()
+    expect(parseHexColor('#12345')).toBeNull()
+  })
+})
+
+describe('readableTextColor', () => {
+  it('uses white on dark and saturated colors', () => {
+    expect(readableTextColor('#000000')).toBe('#ffffff')
+    expect(readableTextColor('#ef4444')).toBe('#ffffff')
+    expect(readableTextColor('#3b82f6')).toBe('#ffffff')
+  })
+
+  it('uses black on light colors', () => {
+    expect(readableTextColor('#ffffff')).toBe('#000000')
+    expect(readableTextColor('#eab308')).toBe('#000000')
+  })
+})
+
+describe('withAlpha', () => {
+  it('converts hex to rgba', () => {
+    expect(withAlpha('#eab308', 0.5)).toBe('rgba(234, 179, 8, 0.5)')
+  })
+
+  it('leaves colors it cannot parse alone', () => {
+    expect(withAlpha('transparent', 0.5)).toBe('transparent')
+  })
+})
+
+describe('normalizeHexColor', () => {
+  it('expands and lowercases hex colors, with or without the #', () => {
+    expect(normalizeHexColor('#FFF')).toBe('#ffffff')
+    expect(normalizeHexColor(' 3B82F6 ')).toBe('#3b82f6')
+  })
+
+  it('rejects anything else', () => {
+    expect(normalizeHexColor('blue')).toBeNull()
+    expect(normalizeHexColor('#12345')).toBeNull()
+  })
+})
+
+describe('rgbToHex', () => {
+  it('pads each channel to two digits', () => {
+    expect(rgbToHex(239, 8, 0)).toBe('#ef0800')
+  })
+})
+
+describe('addRecentColor', () => {
+  it('puts the color first without duplicating it', () => {
+    expect(addRecentColor(['#111111', '#222222'], '#222222')).toEqual(['#222222', '#111111'])
+    expect(addRecentColor(['#111111'], '#ABC')).toEqual(['#aabbcc', '#111111'])
+  })
+
+  it('drops the oldest colors past the limit', () => {
+    expect(addRecentColor(['#111111', '#222222'], '#333333', 2)).toEqual(['#333333', '#111111'])
+  })
+
+  it('ignores colors it cannot parse', () => {
+    const recent = ['#111111']
+    expect(addRecentColor(recent, 'transparent')).toBe(recent)
+  })
+})
+
+describe('parsePaletteColors', () => {
+  it('reads colors separated by commas, spaces and new lines', () => {
+    expect(parsePaletteColors('#0F172A, #38bdf8\n#f43f5e #38BDF8')).toEqual({
+      colors: ['#0f172a', '#38bdf8', '#f43f5e'],
+      invalid: [],
+    })
+  })
+
+  it('reports entries that are not hex colors', () => {
+    expect(parsePaletteColors('#000 brand-blue')).toEqual({ colors: ['#000000'], invalid: ['brand-blue'] })
+  })
+})
@@ -0,0 +1,83 @@
+/**
+ * Color helpers for annotations
+ */
+
+/**
+ * Parse "#rgb" or "#rrggbb" into channels, or null for anything else
+ */
+export function parseHexColor(hex: string): { r: number; g: number; b: number } | null {
+  const match = hex.trim().match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/i)
+  if (!match) return null
+  const digits = match[1].length === 3 ? [...match[1]].map((d) => d + d).join('') : match[1]
+  return {
+    r: parseInt(digits.slice(0, 2), 16),
+    g: parseInt(digits.slice(2, 4), 16),
+    b: parseInt(digits.slice(4, 6), 16),
+  }
+}
+
+/**
+ * Black or white, whichever reads better on the given background
+ */
+export function readableTextColor(background: string): '#000000' | '#ffffff' {
+  const rgb = parseHexColor(background)
+  if (!rgb) return '#ffffff'
+  // Perceived brightness (ITU-R BT.601 weights)
+  const brightness = (rgb.r * 299 + rgb.g * 587 + rgb.b * 114) / 1000
+  return brightness > 150 ? '#000000' : '#ffffff'
+}
+
+/**
+ * A hex color as rgba() with the given opacity (0-1)
+ */
+export function withAlpha(hex: string, alpha: number): string {
+  const rgb = parseHexColor(hex)
+  if (!rgb) return hex
+  return `rgba(${rgb.r}, ${rgb.g}, ${rgb.b}, ${alpha})`
+}
+
+/**
+ * "#rrggbb" in lowercase for "#rgb", "#RRGGBB" or the same without the "#",
+ * or null for anything else
+ */
+export function normalizeHexColor(input: string): string | null {
+  const trimmed = input.trim()
+  const rgb = parseHexColor(trimmed.startsWith('#') ? trimmed : `#${trimmed}`)
+  return rgb ? rgbToHex(rgb.r, rgb.g, rgb.b) : null
+}
+
+/**
+ * Channels (0-255) as "#rrggbb"
+ */
+export function rgbToHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((channel) => Math.round(channel).toString(16).padStart(2, '0')).join('')}`
+}
+
+/** Colors kept in the toolbar's recent row */
+export const MAX_RECENT_COLORS = 8
+
+/**
+ * Move `color` to the front of the recent colors, dropping the oldest past
+ * the limit
+ */
+export function addRecentColor(recent: string[], color: string, limit = MAX_RECENT_COLORS): string[] {
+  const hex = normalizeHexColor(color)
+  if (!hex) return recent
+  return [hex, ...recent.filter((c) => c !== hex)].slice(0, limit)
+}
+
+/**
+ * Parse the colors of a palette typed as hex values separated by commas,
+ * spaces or new lines. Duplicates are dropped; anything that isn't a hex
+ * color is returned in `invalid`.
+ */
+export function parsePaletteColors(text: string): { colors: string[]; invalid: string[] } {
+  const colors: string[] = []
+  const invalid: string[] = []
+  for (const entry of text.split(/[\s,]+/).filter(Boolean)) {
+    const hex = normalizeHexColor(entry)
+    if (!hex) invalid.push(entry)
+    else if (!colors.includes(hex)) colors.push(hex)
+  }
+  return { colors, invalid }
+}
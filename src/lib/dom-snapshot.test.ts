@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { finalizeSnapshot, imageRegionsToPage, SNAPSHOT_RECT_ATTRIBUTE } from './dom-snapshot'
+
+const page = (body: string, head = '') => `<!DOCTYPE html><html><head>${head}</head><body>${body}</body></html>`
+
+const noRules = { queryParams: [], patterns: [], stripFragmentOrigins: [] }
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+describe('finalizeSnapshot', () => {
+  it('masks text under a redacted region and leaves the rest', () => {
+    const html = finalizeSnapshot(page(`
+      <p id="secret" ${SNAPSHOT_RECT_ATTRIBUTE}="10,10,200,20">Card 4242 4242</p>
+      <p id="public" ${SNAPSHOT_RECT_ATTRIBUTE}="10,300,200,20">Order summary</p>
+    `), [{ x: 0, y: 0, width: 100, height: 50 }], noRules)
+
+    const doc = parse(html)
+    expect(doc.getElementById('secret')?.textContent).toBe('████ ████ ████')
+    expect(doc.getElementById('public')?.textContent).toBe('Order summary')
+  })
+
+  it('removes image sources and masks field values and labels', () => {
+    const html = finalizeSnapshot(page(`
+      <img id="avatar" src="data:image/png;base64,AAAA" alt="Jane Doe" ${SNAPSHOT_RECT_ATTRIBUTE}="0,0,40,40">
+      <input id="email" value="•••••" placeholder="Email" ${SNAPSHOT_RECT_ATTRIBUTE}="50,0,100,20">
+    `), [{ x: 0, y: 0, width: 200, height: 50 }], noRules)
+
+    const doc = parse(html)
+    const avatar = doc.getElementById('avatar')!
+    expect(avatar.hasAttribute('src')).toBe(false)
+    expect(avatar.getAttribute('alt')).toBe('████ ███')
+    expect(doc.getElementById('email')?.getAttribute('placeholder')).toBe('█████')
+  })
+
+  it('covers each region and strips the position tags', () => {
+    const html = finalizeSnapshot(page(`<p ${SNAPSHOT_RECT_ATTRIBUTE}="0,0,10,10">Hi</p>`), [
+      { x: 5, y: 6, width: 7, height: 8 },
+    ], noRules)
+
+    const doc = parse(html)
+    expect(doc.querySelector(`[${SNAPSHOT_RECT_ATTRIBUTE}]`)).toBeNull()
+    const style = doc.querySelector('[data-popshot-redacted]')?.getAttribute('style')
+    expect(style).toContain('left:5px')
+    expect(style).toContain('height:8px')
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true)
+  })
+
+  it('adds no covers when nothing is redacted', () => {
+    const html = finalizeSnapshot(page('<p>Hi</p>'), [], noRules)
+
+    expect(parse(html).querySelector('[data-popshot-redacted]')).toBeNull()
+  })
+
+  it('applies the redaction rules to the title and the URLs it keeps', () => {
+    const html = finalizeSnapshot(
+      page(
+        `
+          <a id="link" href="https://app.example.com/settings?token=abc123#access_token=xyz">Settings</a>
+          <img id="logo" src="https://cdn.example.com/logo.png?token=abc123">
+          <img id="inline" src="data:image/png;base64,token=AAAA">
+        `,
+        `
+          <base href="https://app.example.com/inbox?token=abc123#access_token=xyz">
+          <title>Inbox - acct_4242</title>
+          <link rel="stylesheet" href="https://app.example.com/app.css?token=abc123">
+        `
+      ),
+      [],
+      { queryParams: ['token'], patterns: ['acct_\\d+'], stripFragmentOrigins: ['https://app.example.com'] }
+    )
+
+    const doc = parse(html)
+    expect(doc.querySelector('base')?.getAttribute('href')).toBe('https://app.example.com/inbox?token=REDACTED')
+    expect(doc.title).toBe('Inbox - [REDACTED]')
+    expect(doc.getElementById('link')?.getAttribute('href')).toBe('https://app.example.com/settings?token=REDACTED')
+    expect(doc.querySelector('link')?.getAttribute('href')).toBe('https://app.example.com/app.css?token=REDACTED')
+    expect(doc.getElementById('logo')?.getAttribute('src')).toBe('https://cdn.example.com/logo.png?token=REDACTED')
+    expect(doc.getElementById('inline')?.getAttribute('src')).toBe('data:image/png;base64,token=AAAA')
+    expect(html).not.toContain('abc123')
+    expect(html).not.toContain('access_token')
+  })
+
+  it('applies the redaction rules to all text and text attributes', () => {
+    const html = finalizeSnapshot(
+      page(
+        `
+          <h1>Account <b>acct_4242</b></h1>
+          <textarea>Billing for acct_4242</textarea>
+          <input id="field" value="acct_4242" placeholder="e.g. acct_1000">
+          <img id="avatar" alt="acct_4242 avatar" title="Owner of acct_4242">
+          <span id="label" aria-label="acct_4242">Owner</span>
+        `,
+        '<style>.acct_4242 { color: red }</style>'
+      ),
+      [],
+      { ...noRules, patterns: ['acct_\\d+'] }
+    )
+
+    const doc = parse(html)
+    expect(doc.querySelector('h1')?.textContent).toBe('Account [REDACTED]')
+    expect(doc.querySelector('textarea')?.textContent).toBe('Billing for [REDACTED]')
+    expect(doc.getElementById('field')?.getAttribute('value')).toBe('[REDACTED]')
+    expect(doc.getElementById('field')?.getAttribute('placeholder')).toBe('e.g. [REDACTED]')
+    expect(doc.getElementById('avatar')?.getAttribute('alt')).toBe('[REDACTED] avatar')
+    expect(doc.getElementById('avatar')?.getAttribute('title')).toBe('Owner of [REDACTED]')
+    expect(doc.getElementById('label')?.getAttribute('aria-label')).toBe('[REDACTED]')
+    expect(doc.querySelector('style')?.textContent).toBe('.acct_4242 { color: red }')
+  })
+})
+
+describe('imageRegionsToPage', () => {
+  it('scales screenshot pixels to CSS pixels and offsets by the origin', () => {
+    const regions = imageRegionsToPage([{ x: 100, y: 40, width: 50, height: 20 }], { x: 0, y: 1000, scale: 2 })
+
+    expect(regions).toEqual([{ x: 50, y: 1020, width: 25, height: 10 }])
+  })
+
+  it('treats a missing scale as 1x', () => {
+    const regions = imageRegionsToPage([{ x: 1, y: 2, width: 3, height: 4 }], { x: 10, y: 10, scale: 0 })
+
+    expect(regions).toEqual([{ x: 11, y: 12, width: 3, height: 4 }])
+  })
+})
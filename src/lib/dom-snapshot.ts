@@ -0,0 +1,159 @@
+/**
+ * DOM snapshot redaction.
+ *
+ * The service worker serializes the page at capture time (see
+ * background/dom-snapshot.ts), tagging every element that shows content -
+ * text, images, form fields - with its position on the page. Before the
+ * snapshot is attached to a report, the elements under the screenshot's
+ * pixelated regions are blanked out, the regions are covered the same way
+ * the screenshot covers them, and the position tags are dropped. The
+ * redaction rules are applied to all of the page's text (title included),
+ * its text-bearing attributes and every URL the snapshot keeps (its base URL,
+ * links, stylesheets and images), the same as to the report metadata.
+ */
+
+import { createRedactor, type RedactionRules } from './redaction'
+
+/** Attribute holding an element's page rect, "x,y,width,height" in CSS pixels */
+export const SNAPSHOT_RECT_ATTRIBUTE = 'data-popshot-rect'
+
+/** Attribute holding a scrolled element's "scrollLeft,scrollTop" */
+export const SNAPSHOT_SCROLL_ATTRIBUTE = 'data-popshot-scroll'
+
+/** A rectangle on the page, in CSS pixels from the top-left of the document */
+export interface SnapshotRegion {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Characters that replace redacted text, so layout stays roughly the same */
+const REDACTED_CHAR = '█'
+
+/** Attributes holding URLs the serializer keeps absolute */
+const URL_ATTRIBUTES: [selector: string, attribute: string][] = [
+  ['base[href]', 'href'],
+  ['a[href]', 'href'],
+  ['link[href]', 'href'],
+  ['img[src]', 'src'],
+]
+
+/** Attributes holding text the page shows or announces */
+const TEXT_ATTRIBUTES = ['value', 'alt', 'title', 'placeholder', 'aria-label']
+
+/** Elements whose text isn't page content */
+const NON_CONTENT_ELEMENTS = new Set(['STYLE', 'SCRIPT', 'NOSCRIPT', 'TEMPLATE'])
+
+/**
+ * Redact the snapshot under the given page regions, apply the redaction
+ * rules and remove the position tags, returning the HTML to attach
+ */
+export function finalizeSnapshot(html: string, redactedRegions: SnapshotRegion[], rules: RedactionRules): string {
+  const doc = new DOMParser().parseFromString(html, 'text/html')
+
+  const redact = createRedactor(rules)
+  for (const [selector, attribute] of URL_ATTRIBUTES) {
+    for (const el of Array.from(doc.querySelectorAll(selector))) {
+      const value = el.getAttribute(attribute) ?? ''
+      if (!value.startsWith('data:')) el.setAttribute(attribute, redact.url(value))
+    }
+  }
+  const walker = doc.createTreeWalker(doc.documentElement, 4 /* NodeFilter.SHOW_TEXT */)
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!NON_CONTENT_ELEMENTS.has(node.parentElement?.tagName ?? '')) {
+      node.textContent = redact.text(node.textContent ?? '')
+    }
+  }
+  for (const attribute of TEXT_ATTRIBUTES) {
+    for (const el of Array.from(doc.querySelectorAll(`[${attribute}]`))) {
+      el.setAttribute(attribute, redact.text(el.getAttribute(attribute) ?? ''))
+    }
+  }
+
+  for (const el of Array.from(doc.querySelectorAll(`[${SNAPSHOT_RECT_ATTRIBUTE}]`))) {
+    const rect = parseRect(el.getAttribute(SNAPSHOT_RECT_ATTRIBUTE))
+    if (rect && redactedRegions.some((region) => intersects(rect, region))) {
+      redactElement(el)
+    }
+    el.removeAttribute(SNAPSHOT_RECT_ATTRIBUTE)
+  }
+
+  if (redactedRegions.length > 0 && doc.body) {
+    for (const region of redactedRegions) {
+      const cover = doc.createElement('div')
+      cover.setAttribute('data-popshot-redacted', '')
+      cover.setAttribute('style', [
+        'position:absolute', `left:${region.x}px`, `top:${region.y}px`,
+        `width:${region.width}px`, `height:${region.height}px`,
+        'z-index:2147483647', 'pointer-events:none',
+        'background:rgba(128,128,128,0.85)', 'backdrop-filter:blur(12px)',
+      ].join(';'))
+      doc.body.appendChild(cover)
+    }
+  }
+
+  return `<!DOCTYPE html>\n${doc.documentElement.outerHTML}`
+}
+
+/**
+ * Blank out what an element shows: its own text, image, field value and
+ * descriptive attributes. Descendants carry their own rects.
+ */
+function redactElement(el: Element): void {
+  for (const node of Array.from(el.childNodes)) {
+    if (node.nodeType === 3 /* Node.TEXT_NODE */) {
+      node.textContent = mask(node.textContent ?? '')
+    }
+  }
+
+  const tag = el.tagName.toLowerCase()
+  if (tag === 'img' || tag === 'video' || tag === 'iframe') {
+    el.removeAttribute('src')
+    el.removeAttribute('srcset')
+    el.removeAttribute('poster')
+    el.removeAttribute('srcdoc')
+  }
+  if (tag === 'input' && el.hasAttribute('value')) {
+    el.setAttribute('value', mask(el.getAttribute('value') ?? ''))
+  }
+  for (const attribute of ['alt', 'title', 'placeholder', 'aria-label']) {
+    if (el.hasAttribute(attribute)) {
+      el.setAttribute(attribute, mask(el.getAttribute(attribute) ?? ''))
+    }
+  }
+}
+
+function mask(text: string): string {
+  return text.replace(/\S/g, REDACTED_CHAR)
+}
+
+function parseRect(value: string | null): SnapshotRegion | null {
+  const parts = value?.split(',').map(Number)
+  if (!parts || parts.length !== 4 || parts.some((part) => !Number.isFinite(part))) {
+    return null
+  }
+  const [x, y, width, height] = parts
+  return { x, y, width, height }
+}
+
+function intersects(a: SnapshotRegion, b: SnapshotRegion): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
+
+/**
+ * Map rectangles in screenshot pixels to page regions, given where the
+ * screenshot's top-left pixel sits on the page (see StoredSnapshot.origin)
+ */
+export function imageRegionsToPage(
+  regions: SnapshotRegion[],
+  origin: { x: number; y: number; scale: number }
+): SnapshotRegion[] {
+  const scale = origin.scale || 1
+  return regions.map((region) => ({
+    x: origin.x + region.x / scale,
+    y: origin.y + region.y / scale,
+    width: region.width / scale,
+    height: region.height / scale,
+  }))
+}
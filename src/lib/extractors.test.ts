@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest'
+import { findExtractorsForUrl, formatExtractorLines, normalizeOrigin, parseExtractorLines } from './extractors'
+
+describe('parseExtractorLines', () => {
+  it('parses one extractor per line', () => {
+    const { extractors, invalid } = parseExtractorLines([
+      'Build = meta:build-sha',
+      'Tenant=global:__APP__.tenantId',
+      '',
+      '# comment',
+      'Plan = selector:#plan > span[data-x="1"]',
+      'Flags = localstorage:featureFlags',
+    ].join('\n'))
+
+    expect(invalid).toEqual([])
+    expect(extractors).toEqual([
+      { label: 'Build', source: 'meta', query: 'build-sha' },
+      { label: 'Tenant', source: 'global', query: '__APP__.tenantId' },
+      { label: 'Plan', source: 'selector', query: '#plan > span[data-x="1"]' },
+      { label: 'Flags', source: 'localStorage', query: 'featureFlags' },
+    ])
+  })
+
+  it('reports lines that do not parse', () => {
+    const { extractors, invalid } = parseExtractorLines('Build = meta:sha\nno equals here\nX = cookie:session')
+
+    expect(extractors).toHaveLength(1)
+    expect(invalid).toEqual([2, 3])
+  })
+
+  it('round-trips through formatExtractorLines', () => {
+    const text = 'Build = meta:build-sha\nTenant = global:__APP__.tenantId'
+
+    expect(formatExtractorLines(parseExtractorLines(text).extractors)).toBe(text)
+  })
+})
+
+describe('normalizeOrigin', () => {
+  it('normalizes typed origins', () => {
+    expect(normalizeOrigin('HTTPS://App.Example.com/')).toBe('https://app.example.com')
+    expect(normalizeOrigin('app.example.com/some/path')).toBe('https://app.example.com')
+    expect(normalizeOrigin('http://localhost:3000')).toBe('http://localhost:3000')
+  })
+
+  it('rejects empty and non-web input', () => {
+    expect(normalizeOrigin('  ')).toBeNull()
+    expect(normalizeOrigin('file:///tmp/a.html')).toBeNull()
+  })
+})
+
+describe('findExtractorsForUrl', () => {
+  const configs = [
+    { origin: 'https://app.example.com', extractors: [{ label: 'Build', source: 'meta' as const, query: 'sha' }] },
+    { origin: 'https://other.com', extractors: [{ label: 'Other', source: 'meta' as const, query: 'x' }] },
+  ]
+
+  it('returns the extractors for the exact origin', () => {
+    expect(findExtractorsForUrl(configs, 'https://app.example.com/orders/1').map((e) => e.label)).toEqual(['Build'])
+  })
+
+  it('ignores other origins and invalid URLs', () => {
+    expect(findExtractorsForUrl(configs, 'https://example.com/')).toEqual([])
+    expect(findExtractorsForUrl(configs, 'not a url')).toEqual([])
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Custom metadata extractors
+ *
+ * Per-origin rules, configured in Settings, that pull app-specific values -
+ * build SHA, tenant ID, feature flags - out of the page at capture time. The
+ * service worker runs them (see background/custom-metadata.ts) and the
+ * results are added to the report as extra metadata rows.
+ */
+
+/**
+ * Where an extractor reads its value from:
+ * - meta: content of <meta name="..."> (or property="...")
+ * - selector: text (or value, for form fields) of the first matching element
+ * - global: a dotted path from window, e.g. "__APP__.build.sha"
+ * - localStorage: a localStorage key
+ */
+export type ExtractorSource = 'meta' | 'selector' | 'global' | 'localStorage'
+
+export const EXTRACTOR_SOURCES: ExtractorSource[] = ['meta', 'selector', 'global', 'localStorage']
+
+export interface MetadataExtractor {
+  /** Row label in the report, e.g. "Build" */
+  label: string
+  source: ExtractorSource
+  /** Meta name, CSS selector, global path or storage key */
+  query: string
+}
+
+/** The extractors configured for one origin */
+export interface OriginExtractors {
+  /** e.g. "https://app.example.com" */
+  origin: string
+  extractors: MetadataExtractor[]
+}
+
+/** Extracted values longer than this are truncated */
+export const MAX_EXTRACTED_VALUE_LENGTH = 500
+
+/**
+ * The extractors that apply to a page URL (exact origin match)
+ */
+export function findExtractorsForUrl(configs: OriginExtractors[], url: string): MetadataExtractor[] {
+  let origin: string
+  try {
+    origin = new URL(url).origin
+  } catch {
+    return []
+  }
+  return configs
+    .filter((config) => normalizeOrigin(config.origin) === origin)
+    .flatMap((config) => config.extractors)
+}
+
+/**
+ * Normalize a user-typed origin ("app.example.com/", "HTTPS://App.Example.com")
+ * to URL.origin form. Returns null when it doesn't name a web origin.
+ */
+export function normalizeOrigin(input: string): string | null {
+  const trimmed = input.trim()
+  if (!trimmed) return null
+  try {
+    const parsed = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`)
+    return parsed.origin === 'null' ? null : parsed.origin
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse the Settings text form: one extractor per line as
+ * "Label = source:query", e.g. "Build = meta:build-sha". Blank lines and
+ * lines starting with # are skipped; anything else that doesn't parse is
+ * returned in `invalid` (1-based line numbers).
+ */
+export function parseExtractorLines(text: string): { extractors: MetadataExtractor[]; invalid: number[] } {
+  const extractors: MetadataExtractor[] = []
+  const invalid: number[] = []
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (!line || line.startsWith('#')) return
+
+    const match = line.match(/^(.+?)\s*=\s*([a-zA-Z]+)\s*:\s*(.+)$/)
+    const source = EXTRACTOR_SOURCES.find((candidate) => candidate.toLowerCase() === match?.[2].toLowerCase())
+    if (!match || !source) {
+      invalid.push(index + 1)
+      return
+    }
+    extractors.push({ label: match[1].trim(), source, query: match[3].trim() })
+  })
+
+  return { extractors, invalid }
+}
+
+/**
+ * Format extractors back into the Settings text form
+ */
+export function formatExtractorLines(extractors: MetadataExtractor[]): string {
+  return extractors.map((extractor) => `${extractor.label} = ${extractor.source}:${extractor.query}`).join('\n')
+}
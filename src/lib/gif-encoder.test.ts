@@ -0,0 +1,194 @@
+import { describe, it, expect } from 'vitest'
+import { GifEncoder, buildPalette, colorKey, lzwEncode } from './gif-encoder'
+
+/** Reference GIF LZW decoder, for round-tripping the encoder's output */
+function lzwDecode(data: Uint8Array, minCodeSize: number): number[] {
+  const clearCode = 1 << minCodeSize
+  const eoiCode = clearCode + 1
+  let codeSize = minCodeSize + 1
+  let table: number[][] = []
+  const reset = () => {
+    table = []
+    for (let i = 0; i < clearCode; i++) table.push([i])
+    table.push([], [])
+    codeSize = minCodeSize + 1
+  }
+  reset()
+
+  const output: number[] = []
+  let bitPos = 0
+  const read = () => {
+    let code = 0
+    for (let i = 0; i < codeSize; i++) {
+      const bit = (data[(bitPos + i) >> 3] >> ((bitPos + i) & 7)) & 1
+      code |= bit << i
+    }
+    bitPos += codeSize
+    return code
+  }
+
+  let previous: number[] | null = null
+  while (bitPos < data.length * 8) {
+    const code = read()
+    if (code === clearCode) {
+      reset()
+      previous = null
+      continue
+    }
+    if (code === eoiCode) break
+
+    let entry: number[]
+    if (code < table.length) {
+      entry = table[code]
+      if (previous) table.push([...previous, entry[0]])
+    } else {
+      entry = [...previous!, previous![0]]
+      table.push(entry)
+    }
+    output.push(...entry)
+    previous = entry
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++
+  }
+  return output
+}
+
+function solidFrame(width: number, height: number, rgb: [number, number, number]): Uint8ClampedArray {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([...rgb, 255], i)
+  }
+  return data
+}
+
+/** Count image descriptors by walking the GIF's blocks */
+function countFrames(gif: Uint8Array): number {
+  let pos = 13 + 256 * 3
+  let frames = 0
+  while (gif[pos] !== 0x3b) {
+    if (gif[pos] === 0x21) {
+      pos += 2
+    } else if (gif[pos] === 0x2c) {
+      frames++
+      pos += 11
+    } else {
+      throw new Error(`Unexpected block 0x${gif[pos].toString(16)} at ${pos}`)
+    }
+    // Skip sub-blocks
+    while (gif[pos] !== 0) pos += gif[pos] + 1
+    pos++
+  }
+  return frames
+}
+
+describe('lzwEncode', () => {
+  it('round-trips through a GIF LZW decoder', () => {
+    const indices = new Uint8Array(5000)
+    for (let i = 0; i < indices.length; i++) {
+      indices[i] = (i * 7 + (i >> 5)) % 200
+    }
+
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices))
+  })
+
+  it('round-trips data that fills the code table and forces a clear', () => {
+    // Pseudo-random indices rarely repeat, so the 4096-entry table overflows
+    let seed = 42
+    const indices = new Uint8Array(20000)
+    for (let i = 0; i < indices.length; i++) {
+      seed = (seed * 1103515245 + 12345) & 0x7fffffff
+      indices[i] = seed % 256
+    }
+
+    expect(lzwDecode(lzwEncode(indices, 8), 8)).toEqual(Array.from(indices))
+  })
+
+  it('compresses runs of one color', () => {
+    expect(lzwEncode(new Uint8Array(10000), 8).length).toBeLessThan(500)
+  })
+})
+
+describe('buildPalette', () => {
+  it('returns each color exactly when there are fewer than maxColors', () => {
+    const histogram = new Uint32Array(1 << 15)
+    histogram[colorKey(255, 0, 0)] = 10
+    histogram[colorKey(0, 0, 255)] = 5
+
+    const palette = buildPalette(histogram)
+
+    expect(palette).toHaveLength(2)
+    expect(palette).toContainEqual([255, 0, 0])
+    expect(palette).toContainEqual([0, 0, 255])
+  })
+
+  it('reduces many colors to at most maxColors', () => {
+    const histogram = new Uint32Array(1 << 15)
+    for (let key = 0; key < histogram.length; key += 7) {
+      histogram[key] = 1
+    }
+
+    expect(buildPalette(histogram, 16)).toHaveLength(16)
+  })
+})
+
+describe('GifEncoder', () => {
+  it('writes a looping GIF89a with one image per distinct frame', () => {
+    const encoder = new GifEncoder(4, 3)
+    encoder.addFrame(solidFrame(4, 3, [255, 0, 0]), 100)
+    encoder.addFrame(solidFrame(4, 3, [0, 255, 0]), 100)
+
+    const gif = encoder.encode()
+
+    expect(String.fromCharCode(...gif.slice(0, 6))).toBe('GIF89a')
+    expect(gif[6] | (gif[7] << 8)).toBe(4)
+    expect(gif[8] | (gif[9] << 8)).toBe(3)
+    expect(String.fromCharCode(...gif.slice(13 + 768 + 3, 13 + 768 + 14))).toBe('NETSCAPE2.0')
+    expect(countFrames(gif)).toBe(2)
+    expect(gif[gif.length - 1]).toBe(0x3b)
+  })
+
+  it('merges identical consecutive frames into one longer frame', () => {
+    const encoder = new GifEncoder(4, 3)
+    encoder.addFrame(solidFrame(4, 3, [255, 0, 0]), 100)
+    encoder.addFrame(solidFrame(4, 3, [255, 0, 0]), 100)
+    encoder.addFrame(solidFrame(4, 3, [255, 0, 0]), 100)
+
+    expect(encoder.frameCount).toBe(1)
+    const gif = encoder.encode()
+    expect(countFrames(gif)).toBe(1)
+    // Delay of the graphic control extension, in hundredths of a second
+    const gce = gif.indexOf(0xf9)
+    expect(gif[gce + 3] | (gif[gce + 4] << 8)).toBe(30)
+  })
+
+  it('only encodes the region that changed between frames', () => {
+    const first = solidFrame(10, 10, [255, 255, 255])
+    const second = solidFrame(10, 10, [255, 255, 255])
+    // Change a 2x2 block at (3, 4)
+    for (const [x, y] of [[3, 4], [4, 4], [3, 5], [4, 5]]) {
+      second.set([0, 0, 0, 255], (y * 10 + x) * 4)
+    }
+
+    const encoder = new GifEncoder(10, 10)
+    encoder.addFrame(first, 100)
+    encoder.addFrame(second, 100)
+    const gif = encoder.encode()
+
+    const descriptors: number[] = []
+    for (let i = gif.indexOf(0x2c); i !== -1; i = gif.indexOf(0x2c, i + 1)) {
+      // Image descriptors follow a graphic control extension's terminator
+      if (gif[i - 1] === 0 && gif[i - 8] === 0x21) descriptors.push(i)
+    }
+    const last = descriptors[descriptors.length - 1]
+    const read16 = (offset: number) => gif[last + offset] | (gif[last + offset + 1] << 8)
+
+    expect([read16(1), read16(3), read16(5), read16(7)]).toEqual([3, 4, 2, 2])
+  })
+
+  it('rejects frames smaller than the encoder size', () => {
+    expect(() => new GifEncoder(4, 4).addFrame(new Uint8ClampedArray(8), 100)).toThrow()
+  })
+
+  it('refuses to encode without frames', () => {
+    expect(() => new GifEncoder(4, 4).encode()).toThrow('No frames to encode')
+  })
+})
@@ -0,0 +1,413 @@
+/**
+ * Animated GIF encoder
+ *
+ * A small, dependency-free GIF89a writer for turning short tab recordings
+ * into GIFs that Fizzy and Basecamp preview inline. Tuned for screen
+ * content, which is mostly static between frames:
+ *
+ * - One global palette (median cut over every frame's colors), so frames
+ *   don't flicker between palettes and the color table is written once
+ * - Frames identical to the previous one are merged into its delay
+ * - Each frame only encodes the bounding box of pixels that changed, with
+ *   unchanged pixels inside the box left transparent
+ *
+ * Colors are reduced to 5 bits per channel as frames are added, which keeps
+ * the histogram small (32768 buckets) and halves the memory held per frame.
+ */
+
+/** Palette entries for image colors - index 255 is reserved for transparency */
+const MAX_PALETTE_COLORS = 255
+const TRANSPARENT_INDEX = 255
+
+/** 5 bits per channel */
+const COLOR_KEY_COUNT = 1 << 15
+
+/** GIF delays are in hundredths of a second; browsers treat < 2 as "slow" */
+const MIN_DELAY_CS = 2
+
+interface EncodedFrame {
+  /** One 15-bit color key per pixel */
+  keys: Uint16Array
+  delayMs: number
+}
+
+/**
+ * Reduce an RGB color to a 15-bit key (5 bits per channel)
+ */
+export function colorKey(r: number, g: number, b: number): number {
+  return ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+}
+
+/** Expand a 5-bit channel back to 8 bits */
+function expandChannel(value: number): number {
+  return (value << 3) | (value >> 2)
+}
+
+/**
+ * Median-cut palette from a color-key histogram. Returns at most maxColors
+ * [r, g, b] entries; fewer when the image has fewer distinct colors.
+ */
+export function buildPalette(histogram: Uint32Array, maxColors: number = MAX_PALETTE_COLORS): number[][] {
+  const used: number[] = []
+  for (let key = 0; key < histogram.length; key++) {
+    if (histogram[key] > 0) used.push(key)
+  }
+  if (used.length === 0) return [[0, 0, 0]]
+
+  const channel = (key: number, c: number) => (key >> (10 - c * 5)) & 31
+
+  // Split the box with the widest channel range until we have enough boxes
+  const boxes: number[][] = [used]
+  while (boxes.length < maxColors) {
+    let widest = -1
+    let widestRange = 0
+    let widestChannel = 0
+    boxes.forEach((box, i) => {
+      if (box.length < 2) return
+      for (let c = 0; c < 3; c++) {
+        let min = 31
+        let max = 0
+        for (const key of box) {
+          const v = channel(key, c)
+          if (v < min) min = v
+          if (v > max) max = v
+        }
+        if (max - min > widestRange) {
+          widest = i
+          widestRange = max - min
+          widestChannel = c
+        }
+      }
+    })
+    if (widest === -1) break
+
+    // Split at the pixel-count median, not the key median, so busy colors
+    // get more of the palette
+    const box = boxes[widest].sort((a, b) => channel(a, widestChannel) - channel(b, widestChannel))
+    const total = box.reduce((sum, key) => sum + histogram[key], 0)
+    let running = 0
+    let split = 1
+    for (; split < box.length - 1; split++) {
+      running += histogram[box[split - 1]]
+      if (running >= total / 2) break
+    }
+    boxes.splice(widest, 1, box.slice(0, split), box.slice(split))
+  }
+
+  // Each box becomes the count-weighted average of its colors
+  return boxes.map((box) => {
+    let weight = 0
+    const sums = [0, 0, 0]
+    for (const key of box) {
+      const count = histogram[key]
+      weight += count
+      for (let c = 0; c < 3; c++) sums[c] += channel(key, c) * count
+    }
+    return sums.map((sum) => expandChannel(Math.round(sum / weight)))
+  })
+}
+
+/**
+ * GIF-flavoured LZW compression of palette indices. Returns the raw code
+ * stream (not yet split into sub-blocks).
+ */
+export function lzwEncode(indices: Uint8Array, minCodeSize: number): Uint8Array {
+  const clearCode = 1 << minCodeSize
+  const eoiCode = clearCode + 1
+  const out = new ByteWriter(Math.max(256, indices.length >> 1))
+
+  let codeSize = minCodeSize + 1
+  let nextCode = eoiCode + 1
+  let table = new Map<number, number>()
+
+  let bitBuffer = 0
+  let bitCount = 0
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount
+    bitCount += codeSize
+    while (bitCount >= 8) {
+      out.byte(bitBuffer & 0xff)
+      bitBuffer >>>= 8
+      bitCount -= 8
+    }
+  }
+
+  emit(clearCode)
+  if (indices.length === 0) {
+    emit(eoiCode)
+    if (bitCount > 0) out.byte(bitBuffer & 0xff)
+    return out.bytes()
+  }
+
+  let current = indices[0]
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i]
+    const key = (current << 8) | k
+    const existing = table.get(key)
+    if (existing !== undefined) {
+      current = existing
+      continue
+    }
+
+    emit(current)
+    if (nextCode === 4096) {
+      // Table full - start over
+      emit(clearCode)
+      table = new Map()
+      codeSize = minCodeSize + 1
+      nextCode = eoiCode + 1
+    } else {
+      // Grow the code size just before the first code that wouldn't fit,
+      // which matches when the decoder (one entry behind) grows its own
+      if (nextCode >= 1 << codeSize) codeSize++
+      table.set(key, nextCode++)
+    }
+    current = k
+  }
+
+  emit(current)
+  emit(eoiCode)
+  if (bitCount > 0) out.byte(bitBuffer & 0xff)
+  return out.bytes()
+}
+
+/**
+ * Collects frames and writes them out as a looping animated GIF
+ */
+export class GifEncoder {
+  private frames: EncodedFrame[] = []
+  private histogram = new Uint32Array(COLOR_KEY_COUNT)
+
+  constructor(
+    readonly width: number,
+    readonly height: number
+  ) {}
+
+  /** Frames kept after merging duplicates */
+  get frameCount(): number {
+    return this.frames.length
+  }
+
+  /**
+   * Add an RGBA frame (e.g. ImageData.data) of the encoder's size, shown for
+   * delayMs. Alpha is ignored.
+   */
+  addFrame(rgba: Uint8ClampedArray, delayMs: number): void {
+    const pixelCount = this.width * this.height
+    if (rgba.length < pixelCount * 4) {
+      throw new Error(`Frame is smaller than ${this.width}x${this.height}`)
+    }
+
+    const keys = new Uint16Array(pixelCount)
+    for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+      keys[p] = colorKey(rgba[i], rgba[i + 1], rgba[i + 2])
+    }
+
+    const previous = this.frames[this.frames.length - 1]
+    if (previous && sameKeys(previous.keys, keys)) {
+      previous.delayMs += delayMs
+      return
+    }
+
+    for (let p = 0; p < pixelCount; p++) {
+      this.histogram[keys[p]]++
+    }
+    this.frames.push({ keys, delayMs })
+  }
+
+  /**
+   * Write the GIF. Throws if no frames were added.
+   */
+  encode(): Uint8Array<ArrayBuffer> {
+    if (this.frames.length === 0) {
+      throw new Error('No frames to encode')
+    }
+
+    const palette = buildPalette(this.histogram)
+    const lookup = buildLookup(this.histogram, palette)
+    const out = new ByteWriter(1024 * 64)
+
+    // Header and logical screen descriptor with a 256-entry global table
+    out.ascii('GIF89a')
+    out.uint16(this.width)
+    out.uint16(this.height)
+    out.byte(0xf7)
+    out.byte(0)
+    out.byte(0)
+    for (let i = 0; i < 256; i++) {
+      const color = palette[i] ?? [0, 0, 0]
+      out.byte(color[0])
+      out.byte(color[1])
+      out.byte(color[2])
+    }
+
+    // Loop forever (NETSCAPE2.0 application extension)
+    out.byte(0x21)
+    out.byte(0xff)
+    out.byte(11)
+    out.ascii('NETSCAPE2.0')
+    out.byte(3)
+    out.byte(1)
+    out.uint16(0)
+    out.byte(0)
+
+    let previous: Uint16Array | null = null
+    for (const frame of this.frames) {
+      const box = previous ? changedBounds(previous, frame.keys, this.width, this.height) : null
+      const left = box?.left ?? 0
+      const top = box?.top ?? 0
+      const width = box?.width ?? this.width
+      const height = box?.height ?? this.height
+
+      const indices = new Uint8Array(width * height)
+      for (let y = 0; y < height; y++) {
+        const row = (top + y) * this.width + left
+        for (let x = 0; x < width; x++) {
+          const key = frame.keys[row + x]
+          indices[y * width + x] = previous && previous[row + x] === key ? TRANSPARENT_INDEX : lookup[key]
+        }
+      }
+
+      // Graphic control extension: keep the previous frame (disposal 1),
+      // transparency on, delay in hundredths of a second
+      out.byte(0x21)
+      out.byte(0xf9)
+      out.byte(4)
+      out.byte((1 << 2) | 1)
+      out.uint16(Math.max(MIN_DELAY_CS, Math.round(frame.delayMs / 10)))
+      out.byte(TRANSPARENT_INDEX)
+      out.byte(0)
+
+      // Image descriptor (no local color table)
+      out.byte(0x2c)
+      out.uint16(left)
+      out.uint16(top)
+      out.uint16(width)
+      out.uint16(height)
+      out.byte(0)
+
+      out.byte(8)
+      const data = lzwEncode(indices, 8)
+      for (let i = 0; i < data.length; i += 255) {
+        const chunk = data.subarray(i, i + 255)
+        out.byte(chunk.length)
+        out.append(chunk)
+      }
+      out.byte(0)
+
+      previous = frame.keys
+    }
+
+    out.byte(0x3b)
+    return out.bytes()
+  }
+}
+
+function sameKeys(a: Uint16Array, b: Uint16Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+/**
+ * Nearest palette index for every color key that occurs in the histogram
+ */
+function buildLookup(histogram: Uint32Array, palette: number[][]): Uint8Array {
+  const lookup = new Uint8Array(COLOR_KEY_COUNT)
+  for (let key = 0; key < COLOR_KEY_COUNT; key++) {
+    if (histogram[key] === 0) continue
+    const r = expandChannel((key >> 10) & 31)
+    const g = expandChannel((key >> 5) & 31)
+    const b = expandChannel(key & 31)
+
+    let best = 0
+    let bestDistance = Number.POSITIVE_INFINITY
+    palette.forEach((color, i) => {
+      const distance = (color[0] - r) ** 2 + (color[1] - g) ** 2 + (color[2] - b) ** 2
+      if (distance < bestDistance) {
+        best = i
+        bestDistance = distance
+      }
+    })
+    lookup[key] = best
+  }
+  return lookup
+}
+
+/**
+ * Bounding box of the pixels that differ between two frames. Frames are
+ * deduplicated on add, so at least one pixel always differs.
+ */
+function changedBounds(
+  previous: Uint16Array,
+  current: Uint16Array,
+  width: number,
+  height: number
+): { left: number; top: number; width: number; height: number } {
+  let minX = width
+  let minY = height
+  let maxX = -1
+  let maxY = -1
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x
+      if (previous[i] !== current[i]) {
+        if (x < minX) minX = x
+        if (x > maxX) maxX = x
+        if (y < minY) minY = y
+        if (y > maxY) maxY = y
+      }
+    }
+  }
+  if (maxX === -1) {
+    return { left: 0, top: 0, width: 1, height: 1 }
+  }
+  return { left: minX, top: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+}
+
+/**
+ * Growable byte buffer
+ */
+class ByteWriter {
+  private buffer: Uint8Array<ArrayBuffer>
+  private length = 0
+
+  constructor(initialSize: number) {
+    this.buffer = new Uint8Array(initialSize)
+  }
+
+  byte(value: number): void {
+    this.reserve(1)
+    this.buffer[this.length++] = value
+  }
+
+  uint16(value: number): void {
+    this.byte(value & 0xff)
+    this.byte((value >> 8) & 0xff)
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i))
+  }
+
+  append(bytes: Uint8Array): void {
+    this.reserve(bytes.length)
+    this.buffer.set(bytes, this.length)
+    this.length += bytes.length
+  }
+
+  bytes(): Uint8Array<ArrayBuffer> {
+    return this.buffer.slice(0, this.length)
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + count) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+  }
+}
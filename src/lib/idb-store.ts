@@ -0,0 +1,73 @@
+/**
+ * IndexedDB plumbing shared by the capture stores (image-store.ts,
+ * snapshot-store.ts, recording-store.ts)
+ *
+ * Each store is its own database holding one object store of records keyed
+ * by `id` and stamped with `createdAt`, which background/stored-captures.ts
+ * uses to prune records abandoned by closed pages. A connection is opened per
+ * operation and closed straight after, so a page or the service worker never
+ * holds one open between captures.
+ */
+
+export interface IdbStore {
+  /** Run one request against the object store and resolve with its result */
+  withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T>
+  /** Delete every record created before `cutoff` (epoch ms), resolving with how many were deleted */
+  deleteOlderThan(cutoff: number): Promise<number>
+}
+
+/**
+ * Open (and on first use create) a database with a single object store
+ */
+export function createIdbStore(dbName: string, storeName: string): IdbStore {
+  const openDatabase = (): Promise<IDBDatabase> =>
+    new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(storeName, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+
+  return {
+    async withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+      const db = await openDatabase()
+      try {
+        return await new Promise<T>((resolve, reject) => {
+          const request = fn(db.transaction(storeName, mode).objectStore(storeName))
+          request.onsuccess = () => resolve(request.result as T)
+          request.onerror = () => reject(request.error)
+        })
+      } finally {
+        db.close()
+      }
+    },
+
+    async deleteOlderThan(cutoff: number): Promise<number> {
+      const db = await openDatabase()
+      try {
+        return await new Promise<number>((resolve, reject) => {
+          const transaction = db.transaction(storeName, 'readwrite')
+          let deleted = 0
+          const request = transaction.objectStore(storeName).openCursor()
+          request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor) return
+            const { createdAt } = cursor.value as { createdAt?: number }
+            // Records without a timestamp can't be dated, so they go too
+            if (!(typeof createdAt === 'number' && createdAt >= cutoff)) {
+              cursor.delete()
+              deleted++
+            }
+            cursor.continue()
+          }
+          transaction.oncomplete = () => resolve(deleted)
+          transaction.onerror = () => reject(transaction.error)
+        })
+      } finally {
+        db.close()
+      }
+    },
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage for captured screenshots
+ *
+ * Screenshots live in IndexedDB rather than chrome.storage.session: a
+ * full-page capture is a PNG up to 16384px tall at device-pixel width, which
+ * easily outgrows the session area's 10 MB. Whatever captures a screenshot
+ * writes it here and puts only its id in the session; the annotate page reads
+ * it by id and deletes it once the report is sent or discarded.
+ */
+
+import { createIdbStore } from './idb-store'
+
+const DB_NAME = 'popshot-images'
+const STORE_NAME = 'images'
+
+export interface StoredImage {
+  id: string
+  /** The captured screenshot as a PNG data URL */
+  dataUrl: string
+  createdAt: number
+}
+
+const { withStore, deleteOlderThan } = createIdbStore(DB_NAME, STORE_NAME)
+
+/**
+ * Save a captured screenshot under a new id, returning the id
+ */
+export async function saveImage(dataUrl: string): Promise<string> {
+  const id = crypto.randomUUID()
+  await withStore('readwrite', (store) => store.put({ id, dataUrl, createdAt: Date.now() } satisfies StoredImage))
+  return id
+}
+
+/**
+ * Get a captured screenshot by id
+ */
+export async function getImage(id: string): Promise<StoredImage | undefined> {
+  return withStore<StoredImage | undefined>('readonly', (store) => store.get(id))
+}
+
+/**
+ * Delete a captured screenshot by id (no-op if it doesn't exist)
+ */
+export async function deleteImage(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Delete captured screenshots created before `cutoff` (epoch ms), returning how many were deleted
+ */
+export async function deleteImagesOlderThan(cutoff: number): Promise<number> {
+  return deleteOlderThan(cutoff)
+}
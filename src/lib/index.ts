@@ -20,6 +20,7 @@ export {
   type Tag as IntegrationTag,
   type UploadResult,
   type BugReport,
+  type ReportAttachment,
   type SubmissionResult,
   type IntegrationCredentials,
   type FizzyCredentials,
@@ -707,11 +707,11 @@ describe('BasecampIntegration multi-account', () => {
     const result = await integration.submitReport({
       title: 'Bug title',
       description: 'It broke',
-      imageDataUrl: 'data:image/png;base64,AAAA',
+      imageDataUrls: ['data:image/png;base64,AAAA'],
       destinationId: '7',
       accountId: '67890',
       subDestinationId: '11',
-      metadataHtml: '',
+      formattedMetadata: '',
     })
 
     expect(result.id).toBe('99')
@@ -720,4 +720,97 @@ describe('BasecampIntegration multi-account', () => {
     // account the picked destination belongs to, not the default account.
     expect(calls.every(url => url.includes('/67890/'))).toBe(true)
   })
+
+  it('uploads the GIF and attachments after the screenshot and embeds them in order', async () => {
+    setMockStorage(multiAccountCredentials)
+
+    const uploads: { name: string; contentType: string }[] = []
+    let todoBody: { description?: string } = {}
+    setMessageHandler((message) => {
+      const { url, headers, body } = message as {
+        url: string
+        headers: Record<string, string>
+        body?: string
+      }
+      if (url.includes('/attachments.json')) {
+        const name = new URL(url).searchParams.get('name')!
+        uploads.push({ name, contentType: headers['Content-Type'] })
+        return {
+          success: true,
+          data: { attachable_sgid: `sgid-${uploads.length}`, filename: name, content_type: headers['Content-Type'] },
+        }
+      }
+      if (url.includes('/todolists/11/todos.json')) {
+        todoBody = JSON.parse(body!)
+        return { success: true, data: { id: 99, app_url: 'https://bc.example/todo/99', content: 'Bug title' } }
+      }
+      return { success: false, status: 404, error: `unexpected request: ${url}` }
+    })
+
+    const integration = new BasecampIntegration()
+    await integration.submitReport({
+      title: 'Bug title',
+      description: 'It broke',
+      imageDataUrls: ['data:image/png;base64,AAAA'],
+      destinationId: '7',
+      accountId: '67890',
+      subDestinationId: '11',
+      formattedMetadata: '',
+      gifDataUrl: 'data:image/gif;base64,R0lG',
+      attachments: [
+        { data: new Blob(['webm'], { type: 'video/webm' }), filename: 'recording.webm' },
+      ],
+    })
+
+    expect(uploads).toHaveLength(3)
+    expect(uploads[0].contentType).toBe('image/png')
+    expect(uploads[1].contentType).toBe('image/gif')
+    expect(uploads[2]).toEqual({ name: 'recording.webm', contentType: 'video/webm' })
+    expect(todoBody.description).toContain(
+      '<bc-attachment sgid="sgid-1"></bc-attachment>\n' +
+      '<bc-attachment sgid="sgid-2"></bc-attachment>\n' +
+      '<bc-attachment sgid="sgid-3"></bc-attachment>'
+    )
+  })
+
+  it('uploads every screenshot in order', async () => {
+    setMockStorage(multiAccountCredentials)
+
+    const names: string[] = []
+    let todoBody: { description?: string } = {}
+    setMessageHandler((message) => {
+      const { url, body } = message as { url: string; body?: string }
+      if (url.includes('/attachments.json')) {
+        const name = new URL(url).searchParams.get('name')!
+        names.push(name)
+        return {
+          success: true,
+          data: { attachable_sgid: `sgid-${names.length}`, filename: name, content_type: 'image/png' },
+        }
+      }
+      if (url.includes('/todolists/11/todos.json')) {
+        todoBody = JSON.parse(body!)
+        return { success: true, data: { id: 99, app_url: 'https://bc.example/todo/99', content: 'Bug title' } }
+      }
+      return { success: false, status: 404, error: `unexpected request: ${url}` }
+    })
+
+    const integration = new BasecampIntegration()
+    await integration.submitReport({
+      title: 'Bug title',
+      description: 'Before and after',
+      imageDataUrls: ['data:image/png;base64,AAAA', 'data:image/png;base64,BBBB'],
+      destinationId: '7',
+      accountId: '67890',
+      subDestinationId: '11',
+      formattedMetadata: '',
+    })
+
+    expect(names).toHaveLength(2)
+    expect(names[0]).toMatch(/^screenshot-\d+-1\.png$/)
+    expect(names[1]).toMatch(/^screenshot-\d+-2\.png$/)
+    expect(todoBody.description).toContain(
+      '<bc-attachment sgid="sgid-1"></bc-attachment>\n<bc-attachment sgid="sgid-2"></bc-attachment>'
+    )
+  })
 })
@@ -16,6 +16,7 @@ import type {
   BasecampStoredAccount,
 } from './types'
 import { IntegrationError } from './types'
+import { screenshotFilenames } from './report-files'
 import {
   validateAccessToken,
   getAuthorization,
@@ -59,6 +60,7 @@ export class BasecampIntegration implements Integration {
   readonly type = 'basecamp' as const
   readonly name = 'Basecamp'
   readonly icon = 'basecamp' // Can be used to reference an icon asset
+  readonly preferredFormat = 'html' as const
 
   /**
    * Check if Basecamp credentials are stored
@@ -256,28 +258,18 @@ export class BasecampIntegration implements Integration {
     filename: string,
     accountId?: string
   ): Promise<UploadResult> {
-    return this.withAuthErrorHandling(async () => {
-      const { accessToken, accountId: defaultAccountId } = await this.getCredentials()
-      const resolvedAccountId = this.resolveAccountId(accountId, defaultAccountId)
-
-      // Convert data URL to binary
-      const { buffer, mimeType } = dataUrlToArrayBuffer(imageDataUrl)
-
-      // Upload the attachment
-      const attachment = await uploadAttachment(
-        accessToken,
-        resolvedAccountId,
-        filename,
-        mimeType,
-        buffer
-      )
+    // Convert data URL to binary
+    const { buffer, mimeType } = dataUrlToArrayBuffer(imageDataUrl)
+    return this.uploadBuffer(buffer, mimeType, filename, accountId)
+  }
 
-      return {
-        sgid: attachment.attachable_sgid,
-        filename: attachment.filename,
-        contentType: attachment.content_type,
-      }
-    })
+  /**
+   * Upload any file to Basecamp (e.g. a recording). Account scoping works as
+   * for uploadImage.
+   */
+  async uploadFile(file: Blob, filename: string, accountId?: string): Promise<UploadResult> {
+    const buffer = await file.arrayBuffer()
+    return this.uploadBuffer(buffer, file.type || 'application/octet-stream', filename, accountId)
   }
 
   /**
@@ -300,15 +292,25 @@ export class BasecampIntegration implements Integration {
 
       const subDestId = parseInt(report.subDestinationId, 10)
 
-      // Upload the image first
-      const filename = `screenshot-${Date.now()}.png`
-      const upload = await this.uploadImage(report.imageDataUrl, filename, report.accountId)
+      // Upload the screenshots first, then the GIF and any attachments - one
+      // at a time so they embed in order
+      const uploads: UploadResult[] = []
+      const filenames = screenshotFilenames(report.imageDataUrls.length)
+      for (const [i, imageDataUrl] of report.imageDataUrls.entries()) {
+        uploads.push(await this.uploadImage(imageDataUrl, filenames[i], report.accountId))
+      }
+      if (report.gifDataUrl) {
+        uploads.push(await this.uploadImage(report.gifDataUrl, `recording-${Date.now()}.gif`, report.accountId))
+      }
+      for (const attachment of report.attachments ?? []) {
+        uploads.push(await this.uploadFile(attachment.data, attachment.filename, report.accountId))
+      }
 
-      // Build the content with description (which already includes metadata) and embedded image
-      // Note: report.description already contains metadataHtml from the AnnotatePage
+      // Build the content with description (which already includes metadata) and embedded files
+      // Note: report.description already contains the formatted metadata from the AnnotatePage
       const content = `
-${report.description || report.metadataHtml}
-${this.getImageEmbedHtml(upload)}
+${report.description || report.formattedMetadata}
+${uploads.map((u) => this.getImageEmbedHtml(u)).join('\n')}
 `.trim()
 
       if (destinationType === 'card') {
@@ -340,7 +342,7 @@ ${this.getImageEmbedHtml(upload)}
   }
 
   /**
-   * Get the HTML for embedding an uploaded image (Basecamp uses bc-attachment)
+   * Get the HTML for embedding an uploaded file (Basecamp uses bc-attachment)
    * Note: Omitting the caption attribute allows Basecamp to render it as an inline image preview
    */
   getImageEmbedHtml(upload: UploadResult): string {
@@ -349,6 +351,36 @@ ${this.getImageEmbedHtml(upload)}
 
   // ============ Private helpers ============
 
+  /**
+   * Upload raw bytes as an attachment in the given (or default) account
+   */
+  private async uploadBuffer(
+    buffer: ArrayBuffer,
+    mimeType: string,
+    filename: string,
+    accountId?: string
+  ): Promise<UploadResult> {
+    return this.withAuthErrorHandling(async () => {
+      const { accessToken, accountId: defaultAccountId } = await this.getCredentials()
+      const resolvedAccountId = this.resolveAccountId(accountId, defaultAccountId)
+
+      // Upload the attachment
+      const attachment = await uploadAttachment(
+        accessToken,
+        resolvedAccountId,
+        filename,
+        mimeType,
+        buffer
+      )
+
+      return {
+        sgid: attachment.attachable_sgid,
+        filename: attachment.filename,
+        contentType: attachment.content_type,
+      }
+    })
+  }
+
   /**
    * Numeric account id for an API call. UI surfaces pass the account of the
    * destination the user picked (Destination.accountId / BugReport.accountId);
@@ -14,6 +14,7 @@ import type {
   SubmissionResult,
 } from './types'
 import { IntegrationError } from './types'
+import { screenshotFilenames } from './report-files'
 import {
   validateApiKey,
   getIdentity,
@@ -37,6 +38,7 @@ export class FizzyIntegration implements Integration {
   readonly type = 'fizzy' as const
   readonly name = 'Fizzy'
   readonly icon = 'fizzy' // Can be used to reference an icon asset
+  readonly preferredFormat = 'html' as const
 
   /**
    * Check if Fizzy credentials are stored
@@ -121,7 +123,18 @@ export class FizzyIntegration implements Integration {
   /**
    * Upload an image to Fizzy using ActiveStorage direct upload
    */
-  async uploadImage(imageDataUrl: string, filename: string): Promise<UploadResult> {
+  async uploadImage(imageDataUrl: string, filename: string, accountSlug?: string): Promise<UploadResult> {
+    return this.uploadFile(dataUrlToBlob(imageDataUrl), filename, accountSlug)
+  }
+
+  /**
+   * Upload any file to Fizzy using ActiveStorage direct upload
+   */
+  async uploadFile(file: Blob, filename: string, accountSlug?: string): Promise<UploadResult> {
+    if (accountSlug) {
+      return this.uploadFileForAccount(file, filename, accountSlug)
+    }
+
     const apiKey = await this.getApiKey()
     
     // We need an account slug for the upload - get it from identity
@@ -131,29 +144,7 @@ export class FizzyIntegration implements Integration {
     }
     
     // Use first account for upload (the card creation will use the correct account)
-    const accountSlug = identity.accounts[0].slug
-
-    // Convert data URL to blob
-    const blob = dataUrlToBlob(imageDataUrl)
-    const arrayBuffer = await blob.arrayBuffer()
-    const checksum = await calculateChecksum(arrayBuffer)
-
-    // Create direct upload
-    const directUpload = await createDirectUpload(apiKey, accountSlug, {
-      filename,
-      byteSize: blob.size,
-      checksum,
-      contentType: blob.type,
-    })
-
-    // Upload the file to S3
-    await uploadFile(directUpload.direct_upload.url, directUpload.direct_upload.headers, blob)
-
-    return {
-      sgid: directUpload.attachable_sgid,
-      filename,
-      contentType: blob.type,
-    }
+    return this.uploadFileForAccount(file, filename, identity.accounts[0].slug)
   }
 
   /**
@@ -162,15 +153,25 @@ export class FizzyIntegration implements Integration {
   async submitReport(report: BugReport): Promise<SubmissionResult> {
     const apiKey = await this.getApiKey()
 
-    // Upload the image first
-    const filename = `screenshot-${Date.now()}.png`
-    const upload = await this.uploadImageForAccount(report.imageDataUrl, filename, report.accountId)
+    // Upload the screenshots first, then the GIF and any attachments - one
+    // at a time so they embed in order
+    const uploads: UploadResult[] = []
+    const filenames = screenshotFilenames(report.imageDataUrls.length)
+    for (const [i, imageDataUrl] of report.imageDataUrls.entries()) {
+      uploads.push(await this.uploadFileForAccount(dataUrlToBlob(imageDataUrl), filenames[i], report.accountId))
+    }
+    if (report.gifDataUrl) {
+      uploads.push(await this.uploadImage(report.gifDataUrl, `recording-${Date.now()}.gif`, report.accountId))
+    }
+    for (const attachment of report.attachments ?? []) {
+      uploads.push(await this.uploadFileForAccount(attachment.data, attachment.filename, report.accountId))
+    }
 
-    // Build the description with embedded image
-    // Note: report.description already contains the metadata HTML from AnnotatePage
+    // Build the description with embedded images and attachments
+    // Note: report.description already contains the formatted metadata from AnnotatePage
     const description = `
 ${report.description || ''}
-${this.getImageEmbedHtml(upload)}
+${uploads.map((u) => this.getImageEmbedHtml(u)).join('\n')}
 `.trim()
 
     // Create the card
@@ -188,7 +189,7 @@ ${this.getImageEmbedHtml(upload)}
   }
 
   /**
-   * Get the HTML for embedding an uploaded image (Fizzy uses action-text-attachment)
+   * Get the HTML for embedding an uploaded file (Fizzy uses action-text-attachment)
    */
   getImageEmbedHtml(upload: UploadResult): string {
     return `<action-text-attachment sgid="${upload.sgid}" content-type="${upload.contentType}" filename="${upload.filename}"></action-text-attachment>`
@@ -208,17 +209,15 @@ ${this.getImageEmbedHtml(upload)}
   }
 
   /**
-   * Upload an image for a specific account
+   * Upload a file for a specific account
    */
-  private async uploadImageForAccount(
-    imageDataUrl: string,
+  private async uploadFileForAccount(
+    blob: Blob,
     filename: string,
     accountSlug: string
   ): Promise<UploadResult> {
     const apiKey = await this.getApiKey()
 
-    // Convert data URL to blob
-    const blob = dataUrlToBlob(imageDataUrl)
     const arrayBuffer = await blob.arrayBuffer()
     const checksum = await calculateChecksum(arrayBuffer)
 
@@ -227,7 +226,7 @@ ${this.getImageEmbedHtml(upload)}
       filename,
       byteSize: blob.size,
       checksum,
-      contentType: blob.type,
+      contentType: blob.type || 'application/octet-stream',
     })
 
     // Upload the file to S3
@@ -236,7 +235,7 @@ ${this.getImageEmbedHtml(upload)}
     return {
       sgid: directUpload.attachable_sgid,
       filename,
-      contentType: blob.type,
+      contentType: blob.type || 'application/octet-stream',
     }
   }
 
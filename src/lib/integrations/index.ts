@@ -10,6 +10,7 @@ export type {
   Tag,
   UploadResult,
   BugReport,
+  ReportAttachment,
   SubmissionResult,
   IntegrationCredentials,
   FizzyCredentials,
@@ -0,0 +1,15 @@
+/**
+ * Shared naming for the files integrations upload with a report
+ */
+
+/**
+ * Filenames for a report's screenshots. A single screenshot keeps the
+ * original `screenshot-<timestamp>.png`; several are numbered in order so
+ * they sort the same way they are embedded.
+ */
+export function screenshotFilenames(count: number, timestamp: number = Date.now()): string[] {
+  if (count === 1) {
+    return [`screenshot-${timestamp}.png`]
+  }
+  return Array.from({ length: count }, (_, i) => `screenshot-${timestamp}-${i + 1}.png`)
+}
@@ -4,6 +4,8 @@
  * These define the common contract that all integrations (Fizzy, Basecamp, etc.) must implement.
  */
 
+import type { ReportFormat } from '../report-format'
+
 /**
  * Supported integration types
  */
@@ -58,14 +60,23 @@ export interface UploadResult {
   contentType: string
 }
 
+/**
+ * An extra file submitted with a bug report (e.g. a tab recording)
+ */
+export interface ReportAttachment {
+  /** The file contents; its type is used as the upload content type */
+  data: Blob
+  filename: string
+}
+
 /**
  * A bug report to be submitted
  */
 export interface BugReport {
   title: string
   description: string
-  /** The annotated screenshot as a data URL */
-  imageDataUrl: string
+  /** The annotated screenshots as data URLs, uploaded and embedded in order */
+  imageDataUrls: string[]
   /** Primary destination (board/project) */
   destinationId: string
   /** Account/workspace slug or ID */
@@ -74,8 +85,15 @@ export interface BugReport {
   subDestinationId?: string
   /** Optional tag IDs to apply */
   tagIds?: string[]
-  /** Page metadata formatted as HTML */
-  metadataHtml: string
+  /** Page metadata formatted in the integration's preferredFormat */
+  formattedMetadata: string
+  /**
+   * Animated GIF (as a data URL) uploaded through uploadImage and embedded
+   * right after the screenshot, so it plays inline
+   */
+  gifDataUrl?: string
+  /** Extra files uploaded after the screenshot and embedded below it, in order */
+  attachments?: ReportAttachment[]
 }
 
 /**
@@ -222,6 +240,12 @@ export interface Integration {
   
   /** Icon identifier or URL */
   readonly icon: string
+
+  /**
+   * The format the integration's API expects report bodies in: 'html' for
+   * rich-text APIs, 'markdown' for trackers that render Markdown
+   */
+  readonly preferredFormat: ReportFormat
   
   /**
    * Check if this integration is configured (has credentials)
@@ -268,6 +292,13 @@ export interface Integration {
    * the integration's default account is used.
    */
   uploadImage(imageDataUrl: string, filename: string, accountId?: string): Promise<UploadResult>
+
+  /**
+   * Upload an arbitrary file (e.g. a WebM recording) and get back an SGID
+   * for embedding. The blob's type is sent as the content type. `accountId`
+   * behaves as for uploadImage.
+   */
+  uploadFile(file: Blob, filename: string, accountId?: string): Promise<UploadResult>
   
   /**
    * Submit a bug report
@@ -275,7 +306,7 @@ export interface Integration {
   submitReport(report: BugReport): Promise<SubmissionResult>
   
   /**
-   * Get the HTML for embedding an uploaded image in rich text
+   * Get the HTML for embedding an uploaded image (or other file) in rich text
    * Different integrations use different formats (action-text-attachment vs bc-attachment)
    */
   getImageEmbedHtml(upload: UploadResult): string
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest'
+import { connectorSegment, placeInset } from './magnifier-geometry'
+
+const bounds = { x: 0, y: 0, width: 1000, height: 600 }
+
+describe('placeInset', () => {
+  it('puts the enlarged inset to the right of the source when there is room', () => {
+    expect(placeInset({ x: 100, y: 200, width: 50, height: 40 }, 3, bounds)).toEqual({
+      x: 174,
+      y: 160,
+      width: 150,
+      height: 120,
+    })
+  })
+
+  it('falls back to the left near the right edge', () => {
+    const inset = placeInset({ x: 900, y: 200, width: 50, height: 40 }, 3, bounds)
+
+    expect(inset.x).toBe(900 - 24 - 150)
+  })
+
+  it('goes below or above a source spanning most of the width', () => {
+    const inset = placeInset({ x: 100, y: 50, width: 300, height: 40 }, 3, bounds)
+
+    expect(inset).toEqual({ x: 0, y: 114, width: 900, height: 120 })
+  })
+
+  it('keeps the inset inside the bounds', () => {
+    const inset = placeInset({ x: 980, y: 580, width: 20, height: 20 }, 3, bounds)
+
+    expect(inset.x + inset.width).toBeLessThanOrEqual(1000)
+    expect(inset.y + inset.height).toBeLessThanOrEqual(600)
+    expect(inset.y).toBeGreaterThanOrEqual(0)
+  })
+
+  it('shrinks the zoom for sources too big to enlarge fully', () => {
+    const inset = placeInset({ x: 0, y: 0, width: 400, height: 300 }, 3, bounds)
+
+    expect(inset.width).toBe(800)
+    expect(inset.height).toBe(600)
+  })
+})
+
+describe('connectorSegment', () => {
+  it('joins the facing edges of the source and the inset', () => {
+    const segment = connectorSegment({ x: 0, y: 0, width: 20, height: 20 }, { x: 100, y: -20, width: 60, height: 60 })
+
+    expect(segment).toEqual({ start: { x: 20, y: 10 }, end: { x: 100, y: 10 } })
+  })
+
+  it('follows the line between the centers diagonally', () => {
+    const segment = connectorSegment({ x: 0, y: 0, width: 20, height: 20 }, { x: 100, y: 100, width: 20, height: 20 })
+
+    expect(segment).toEqual({ start: { x: 20, y: 20 }, end: { x: 100, y: 100 } })
+  })
+
+  it('is null when the boxes overlap', () => {
+    expect(connectorSegment({ x: 0, y: 0, width: 50, height: 50 }, { x: 40, y: 40, width: 50, height: 50 })).toBeNull()
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * Magnifier geometry
+ *
+ * A magnifier is a source region on the screenshot plus an enlarged inset
+ * showing it, optionally joined by a connector line. Boxes here are
+ * axis-aligned, in canvas coordinates.
+ */
+
+export interface Box {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+/** How much a new inset enlarges its source region */
+export const MAGNIFIER_ZOOM = 3
+
+/** Space between a source region and its new inset */
+const INSET_GAP = 24
+
+/**
+ * Where to put a new inset for `source`: `zoom` times its size (shrunk to
+ * fit `bounds` if need be), beside it on whichever side has room - right,
+ * left, below, above - and otherwise as close to it as `bounds` allow
+ */
+export function placeInset(source: Box, zoom: number, bounds: Box): Box {
+  const fit = Math.min(zoom, bounds.width / source.width, bounds.height / source.height)
+  const width = source.width * fit
+  const height = source.height * fit
+  const centerY = source.y + source.height / 2 - height / 2
+  const centerX = source.x + source.width / 2 - width / 2
+
+  const candidates: Point[] = [
+    { x: source.x + source.width + INSET_GAP, y: centerY },
+    { x: source.x - INSET_GAP - width, y: centerY },
+    { x: centerX, y: source.y + source.height + INSET_GAP },
+    { x: centerX, y: source.y - INSET_GAP - height },
+  ]
+  const inside = (p: Point) =>
+    p.x >= bounds.x && p.x + width <= bounds.x + bounds.width && p.y >= bounds.y && p.y + height <= bounds.y + bounds.height
+  const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value))
+
+  // Sides where only the cross axis overflows are still fine once clamped
+  const side =
+    candidates.slice(0, 2).find((p) => inside({ x: p.x, y: clamp(p.y, bounds.y, bounds.y + bounds.height - height) })) ??
+    candidates.slice(2).find((p) => inside({ x: clamp(p.x, bounds.x, bounds.x + bounds.width - width), y: p.y })) ??
+    candidates[0]
+
+  return {
+    x: clamp(side.x, bounds.x, bounds.x + bounds.width - width),
+    y: clamp(side.y, bounds.y, bounds.y + bounds.height - height),
+    width,
+    height,
+  }
+}
+
+/**
+ * The connector between a source region and its inset: the part of the line
+ * between their centers that lies outside both boxes, or null when they
+ * overlap
+ */
+export function connectorSegment(source: Box, inset: Box): { start: Point; end: Point } | null {
+  if (
+    source.x < inset.x + inset.width &&
+    inset.x < source.x + source.width &&
+    source.y < inset.y + inset.height &&
+    inset.y < source.y + source.height
+  ) {
+    return null
+  }
+  const from = center(source)
+  const to = center(inset)
+  return { start: exitPoint(source, from, to), end: exitPoint(inset, to, from) }
+}
+
+function center(box: Box): Point {
+  return { x: box.x + box.width / 2, y: box.y + box.height / 2 }
+}
+
+/** Where the line from the box's center `from` towards `to` leaves the box */
+function exitPoint(box: Box, from: Point, to: Point): Point {
+  const dx = to.x - from.x
+  const dy = to.y - from.y
+  const t = Math.min(
+    dx === 0 ? Infinity : box.width / 2 / Math.abs(dx),
+    dy === 0 ? Infinity : box.height / 2 / Math.abs(dy)
+  )
+  return { x: from.x + dx * t, y: from.y + dy * t }
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { constrainToAxis, formatCssPixels, formatCssSize, rulerTicks, toCssPixels } from './measure'
+
+describe('toCssPixels', () => {
+  it('undoes the canvas scale and the device pixel ratio', () => {
+    // A 2x screenshot shown at half size: one canvas pixel per CSS pixel
+    expect(toCssPixels(16, 0.5, 2)).toBe(16)
+    expect(toCssPixels(48, 0.75, 1)).toBe(64)
+  })
+
+  it('treats a missing ratio as 1', () => {
+    expect(toCssPixels(10, 1, 0)).toBe(10)
+  })
+})
+
+describe('formatCssPixels', () => {
+  it('shows whole pixels without decimals', () => {
+    expect(formatCssPixels(16)).toBe('16px')
+    expect(formatCssPixels(15.98)).toBe('16px')
+  })
+
+  it('keeps one decimal for fractions', () => {
+    expect(formatCssPixels(12.5)).toBe('12.5px')
+    expect(formatCssPixels(1 / 3)).toBe('0.3px')
+  })
+})
+
+describe('formatCssSize', () => {
+  it('shows width by height', () => {
+    expect(formatCssSize(120, 47.5)).toBe('120 × 47.5px')
+  })
+})
+
+describe('constrainToAxis', () => {
+  it('snaps to whichever axis the line is closer to', () => {
+    expect(constrainToAxis({ x: 10, y: 10 }, { x: 50, y: 14 })).toEqual({ x: 50, y: 10 })
+    expect(constrainToAxis({ x: 10, y: 10 }, { x: 6, y: 60 })).toEqual({ x: 10, y: 60 })
+  })
+})
+
+describe('rulerTicks', () => {
+  it('spaces ticks and labels to stay readable', () => {
+    const ticks = rulerTicks(100, 1)
+
+    expect(ticks.slice(0, 3).map((tick) => tick.value)).toEqual([0, 10, 20])
+    expect(ticks.filter((tick) => tick.labeled).map((tick) => tick.value)).toEqual([0, 50, 100])
+  })
+
+  it('uses finer ticks when zoomed in', () => {
+    const ticks = rulerTicks(20, 4)
+
+    expect(ticks.slice(0, 3).map((tick) => tick.value)).toEqual([0, 2, 4])
+    expect(ticks.filter((tick) => tick.labeled).map((tick) => tick.value)).toEqual([0, 20])
+  })
+
+  it('only labels multiples of the tick spacing', () => {
+    const ticks = rulerTicks(1000, 0.2)
+    const step = ticks[1].value
+
+    for (const tick of ticks.filter((t) => t.labeled)) {
+      expect(tick.value % step).toBe(0)
+    }
+  })
+})
@@ -0,0 +1,69 @@
+/**
+ * Measurements in CSS pixels
+ *
+ * The annotate canvas shows the screenshot scaled to fit (bgScale canvas
+ * pixels per screenshot pixel), and the screenshot itself has
+ * devicePixelRatio pixels per CSS pixel. Measurements and rulers are shown in
+ * CSS pixels, the unit designers and stylesheets use.
+ */
+
+/** Tick spacings the rulers choose from, in CSS pixels */
+const RULER_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000]
+
+/** Closest ruler ticks may get on screen, in canvas pixels */
+const MIN_TICK_GAP = 6
+
+/** Closest ruler labels may get on screen, in canvas pixels */
+const MIN_LABEL_GAP = 50
+
+/**
+ * Convert a length on the canvas to CSS pixels on the captured page
+ */
+export function toCssPixels(canvasLength: number, bgScale: number, devicePixelRatio: number): number {
+  return canvasLength / (bgScale || 1) / (devicePixelRatio || 1)
+}
+
+/**
+ * "16px", or "12.5px" for fractions (high-DPI screenshots have pixels
+ * smaller than a CSS pixel)
+ */
+export function formatCssPixels(value: number): string {
+  return `${Math.round(value * 10) / 10}px`
+}
+
+/**
+ * "120 × 48px"
+ */
+export function formatCssSize(width: number, height: number): string {
+  return `${Math.round(width * 10) / 10} × ${formatCssPixels(height)}`
+}
+
+/**
+ * Snap `end` so the line from `start` is horizontal or vertical, whichever
+ * it's closer to
+ */
+export function constrainToAxis(start: { x: number; y: number }, end: { x: number; y: number }): { x: number; y: number } {
+  return Math.abs(end.x - start.x) >= Math.abs(end.y - start.y) ? { x: end.x, y: start.y } : { x: start.x, y: end.y }
+}
+
+export interface RulerTick {
+  /** Position in CSS pixels from the screenshot's edge */
+  value: number
+  labeled: boolean
+}
+
+/**
+ * Ticks for a ruler `length` CSS pixels long, spaced so they stay readable
+ * at `canvasPerCss` canvas pixels per CSS pixel
+ */
+export function rulerTicks(length: number, canvasPerCss: number): RulerTick[] {
+  const step = RULER_STEPS.find((s) => s * canvasPerCss >= MIN_TICK_GAP) ?? RULER_STEPS[RULER_STEPS.length - 1]
+  const labelStep =
+    RULER_STEPS.find((s) => s % step === 0 && s * canvasPerCss >= MIN_LABEL_GAP) ?? RULER_STEPS[RULER_STEPS.length - 1]
+
+  const ticks: RulerTick[] = []
+  for (let value = 0; value <= length; value += step) {
+    ticks.push({ value, labeled: value % labelStep === 0 })
+  }
+  return ticks
+}
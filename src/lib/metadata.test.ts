@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { resetAllMocks, setMessageHandler, chromeMock } from '../test/chrome-mock'
 import {
-  formatMetadataAsText,
-  formatMetadataAsHtml,
+  formatMetadata,
   generateDefaultTitle,
   captureMetadata,
+  countConsoleErrors,
+  type ConsoleEntry,
+  type EnvironmentInfo,
   type PageMetadata,
   __test_escapeHtml,
   __test_getCurrentTabInfo,
@@ -25,14 +27,54 @@ describe('metadata', () => {
     devicePixelRatio: 2,
   }
 
-  describe('formatMetadataAsText', () => {
-    it('formats metadata as markdown text', () => {
-      const result = formatMetadataAsText(sampleMetadata)
+  const sampleEnvironment: EnvironmentInfo = {
+    os: 'macOS 14.5',
+    architecture: 'arm 64-bit',
+    screenWidth: 1728,
+    screenHeight: 1117,
+    zoom: 1.1,
+    language: 'en-US',
+    timezone: 'Europe/Berlin',
+    colorScheme: 'dark',
+    reducedMotion: false,
+    online: true,
+    connectionType: '4g',
+  }
+
+  describe('formatMetadata as Markdown', () => {
+    it('formats metadata as a table', () => {
+      const result = formatMetadata(sampleMetadata, 'markdown')
 
-      expect(result).toContain('**URL:** https://example.com/page?query=1')
-      expect(result).toContain('**Page Title:** Example Page')
-      expect(result).toContain('**Browser:** Chrome 120.0.0')
-      expect(result).toContain('**Viewport:** 1920 x 1080 @ 2x')
+      expect(result).toContain('| Field | Value |\n| --- | --- |')
+      expect(result).toContain('| URL | <https://example.com/page?query=1> |')
+      expect(result).toContain('| Page Title | Example Page |')
+      expect(result).toContain('| Browser | Chrome 120.0.0 |')
+      expect(result).toContain('| Viewport | 1920 x 1080 @ 2x |')
+    })
+
+    it('includes the picked element', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        element: { selector: 'main > div', tagName: 'div', textSnippet: '', width: 10, height: 20 },
+      }, 'markdown')
+
+      expect(result).toContain('| Element | `main > div` |')
+      expect(result).toContain('| Element Tag | \\<div\\> |')
+      expect(result).toContain('| Element Size | 10 x 20 |')
+      expect(result).not.toContain('Element Text')
+    })
+
+    it('includes the environment', () => {
+      const result = formatMetadata({ ...sampleMetadata, environment: sampleEnvironment }, 'markdown')
+
+      expect(result).toContain('| OS | macOS 14.5 (arm 64-bit) |')
+      expect(result).toContain('| Screen | 1728 x 1117 |')
+      expect(result).toContain('| Zoom | 110% |')
+      expect(result).toContain('| Language | en-US |')
+      expect(result).toContain('| Timezone | Europe/Berlin |')
+      expect(result).toContain('| Color Scheme | dark |')
+      expect(result).toContain('| Reduced Motion | no |')
+      expect(result).toContain('| Network | online (4g) |')
     })
 
     it('handles metadata with unknown values', () => {
@@ -46,16 +88,74 @@ describe('metadata', () => {
         devicePixelRatio: 1,
       }
 
-      const result = formatMetadataAsText(unknownMetadata)
+      const result = formatMetadata(unknownMetadata, 'markdown')
+
+      expect(result).toContain('| URL | Unknown |')
+      expect(result).toContain('| Browser | Unknown Unknown |')
+    })
+
+    it('escapes values that would break the table or read as formatting', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        title: 'A | B *bold*',
+        customFields: [{ label: 'Tenant', value: 'acme_corp' }],
+      }, 'markdown')
+
+      expect(result).toContain('| Page Title | A \\| B \\*bold\\* |')
+      expect(result).toContain('| Tenant | acme\\_corp |')
+    })
+
+    it('lists rated performance metrics', () => {
+      const result = formatMetadata({ ...sampleMetadata, performance: { lcp: 4800, cls: 0.02 } }, 'markdown')
+
+      expect(result).toContain('**Performance:**\n\n- LCP: **4.8 s** (**poor**)\n- CLS: 0.02')
+    })
+
+    it('lists failed requests with the method and status as code', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        networkRequests: [
+          { method: 'GET', url: 'https://example.com/missing', status: 404, startTime: 0, duration: 120, type: 'fetch' },
+        ],
+      }, 'markdown')
 
-      expect(result).toContain('**URL:** Unknown')
-      expect(result).toContain('**Browser:** Unknown Unknown')
+      expect(result).toContain('**Failed Requests (1):**\n\n- `GET 404` https://example.com/missing (120 ms)')
+    })
+
+    it('puts the console log in a fenced code block', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        consoleLogs: [{ level: 'error', message: 'Use `foo` *here*', timestamp: Date.UTC(2024, 0, 1, 9, 30, 5, 120) }],
+      }, 'markdown')
+
+      expect(result).toContain(
+        '**Console (1 entry, 1 error)**\n\n```\n[09:30:05.120] ERROR Use `foo` *here*\n```'
+      )
     })
   })
 
-  describe('formatMetadataAsHtml', () => {
+  describe('formatMetadata as plain text', () => {
+    it('formats metadata as label/value lines', () => {
+      const result = formatMetadata({ ...sampleMetadata, customFields: [{ label: 'Tenant', value: 'acme' }] }, 'text')
+
+      expect(result).toContain('URL: https://example.com/page?query=1\nPage Title: Example Page')
+      expect(result).toContain('Tenant: acme')
+      expect(result).not.toContain('**')
+    })
+
+    it('indents the console log under its summary', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        consoleLogs: [{ level: 'log', message: 'Rendered <App>', timestamp: Date.UTC(2024, 0, 1, 9, 30, 5, 120) }],
+      }, 'text')
+
+      expect(result).toContain('Console (1 entry):\n    [09:30:05.120] LOG Rendered <App>')
+    })
+  })
+
+  describe('formatMetadata as HTML', () => {
     it('formats metadata as HTML', () => {
-      const result = formatMetadataAsHtml(sampleMetadata)
+      const result = formatMetadata(sampleMetadata, 'html')
 
       expect(result).toContain('<strong>URL:</strong>')
       expect(result).toContain('href="https://example.com/page?query=1"')
@@ -71,7 +171,7 @@ describe('metadata', () => {
         url: 'https://example.com/<script>',
       }
 
-      const result = formatMetadataAsHtml(maliciousMetadata)
+      const result = formatMetadata(maliciousMetadata, 'html')
 
       expect(result).not.toContain('<script>')
       expect(result).toContain('&lt;script&gt;')
@@ -83,21 +183,150 @@ describe('metadata', () => {
         url: 'https://example.com?foo=1&bar=2',
       }
 
-      const result = formatMetadataAsHtml(metadataWithAmpersand)
+      const result = formatMetadata(metadataWithAmpersand, 'html')
 
       expect(result).toContain('foo=1&amp;bar=2')
     })
 
+    it('renders the picked element when present', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        element: {
+          selector: '#checkout > button.primary',
+          tagName: 'button',
+          textSnippet: 'Pay <now>',
+          width: 120,
+          height: 40,
+        },
+      }, 'html')
+
+      expect(result).toContain('<strong>Element:</strong> <code>#checkout &gt; button.primary</code>')
+      expect(result).toContain('<strong>Element Tag:</strong> &lt;button&gt;')
+      expect(result).toContain('<strong>Element Text:</strong> Pay &lt;now&gt;')
+      expect(result).toContain('<strong>Element Size:</strong> 120 x 40')
+    })
+
+    it('renders the environment', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        environment: { ...sampleEnvironment, zoom: undefined, online: false, reducedMotion: true },
+      }, 'html')
+
+      expect(result).toContain('<strong>OS:</strong> macOS 14.5 (arm 64-bit)')
+      expect(result).toContain('<strong>Reduced Motion:</strong> yes')
+      expect(result).toContain('<strong>Network:</strong> offline')
+      expect(result).not.toContain('Zoom')
+    })
+
+    it('renders custom fields, escaped', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        customFields: [{ label: 'Build', value: 'abc123' }, { label: 'Flags', value: '{"beta":true}' }],
+      }, 'html')
+
+      expect(result).toContain('<strong>Build:</strong> abc123')
+      expect(result).toContain('<strong>Flags:</strong> {&quot;beta&quot;:true}')
+    })
+
+    it('renders performance metrics with poor values flagged', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        performance: { lcp: 4800, cls: 0.02, inp: 320, longTaskCount: 3, totalBlockingTime: 150, jsHeapUsed: 52428800 },
+      }, 'html')
+
+      expect(result).toContain('<p><strong>Performance:</strong></p>')
+      expect(result).toContain('<li>LCP: <strong>4.8 s</strong> (<strong>poor</strong>)</li>')
+      expect(result).toContain('<li>CLS: 0.02</li>')
+      expect(result).toContain('<li>INP: <strong>320 ms</strong> (needs improvement)</li>')
+      expect(result).toContain('<li>Blocking Time: 150 ms (3 long tasks)</li>')
+      expect(result).toContain('<li>JS Heap: 50.0 MB</li>')
+    })
+
+    it('omits environment rows when none was captured', () => {
+      const result = formatMetadata(sampleMetadata, 'html')
+
+      expect(result).not.toContain('<strong>OS:</strong>')
+    })
+
+    it('omits element rows when no element was picked', () => {
+      const result = formatMetadata(sampleMetadata, 'html')
+
+      expect(result).not.toContain('Element')
+    })
+
     it('escapes quotes in URLs', () => {
       const metadataWithQuotes: PageMetadata = {
         ...sampleMetadata,
         url: 'https://example.com?q="test"',
       }
 
-      const result = formatMetadataAsHtml(metadataWithQuotes)
+      const result = formatMetadata(metadataWithQuotes, 'html')
 
       expect(result).toContain('&quot;test&quot;')
     })
+
+    it('renders console logs as a collapsed, escaped block', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        consoleLogs: [
+          { level: 'log', message: 'Rendered <App>', timestamp: Date.UTC(2024, 0, 1, 9, 30, 5, 120) },
+          {
+            level: 'exception',
+            message: 'TypeError: x is undefined',
+            timestamp: Date.UTC(2024, 0, 1, 9, 30, 6, 0),
+            source: 'https://example.com/app.js:10:5',
+            stack: 'at render (https://example.com/app.js:10:5)',
+          },
+        ],
+      }, 'html')
+
+      expect(result).toContain('<details><summary><strong>Console (2 entries, 1 error)</strong></summary><pre>')
+      expect(result).toContain('[09:30:05.120] LOG Rendered &lt;App&gt;')
+      expect(result).toContain(
+        '[09:30:06.000] EXCEPTION TypeError: x is undefined (https://example.com/app.js:10:5)\n    at render'
+      )
+    })
+
+    it('lists failed requests with method, status and timing', () => {
+      const request = { method: 'GET', type: 'fetch', startTime: 0, duration: 120.4 }
+      const result = formatMetadata({
+        ...sampleMetadata,
+        networkRequests: [
+          { ...request, url: 'https://example.com/ok', status: 200 },
+          { ...request, url: 'https://example.com/missing?a=1&b=2', status: 404 },
+          { ...request, url: 'https://example.com/pending' },
+          { ...request, url: 'https://example.com/broken', method: 'POST', status: 503 },
+        ],
+      }, 'html')
+
+      expect(result).toContain('<strong>Failed Requests (2):</strong>')
+      expect(result).toContain('<li><code>GET 404</code> https://example.com/missing?a=1&amp;b=2 (120 ms)</li>')
+      expect(result).toContain('<li><code>POST 503</code> https://example.com/broken (120 ms)</li>')
+      expect(result).not.toContain('https://example.com/ok')
+    })
+
+    it('omits the failed requests section when every request succeeded', () => {
+      const result = formatMetadata({
+        ...sampleMetadata,
+        networkRequests: [{ url: 'https://example.com/', method: 'GET', type: 'fetch', status: 204, startTime: 0, duration: 1 }],
+      }, 'html')
+
+      expect(result).not.toContain('Failed Requests')
+    })
+
+    it('omits the console block when nothing was logged', () => {
+      expect(formatMetadata({ ...sampleMetadata, consoleLogs: [] }, 'html')).not.toContain('Console')
+    })
+  })
+
+  describe('countConsoleErrors', () => {
+    it('counts errors, exceptions and rejections', () => {
+      const entry = (level: ConsoleEntry['level']): ConsoleEntry => ({ level, message: '', timestamp: 0 })
+
+      expect(countConsoleErrors([
+        entry('log'), entry('warn'), entry('error'), entry('exception'), entry('rejection'),
+      ])).toBe(3)
+    })
   })
 
   describe('generateDefaultTitle', () => {
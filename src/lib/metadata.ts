@@ -3,6 +3,142 @@
  * Automatically captures page and browser context
  */
 
+import { formatDuration, formatMegabytes, rateMetric, type MetricRating, type RatedMetric } from './performance'
+import { escapeHtml, getFormatter, type ReportFormat, type ReportFormatter } from './report-format'
+
+export { escapeHtml }
+
+/**
+ * The DOM element a report is about, when captured with the element picker
+ */
+export interface ElementInfo {
+  /** CSS selector that locates the element */
+  selector: string
+  /** Lowercase tag name, e.g. "button" */
+  tagName: string
+  /** Start of the element's visible text (may be empty) */
+  textSnippet: string
+  /** Rendered size in CSS pixels */
+  width: number
+  height: number
+}
+
+/**
+ * One console call or uncaught error buffered by the console capture content
+ * script (src/content/console-capture.ts)
+ */
+export interface ConsoleEntry {
+  /** 'exception' = uncaught error, 'rejection' = unhandled promise rejection */
+  level: 'log' | 'info' | 'warn' | 'error' | 'debug' | 'exception' | 'rejection'
+  message: string
+  /** Epoch milliseconds */
+  timestamp: number
+  /** Script location (file:line:column), for uncaught errors */
+  source?: string
+  stack?: string
+}
+
+/**
+ * One network request recorded by the network capture content script
+ * (src/content/network-capture.ts). Redacted (see lib/network.ts) before
+ * it is stored with a capture.
+ */
+export interface NetworkRequest {
+  url: string
+  method: string
+  /** HTTP status; 0 when the request failed outright, absent while pending or unknown */
+  status?: number
+  statusText?: string
+  /** Initiator, as in resource timing: 'fetch', 'xmlhttprequest', 'script', 'img', ... */
+  type: string
+  /** Epoch milliseconds */
+  startTime: number
+  /** Milliseconds */
+  duration: number
+  /** Bytes transferred, when the browser exposes it */
+  size?: number
+  mimeType?: string
+  /** Header names lowercased; only for fetch/XHR */
+  requestHeaders?: Record<string, string>
+  responseHeaders?: Record<string, string>
+}
+
+/**
+ * One user action recorded by the breadcrumb recorder content script
+ * (src/content/breadcrumb-recorder.ts). Never includes typed text.
+ */
+export interface Breadcrumb {
+  /** 'input' = the user typed in a field */
+  type: 'click' | 'submit' | 'navigation' | 'keypress' | 'input'
+  /** What was acted on, e.g. `button "Save"` or `field "Email"` */
+  target?: string
+  /** The new URL for navigation, the key (e.g. "Enter", "Ctrl+S") for keypress */
+  detail?: string
+  /** Epoch milliseconds */
+  timestamp: number
+}
+
+/**
+ * The machine and browser settings the page was viewed with
+ */
+export interface EnvironmentInfo {
+  /** Operating system and version, e.g. "macOS 14.5" or "Windows 11" */
+  os: string
+  /** CPU architecture, e.g. "arm 64-bit", when the browser reports it */
+  architecture?: string
+  /** Device model, reported on mobile */
+  deviceModel?: string
+  /** Screen resolution in CSS pixels */
+  screenWidth: number
+  screenHeight: number
+  /** Browser zoom factor, 1 = 100% */
+  zoom?: number
+  /** Preferred language, e.g. "en-US" */
+  language: string
+  /** IANA timezone, e.g. "Europe/Berlin" */
+  timezone: string
+  colorScheme: 'light' | 'dark'
+  reducedMotion: boolean
+  online: boolean
+  /** Effective connection type, e.g. "4g", when the browser reports it */
+  connectionType?: string
+}
+
+/**
+ * The page's performance at capture time. Times are milliseconds from the
+ * start of navigation; any metric the browser didn't report is absent.
+ */
+export interface PerformanceMetrics {
+  /** Time to first byte */
+  ttfb?: number
+  /** First contentful paint */
+  fcp?: number
+  domContentLoaded?: number
+  load?: number
+  /** Largest contentful paint */
+  lcp?: number
+  /** Cumulative layout shift (unitless) */
+  cls?: number
+  /** Interaction to next paint: the slowest (or 98th percentile) interaction */
+  inp?: number
+  /** Tasks over 50 ms */
+  longTaskCount?: number
+  /** Sum of long task time over 50 ms */
+  totalBlockingTime?: number
+  /** Bytes */
+  jsHeapUsed?: number
+  jsHeapLimit?: number
+}
+
+/**
+ * A value pulled from the page by a user-configured extractor
+ * (see lib/extractors.ts)
+ */
+export interface CustomMetadataField {
+  label: string
+  value: string
+}
+
 export interface PageMetadata {
   url: string
   title: string
@@ -11,6 +147,22 @@ export interface PageMetadata {
   viewportWidth: number
   viewportHeight: number
   devicePixelRatio: number
+  /** OS, screen, locale and display preferences */
+  environment?: EnvironmentInfo
+  /** App-specific values from the origin's custom extractors */
+  customFields?: CustomMetadataField[]
+  /** Web vitals, load timing and memory when the page was captured */
+  performance?: PerformanceMetrics
+  /** Set when the capture was of a single picked element */
+  element?: ElementInfo
+  /** Recent console output and uncaught errors, oldest first */
+  consoleLogs?: ConsoleEntry[]
+  /** Recent network requests, oldest first */
+  networkRequests?: NetworkRequest[]
+  /** Recent user actions, oldest first - the source of suggested reproduction steps */
+  breadcrumbs?: Breadcrumb[]
+  /** What the redaction rules changed when the page was captured (see describeRedactions) */
+  redactedParts?: string[]
 }
 
 /**
@@ -99,44 +251,213 @@ export async function captureMetadata(): Promise<PageMetadata> {
 }
 
 /**
- * Format metadata as a human-readable string
+ * Format metadata for the report body in the given format: the page,
+ * browser, environment and element details as label/value rows, then
+ * performance, failed requests and the console log
  */
-export function formatMetadataAsText(metadata: PageMetadata): string {
-  const lines = [
-    `**URL:** ${metadata.url}`,
-    `**Page Title:** ${metadata.title}`,
-    `**Browser:** ${metadata.browser} ${metadata.browserVersion}`,
-    `**Viewport:** ${metadata.viewportWidth} x ${metadata.viewportHeight} @ ${metadata.devicePixelRatio}x`,
+export function formatMetadata(metadata: PageMetadata, format: ReportFormat): string {
+  const formatter = getFormatter(format)
+  const rows: [string, string][] = [
+    ['URL', formatter.link(metadata.url)],
+    ['Page Title', formatter.text(metadata.title)],
+    ['Browser', formatter.text(`${metadata.browser} ${metadata.browserVersion}`)],
+    ['Viewport', `${metadata.viewportWidth} x ${metadata.viewportHeight} @ ${metadata.devicePixelRatio}x`],
   ]
-  
-  return lines.join('\n')
+
+  if (metadata.environment) {
+    for (const [label, value] of describeEnvironment(metadata.environment)) {
+      rows.push([label, formatter.text(value)])
+    }
+  }
+
+  for (const field of metadata.customFields ?? []) {
+    rows.push([field.label, formatter.text(field.value)])
+  }
+
+  if (metadata.element) {
+    rows.push(...describeElement(metadata.element, formatter))
+  }
+
+  return formatter.join([
+    formatter.fields(rows),
+    metadata.performance ? formatPerformance(metadata.performance, formatter) : '',
+    metadata.networkRequests ? formatFailedRequests(metadata.networkRequests, formatter) : '',
+    metadata.consoleLogs?.length ? formatConsoleLogs(metadata.consoleLogs, formatter) : '',
+  ])
 }
 
 /**
- * Format metadata as HTML for card description
+ * Label/value rows for the environment
  */
-export function formatMetadataAsHtml(metadata: PageMetadata): string {
-  return `
-<p><strong>URL:</strong> <a href="${escapeHtml(metadata.url)}">${escapeHtml(metadata.url)}</a></p>
-<p><strong>Page Title:</strong> ${escapeHtml(metadata.title)}</p>
-<p><strong>Browser:</strong> ${escapeHtml(metadata.browser)} ${escapeHtml(metadata.browserVersion)}</p>
-<p><strong>Viewport:</strong> ${metadata.viewportWidth} x ${metadata.viewportHeight} @ ${metadata.devicePixelRatio}x</p>
-`.trim()
+function describeEnvironment(environment: EnvironmentInfo): [string, string][] {
+  const os = [environment.os, environment.architecture && `(${environment.architecture})`]
+    .filter(Boolean)
+    .join(' ')
+  const rows: [string, string][] = [['OS', os]]
+  if (environment.deviceModel) {
+    rows.push(['Device', environment.deviceModel])
+  }
+  rows.push(['Screen', `${environment.screenWidth} x ${environment.screenHeight}`])
+  if (environment.zoom !== undefined) {
+    rows.push(['Zoom', `${Math.round(environment.zoom * 100)}%`])
+  }
+  rows.push(
+    ['Language', environment.language],
+    ['Timezone', environment.timezone],
+    ['Color Scheme', environment.colorScheme],
+    ['Reduced Motion', environment.reducedMotion ? 'yes' : 'no'],
+    ['Network', environment.online
+      ? `online${environment.connectionType ? ` (${environment.connectionType})` : ''}`
+      : 'offline'],
+  )
+  return rows
 }
 
 /**
- * Escape HTML special characters
+ * Label/value rows for the picked element
  */
-function escapeHtml(str: string): string {
-  const htmlEntities: Record<string, string> = {
-    '&': '&amp;',
-    '<': '&lt;',
-    '>': '&gt;',
-    '"': '&quot;',
-    "'": '&#39;',
+function describeElement(element: ElementInfo, formatter: ReportFormatter): [string, string][] {
+  const rows: [string, string][] = [
+    ['Element', formatter.code(element.selector)],
+    ['Element Tag', formatter.text(`<${element.tagName}>`)],
+  ]
+  if (element.textSnippet) {
+    rows.push(['Element Text', formatter.text(element.textSnippet)])
   }
-  
-  return str.replace(/[&<>"']/g, (char) => htmlEntities[char])
+  rows.push(['Element Size', `${element.width} x ${element.height}`])
+  return rows
+}
+
+interface PerformanceRow {
+  label: string
+  value: string
+  rating?: MetricRating
+}
+
+/**
+ * Label/value rows for the reported performance metrics, rated where the
+ * metric has thresholds
+ */
+function describePerformance(metrics: PerformanceMetrics): PerformanceRow[] {
+  const rows: PerformanceRow[] = []
+  const rated = (label: string, metric: RatedMetric, format: (value: number) => string) => {
+    const value = metrics[metric]
+    if (value !== undefined) {
+      rows.push({ label, value: format(value), rating: rateMetric(metric, value) })
+    }
+  }
+
+  rated('LCP', 'lcp', formatDuration)
+  rated('CLS', 'cls', (value) => value.toFixed(2))
+  rated('INP', 'inp', formatDuration)
+  rated('FCP', 'fcp', formatDuration)
+  rated('TTFB', 'ttfb', formatDuration)
+  if (metrics.longTaskCount !== undefined) {
+    const tasks = `${metrics.longTaskCount} ${metrics.longTaskCount === 1 ? 'long task' : 'long tasks'}`
+    const value = metrics.totalBlockingTime !== undefined
+      ? `${formatDuration(metrics.totalBlockingTime)} (${tasks})`
+      : tasks
+    rows.push({
+      label: 'Blocking Time',
+      value,
+      rating: metrics.totalBlockingTime !== undefined ? rateMetric('totalBlockingTime', metrics.totalBlockingTime) : undefined,
+    })
+  }
+  if (metrics.load !== undefined) {
+    rows.push({ label: 'Load', value: formatDuration(metrics.load) })
+  }
+  if (metrics.jsHeapUsed !== undefined) {
+    const limit = metrics.jsHeapLimit ? ` of ${formatMegabytes(metrics.jsHeapLimit)}` : ''
+    rows.push({ label: 'JS Heap', value: `${formatMegabytes(metrics.jsHeapUsed)}${limit}` })
+  }
+  return rows
+}
+
+/**
+ * Format performance metrics as a compact list, with the values of metrics
+ * past their "good" threshold emphasized and rated
+ */
+function formatPerformance(metrics: PerformanceMetrics, formatter: ReportFormatter): string {
+  const rows = describePerformance(metrics)
+  if (rows.length === 0) return ''
+
+  const items = rows.map((row) => {
+    const value = row.rating && row.rating !== 'good'
+      ? `${formatter.strong(row.value)} (${row.rating === 'poor' ? formatter.strong('poor') : 'needs improvement'})`
+      : formatter.text(row.value)
+    return `${formatter.text(row.label)}: ${value}`
+  })
+  return formatter.join([formatter.heading('Performance'), formatter.list(items)])
+}
+
+/** The report body lists at most this many failed requests (the most recent) */
+const MAX_LISTED_FAILED_REQUESTS = 20
+
+/**
+ * Format the 4xx/5xx responses among the recorded requests as a list, or
+ * nothing when every request succeeded
+ */
+function formatFailedRequests(requests: NetworkRequest[], formatter: ReportFormatter): string {
+  const failed = requests.filter((request) => isFailedRequest(request))
+  if (failed.length === 0) return ''
+
+  const items = failed.slice(-MAX_LISTED_FAILED_REQUESTS).map((request) =>
+    `${formatter.code(`${request.method} ${request.status}`)} ${formatter.text(request.url)} (${Math.round(request.duration)} ms)`
+  )
+  return formatter.join([
+    formatter.heading(`Failed Requests (${failed.length})`),
+    formatter.list(items),
+    failed.length > MAX_LISTED_FAILED_REQUESTS
+      ? formatter.paragraph(`...and ${failed.length - MAX_LISTED_FAILED_REQUESTS} earlier`)
+      : '',
+  ])
+}
+
+/**
+ * Whether a request got a 4xx or 5xx response
+ */
+export function isFailedRequest(request: NetworkRequest): boolean {
+  return request.status !== undefined && request.status >= 400
+}
+
+/**
+ * Format console entries as a log block (collapsed in HTML), one line per
+ * entry with stacks indented underneath
+ */
+function formatConsoleLogs(entries: ConsoleEntry[], formatter: ReportFormatter): string {
+  const errorCount = countConsoleErrors(entries)
+  const summary = errorCount > 0
+    ? `Console (${entries.length} ${entries.length === 1 ? 'entry' : 'entries'}, ${errorCount} ${errorCount === 1 ? 'error' : 'errors'})`
+    : `Console (${entries.length} ${entries.length === 1 ? 'entry' : 'entries'})`
+
+  const lines = entries.map((entry) => {
+    let line = `[${formatLogTime(entry.timestamp)}] ${entry.level.toUpperCase()} ${entry.message}`
+    if (entry.source) {
+      line += ` (${entry.source})`
+    }
+    if (entry.stack) {
+      line += '\n' + entry.stack.split('\n').map((frame) => `    ${frame.trim()}`).join('\n')
+    }
+    return line
+  })
+
+  return formatter.codeBlock(lines.join('\n'), summary)
+}
+
+/**
+ * Count the errors, uncaught exceptions and unhandled rejections in a log
+ */
+export function countConsoleErrors(entries: ConsoleEntry[]): number {
+  return entries.filter((entry) =>
+    entry.level === 'error' || entry.level === 'exception' || entry.level === 'rejection'
+  ).length
+}
+
+/**
+ * HH:MM:SS.mmm in UTC, so the log reads the same wherever the report is opened
+ */
+function formatLogTime(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(11, 23)
 }
 
 /**
@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import type { NetworkRequest } from './metadata'
+import { buildHar, redactNetworkRequest, redactUrl, DEFAULT_REDACTED_QUERY_PARAMS } from './network'
+
+const request: NetworkRequest = {
+  url: 'https://api.example.com/items?page=2&token=abc123',
+  method: 'POST',
+  status: 500,
+  statusText: 'Internal Server Error',
+  type: 'fetch',
+  startTime: Date.UTC(2024, 0, 1, 9, 0, 0),
+  duration: 240,
+  size: 512,
+  mimeType: 'application/json',
+  requestHeaders: {
+    authorization: 'Bearer secret',
+    'content-type': 'application/json',
+    cookie: 'sid=1',
+    'x-api-key': 'k-123',
+    'X-CSRF-Token': 'c-456',
+  },
+  responseHeaders: {
+    'set-cookie': 'sid=2',
+    'content-type': 'application/json',
+    'x-amz-security-token': 't-789',
+    'X-Request-Id': 'req-1',
+  },
+}
+
+describe('redactUrl', () => {
+  it('replaces the values of listed query parameters case-insensitively', () => {
+    expect(redactUrl('https://example.com/?Token=abc&q=shoes&API_KEY=k', ['token', 'api_key']))
+      .toBe('https://example.com/?Token=REDACTED&q=shoes&API_KEY=REDACTED')
+  })
+
+  it('returns the URL untouched when there is nothing to redact', () => {
+    const url = 'https://example.com/search?q=a%20b'
+
+    expect(redactUrl(url, DEFAULT_REDACTED_QUERY_PARAMS)).toBe(url)
+  })
+
+  it('returns unparseable URLs untouched', () => {
+    expect(redactUrl('not a url', ['token'])).toBe('not a url')
+  })
+})
+
+describe('redactNetworkRequest', () => {
+  it('keeps only known-safe headers', () => {
+    const redacted = redactNetworkRequest(request)
+
+    expect(redacted.requestHeaders).toEqual({ 'content-type': 'application/json' })
+    expect(redacted.responseHeaders).toEqual({ 'content-type': 'application/json', 'X-Request-Id': 'req-1' })
+  })
+
+  it('does not modify the original request', () => {
+    redactNetworkRequest(request)
+
+    expect(request.requestHeaders?.authorization).toBe('Bearer secret')
+  })
+})
+
+describe('buildHar', () => {
+  it('builds a HAR 1.2 log with one entry per request', () => {
+    const har = buildHar([{ ...redactNetworkRequest(request), url: redactUrl(request.url, ['token']) }], {
+      url: 'https://example.com/',
+      title: 'Example',
+    }) as { log: Record<string, any> }
+
+    expect(har.log.version).toBe('1.2')
+    expect(har.log.creator).toEqual({ name: 'PopShot', version: '0.5.0' })
+    expect(har.log.pages[0]).toMatchObject({ id: 'page_1', title: 'Example', startedDateTime: '2024-01-01T09:00:00.000Z' })
+
+    const [entry] = har.log.entries
+    expect(entry.time).toBe(240)
+    expect(entry.request).toMatchObject({
+      method: 'POST',
+      url: 'https://api.example.com/items?page=2&token=REDACTED',
+      headers: [{ name: 'content-type', value: 'application/json' }],
+      queryString: [{ name: 'page', value: '2' }, { name: 'token', value: 'REDACTED' }],
+    })
+    expect(entry.response).toMatchObject({
+      status: 500,
+      statusText: 'Internal Server Error',
+      content: { size: 512, mimeType: 'application/json' },
+    })
+  })
+
+  it('reports unknown statuses and sizes the way HAR expects', () => {
+    const har = buildHar([{ url: 'https://example.com/a.js', method: 'GET', type: 'script', startTime: 0, duration: 5 }], {
+      url: 'https://example.com/',
+      title: '',
+    }) as { log: Record<string, any> }
+
+    expect(har.log.pages[0].title).toBe('https://example.com/')
+    expect(har.log.entries[0].response).toMatchObject({ status: 0, content: { size: -1, mimeType: '' }, bodySize: -1 })
+  })
+})
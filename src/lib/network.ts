@@ -0,0 +1,158 @@
+/**
+ * Network log redaction and HAR export
+ */
+
+import type { NetworkRequest } from './metadata'
+
+/**
+ * The only headers kept on recorded requests. Pages send credentials in all
+ * sorts of custom headers (X-Api-Key, X-Auth-Token, X-CSRF-Token, ...), so
+ * rather than chase them, everything that isn't known to be safe is dropped.
+ * Location and Referer are left out too: they carry URLs, query strings and
+ * all.
+ */
+export const KEPT_HEADERS = [
+  'accept',
+  'accept-encoding',
+  'accept-language',
+  'access-control-allow-headers',
+  'access-control-allow-methods',
+  'access-control-allow-origin',
+  'age',
+  'cache-control',
+  'content-encoding',
+  'content-language',
+  'content-length',
+  'content-range',
+  'content-type',
+  'date',
+  'etag',
+  'expires',
+  'if-modified-since',
+  'if-none-match',
+  'last-modified',
+  'pragma',
+  'range',
+  'retry-after',
+  'server',
+  'traceparent',
+  'vary',
+  'x-request-id',
+]
+
+/** Query parameters redacted when the user hasn't configured their own list */
+export const DEFAULT_REDACTED_QUERY_PARAMS = [
+  'access_token',
+  'api_key',
+  'apikey',
+  'auth',
+  'code',
+  'key',
+  'password',
+  'secret',
+  'sig',
+  'signature',
+  'token',
+]
+
+/** Replaces the value of a redacted query parameter */
+export const REDACTED_VALUE = 'REDACTED'
+
+/**
+ * Replace the values of the given query parameters (case-insensitive) in a
+ * URL. URLs that don't parse, or have nothing to redact, come back unchanged.
+ */
+export function redactUrl(url: string, queryParams: string[]): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  const redacted = new Set(queryParams.map((param) => param.toLowerCase()))
+  let changed = false
+  for (const name of new Set(parsed.searchParams.keys())) {
+    if (redacted.has(name.toLowerCase())) {
+      parsed.searchParams.set(name, REDACTED_VALUE)
+      changed = true
+    }
+  }
+  return changed ? parsed.href : url
+}
+
+/**
+ * Strip credentials from a recorded request: every header but the known-safe
+ * ones. Its URL is left to the redaction rules (see lib/redaction.ts).
+ */
+export function redactNetworkRequest(request: NetworkRequest): NetworkRequest {
+  return {
+    ...request,
+    requestHeaders: request.requestHeaders && stripHeaders(request.requestHeaders),
+    responseHeaders: request.responseHeaders && stripHeaders(request.responseHeaders),
+  }
+}
+
+function stripHeaders(headers: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).filter(([name]) => KEPT_HEADERS.includes(name.toLowerCase()))
+  )
+}
+
+/**
+ * Build a HAR 1.2 log of the recorded requests. Only what the page could
+ * observe is included: no bodies, and timings are totals rather than phases.
+ */
+export function buildHar(requests: NetworkRequest[], page: { url: string; title: string }): object {
+  const pageId = 'page_1'
+  const startedDateTime = new Date(requests[0]?.startTime ?? Date.now()).toISOString()
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'PopShot', version: chrome.runtime.getManifest().version },
+      pages: [{ id: pageId, startedDateTime, title: page.title || page.url, pageTimings: {} }],
+      entries: requests.map((request) => ({
+        pageref: pageId,
+        startedDateTime: new Date(request.startTime).toISOString(),
+        time: request.duration,
+        request: {
+          method: request.method,
+          url: request.url,
+          httpVersion: '',
+          cookies: [],
+          headers: toHarHeaders(request.requestHeaders),
+          queryString: toHarQueryString(request.url),
+          headersSize: -1,
+          bodySize: -1,
+        },
+        response: {
+          status: request.status ?? 0,
+          statusText: request.statusText ?? '',
+          httpVersion: '',
+          cookies: [],
+          headers: toHarHeaders(request.responseHeaders),
+          content: { size: request.size ?? -1, mimeType: request.mimeType ?? '' },
+          redirectURL: '',
+          headersSize: -1,
+          bodySize: request.size ?? -1,
+        },
+        cache: {},
+        timings: { send: 0, wait: request.duration, receive: 0 },
+        _resourceType: request.type,
+      })),
+    },
+  }
+}
+
+function toHarHeaders(headers: Record<string, string> | undefined): { name: string; value: string }[] {
+  return Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }))
+}
+
+function toHarQueryString(url: string): { name: string; value: string }[] {
+  try {
+    return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }))
+  } catch {
+    return []
+  }
+}
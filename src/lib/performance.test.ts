@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { formatDuration, formatMegabytes, hasPoorMetric, rateMetric } from './performance'
+
+describe('rateMetric', () => {
+  it('rates against the good and poor thresholds', () => {
+    expect(rateMetric('lcp', 2500)).toBe('good')
+    expect(rateMetric('lcp', 3000)).toBe('needs-improvement')
+    expect(rateMetric('lcp', 4001)).toBe('poor')
+    expect(rateMetric('cls', 0.05)).toBe('good')
+    expect(rateMetric('cls', 0.3)).toBe('poor')
+    expect(rateMetric('inp', 250)).toBe('needs-improvement')
+  })
+})
+
+describe('hasPoorMetric', () => {
+  it('is true when any rated metric is poor', () => {
+    expect(hasPoorMetric({ lcp: 1200, cls: 0.4 })).toBe(true)
+    expect(hasPoorMetric({ lcp: 1200, cls: 0.01, load: 60000 })).toBe(false)
+  })
+})
+
+describe('formatDuration', () => {
+  it('uses seconds from one second up', () => {
+    expect(formatDuration(340.4)).toBe('340 ms')
+    expect(formatDuration(1250)).toBe('1.3 s')
+  })
+})
+
+describe('formatMegabytes', () => {
+  it('formats bytes as MB', () => {
+    expect(formatMegabytes(52428800)).toBe('50.0 MB')
+  })
+})
@@ -0,0 +1,57 @@
+/**
+ * Performance metric thresholds
+ *
+ * Ratings follow the Core Web Vitals guidance: each metric has a "good"
+ * ceiling and a "poor" floor, with "needs improvement" in between.
+ */
+
+import type { PerformanceMetrics } from './metadata'
+
+export type MetricRating = 'good' | 'needs-improvement' | 'poor'
+
+/** The rated metrics; the rest (load, heap) are informational */
+export type RatedMetric = 'ttfb' | 'fcp' | 'lcp' | 'cls' | 'inp' | 'totalBlockingTime'
+
+/** [good up to, poor above] - milliseconds, except CLS which is unitless */
+export const METRIC_THRESHOLDS: Record<RatedMetric, [number, number]> = {
+  ttfb: [800, 1800],
+  fcp: [1800, 3000],
+  lcp: [2500, 4000],
+  cls: [0.1, 0.25],
+  inp: [200, 500],
+  totalBlockingTime: [200, 600],
+}
+
+/**
+ * Rate a metric value against its thresholds
+ */
+export function rateMetric(metric: RatedMetric, value: number): MetricRating {
+  const [good, poor] = METRIC_THRESHOLDS[metric]
+  if (value <= good) return 'good'
+  if (value <= poor) return 'needs-improvement'
+  return 'poor'
+}
+
+/**
+ * Whether any rated metric is poor - worth flagging on the report
+ */
+export function hasPoorMetric(metrics: PerformanceMetrics): boolean {
+  return (Object.keys(METRIC_THRESHOLDS) as RatedMetric[]).some((metric) => {
+    const value = metrics[metric]
+    return value !== undefined && rateMetric(metric, value) === 'poor'
+  })
+}
+
+/**
+ * "1.2 s" for durations of a second or more, "340 ms" below that
+ */
+export function formatDuration(ms: number): string {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.round(ms)} ms`
+}
+
+/**
+ * Bytes as MB with one decimal
+ */
+export function formatMegabytes(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
@@ -0,0 +1,55 @@
+/**
+ * Storage for tab recordings
+ *
+ * Recordings live in IndexedDB rather than chrome.storage: session storage is
+ * capped at 10 MB and only holds JSON, while a recording is a video Blob that
+ * easily runs to tens of megabytes. IndexedDB is shared by every extension
+ * page (offscreen recorder, review page, annotate page), so a recording is
+ * written once by the recorder and handed around by id.
+ */
+
+import { createIdbStore } from './idb-store'
+
+const DB_NAME = 'popshot-recordings'
+const STORE_NAME = 'recordings'
+
+export interface StoredRecording {
+  id: string
+  /** The recorded (or trimmed) video */
+  blob: Blob
+  /** Length in milliseconds - MediaRecorder WebM files carry no duration header */
+  durationMs: number
+  createdAt: number
+  /** Animated GIF of the (start of the) clip, when the user asked for one */
+  gif?: Blob
+}
+
+const { withStore, deleteOlderThan } = createIdbStore(DB_NAME, STORE_NAME)
+
+/**
+ * Save a recording, replacing any existing recording with the same id
+ */
+export async function saveRecording(recording: StoredRecording): Promise<void> {
+  await withStore('readwrite', (store) => store.put(recording))
+}
+
+/**
+ * Get a recording by id
+ */
+export async function getRecording(id: string): Promise<StoredRecording | undefined> {
+  return withStore<StoredRecording | undefined>('readonly', (store) => store.get(id))
+}
+
+/**
+ * Delete a recording by id (no-op if it doesn't exist)
+ */
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Delete recordings created before `cutoff` (epoch ms), returning how many were deleted
+ */
+export async function deleteRecordingsOlderThan(cutoff: number): Promise<number> {
+  return deleteOlderThan(cutoff)
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest'
+import {
+  blurMargin,
+  blurRadiusForStrength,
+  getZoneRedactionStyle,
+  pixelSizeForStrength,
+  DEFAULT_REDACTION_STRENGTH,
+  REDACTION_STRENGTHS,
+} from './redaction-styles'
+
+describe('getZoneRedactionStyle', () => {
+  it('treats zones without settings as the original pixelation', () => {
+    expect(getZoneRedactionStyle({})).toEqual({ style: 'pixelate', strength: DEFAULT_REDACTION_STRENGTH })
+    expect(pixelSizeForStrength(DEFAULT_REDACTION_STRENGTH)).toBe(10)
+  })
+
+  it('keeps known styles and strengths', () => {
+    expect(getZoneRedactionStyle({ redactionStyle: 'blur', redactionStrength: 4 })).toEqual({ style: 'blur', strength: 4 })
+    expect(getZoneRedactionStyle({ redactionStyle: 'solid', redactionStrength: 1 })).toEqual({ style: 'solid', strength: 1 })
+  })
+
+  it('falls back on unknown values', () => {
+    expect(getZoneRedactionStyle({ redactionStyle: 'swirl', redactionStrength: 9 })).toEqual({
+      style: 'pixelate',
+      strength: DEFAULT_REDACTION_STRENGTH,
+    })
+  })
+})
+
+describe('strength levels', () => {
+  it('get stronger with each level', () => {
+    const sizes = REDACTION_STRENGTHS.map(pixelSizeForStrength)
+    const radii = REDACTION_STRENGTHS.map(blurRadiusForStrength)
+
+    for (let i = 1; i < REDACTION_STRENGTHS.length; i++) {
+      expect(sizes[i]).toBeGreaterThan(sizes[i - 1])
+      expect(radii[i]).toBeGreaterThan(radii[i - 1])
+    }
+  })
+
+  it('clamps out-of-range strengths to the nearest level', () => {
+    expect(pixelSizeForStrength(0)).toBe(pixelSizeForStrength(1))
+    expect(blurRadiusForStrength(99)).toBe(blurRadiusForStrength(REDACTION_STRENGTHS[REDACTION_STRENGTHS.length - 1]))
+  })
+
+  it('samples three standard deviations past the edges when blurring', () => {
+    expect(blurMargin(1)).toBe(blurRadiusForStrength(1) * 3)
+  })
+})
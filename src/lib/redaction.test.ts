@@ -0,0 +1,109 @@
+import { describe, it, expect } from 'vitest'
+import { createRedactor, describeRedactions, redactMetadata, validatePattern, type RedactionRules } from './redaction'
+import type { PageMetadata } from './metadata'
+
+const rules: RedactionRules = {
+  queryParams: ['token'],
+  patterns: ['[\\w.+-]+@[\\w-]+\\.[\\w.]+', 'acct_\\d+'],
+  stripFragmentOrigins: ['app.example.com'],
+}
+
+const metadata: PageMetadata = {
+  url: 'https://app.example.com/accounts/acct_123?token=abc&tab=2#access_token=xyz',
+  title: 'Inbox - jane@example.com',
+  browser: 'Chrome',
+  browserVersion: '126',
+  viewportWidth: 1280,
+  viewportHeight: 800,
+  devicePixelRatio: 1,
+}
+
+describe('createRedactor', () => {
+  it('replaces pattern matches in text, case-insensitively', () => {
+    const redact = createRedactor(rules)
+
+    expect(redact.text('Contact JANE@EXAMPLE.COM about ACCT_42')).toBe('Contact [REDACTED] about [REDACTED]')
+  })
+
+  it('strips fragments on configured origins only', () => {
+    const redact = createRedactor({ ...rules, patterns: [] })
+
+    expect(redact.url('https://app.example.com/#token=1')).toBe('https://app.example.com/')
+    expect(redact.url('https://docs.example.com/page#section')).toBe('https://docs.example.com/page#section')
+  })
+
+  it('redacts query parameters and patterns in URLs', () => {
+    const redact = createRedactor(rules)
+
+    expect(redact.url('https://other.com/acct_9?token=secret')).toBe('https://other.com/[REDACTED]?token=REDACTED')
+  })
+
+  it('skips invalid patterns', () => {
+    const redact = createRedactor({ ...rules, patterns: ['(unclosed', 'secret'] })
+
+    expect(redact.text('a secret')).toBe('a [REDACTED]')
+  })
+})
+
+describe('redactMetadata', () => {
+  it('redacts the URL and title', () => {
+    const redacted = redactMetadata(metadata, rules)
+
+    expect(redacted.url).toBe('https://app.example.com/accounts/[REDACTED]?token=REDACTED&tab=2')
+    expect(redacted.title).toBe('Inbox - [REDACTED]')
+  })
+
+  it('redacts logs, requests, breadcrumbs and extracted values', () => {
+    const redacted = redactMetadata({
+      ...metadata,
+      consoleLogs: [{ level: 'error', message: 'No access for jane@example.com', timestamp: 1, stack: 'at acct_5' }],
+      networkRequests: [{
+        url: 'https://app.example.com/api?token=t',
+        method: 'GET',
+        type: 'fetch',
+        startTime: 1,
+        duration: 1,
+        requestHeaders: { 'x-request-id': 'acct_9-req' },
+        responseHeaders: { 'content-type': 'application/json' },
+      }],
+      breadcrumbs: [
+        { type: 'navigation', detail: 'https://app.example.com/#secret', timestamp: 1 },
+        { type: 'click', target: 'link "jane@example.com"', timestamp: 2 },
+      ],
+      customFields: [{ label: 'Account', value: 'acct_77' }],
+    }, rules)
+
+    expect(redacted.consoleLogs?.[0].message).toBe('No access for [REDACTED]')
+    expect(redacted.consoleLogs?.[0].stack).toBe('at [REDACTED]')
+    expect(redacted.networkRequests?.[0].url).toBe('https://app.example.com/api?token=REDACTED')
+    expect(redacted.networkRequests?.[0].requestHeaders).toEqual({ 'x-request-id': '[REDACTED]-req' })
+    expect(redacted.networkRequests?.[0].responseHeaders).toEqual({ 'content-type': 'application/json' })
+    expect(redacted.breadcrumbs?.[0].detail).toBe('https://app.example.com/')
+    expect(redacted.breadcrumbs?.[1].target).toBe('link "[REDACTED]"')
+    expect(redacted.customFields?.[0].value).toBe('[REDACTED]')
+  })
+
+  it('leaves metadata alone with no rules', () => {
+    const redacted = redactMetadata(metadata, { queryParams: [], patterns: [], stripFragmentOrigins: [] })
+
+    expect(redacted.url).toBe(metadata.url)
+    expect(redacted.title).toBe(metadata.title)
+  })
+})
+
+describe('describeRedactions', () => {
+  it('names what changed', () => {
+    expect(describeRedactions(metadata, redactMetadata(metadata, rules))).toEqual(['URL', 'title'])
+  })
+
+  it('is empty when nothing changed', () => {
+    expect(describeRedactions(metadata, { ...metadata })).toEqual([])
+  })
+})
+
+describe('validatePattern', () => {
+  it('returns null for valid patterns and the error otherwise', () => {
+    expect(validatePattern('acct_\\d+')).toBeNull()
+    expect(validatePattern('(unclosed')).toEqual(expect.any(String))
+  })
+})
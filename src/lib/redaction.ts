@@ -0,0 +1,128 @@
+/**
+ * Report metadata redaction
+ *
+ * Applies the user's redaction rules (Settings → Redaction) to everything
+ * page-derived that goes into a report: the page URL and title, console
+ * output, recorded request URLs and headers, breadcrumbs and extracted values, and
+ * (through finalizeSnapshot) the DOM snapshot's text and URLs. The service
+ * worker runs this as the page is captured, before anything is stored, and
+ * the annotate page runs it again with the current rules before building the
+ * report and previews the result, so what it shows is what gets sent.
+ */
+
+import type { PageMetadata } from './metadata'
+import { redactUrl } from './network'
+import { normalizeOrigin } from './extractors'
+
+/** Replaces text matched by a redaction pattern */
+export const REDACTED_TEXT = '[REDACTED]'
+
+export interface RedactionRules {
+  /** Query parameters whose values are replaced in every URL */
+  queryParams: string[]
+  /** Regular expression sources (case-insensitive) whose matches are replaced in URLs, titles and logs */
+  patterns: string[]
+  /** Origins whose URL fragments (#...) are removed - for fragment-based auth tokens */
+  stripFragmentOrigins: string[]
+}
+
+/**
+ * Check a pattern the way redaction will compile it. Returns the error
+ * message, or null when it's valid.
+ */
+export function validatePattern(pattern: string): string | null {
+  try {
+    new RegExp(pattern, 'gi')
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern'
+  }
+}
+
+/**
+ * Compiles rules once for the many strings a report contains. Invalid
+ * patterns (which Settings refuses to save) are skipped.
+ */
+export function createRedactor(rules: RedactionRules) {
+  const patterns = rules.patterns
+    .filter((pattern) => pattern && validatePattern(pattern) === null)
+    .map((pattern) => new RegExp(pattern, 'gi'))
+  const fragmentOrigins = new Set(
+    rules.stripFragmentOrigins.map(normalizeOrigin).filter((origin): origin is string => !!origin)
+  )
+
+  const text = (value: string): string =>
+    patterns.reduce((result, pattern) => result.replace(pattern, REDACTED_TEXT), value)
+
+  const url = (value: string): string => {
+    let result = value
+    try {
+      const parsed = new URL(value)
+      if (parsed.hash && fragmentOrigins.has(parsed.origin)) {
+        parsed.hash = ''
+        result = parsed.href
+      }
+    } catch {
+      // Not a URL - patterns still apply
+    }
+    return text(redactUrl(result, rules.queryParams))
+  }
+
+  return { text, url }
+}
+
+/**
+ * Apply redaction rules to report metadata, returning a redacted copy
+ */
+export function redactMetadata(metadata: PageMetadata, rules: RedactionRules): PageMetadata {
+  const redact = createRedactor(rules)
+
+  return {
+    ...metadata,
+    url: redact.url(metadata.url),
+    title: redact.text(metadata.title),
+    element: metadata.element && {
+      ...metadata.element,
+      textSnippet: redact.text(metadata.element.textSnippet),
+    },
+    customFields: metadata.customFields?.map((field) => ({ ...field, value: redact.text(field.value) })),
+    consoleLogs: metadata.consoleLogs?.map((entry) => ({
+      ...entry,
+      message: redact.text(entry.message),
+      source: entry.source && redact.url(entry.source),
+      stack: entry.stack && redact.text(entry.stack),
+    })),
+    networkRequests: metadata.networkRequests?.map((request) => ({
+      ...request,
+      url: redact.url(request.url),
+      requestHeaders: request.requestHeaders && redactHeaderValues(request.requestHeaders, redact.text),
+      responseHeaders: request.responseHeaders && redactHeaderValues(request.responseHeaders, redact.text),
+    })),
+    breadcrumbs: metadata.breadcrumbs?.map((crumb) => ({
+      ...crumb,
+      target: crumb.target && redact.text(crumb.target),
+      detail: crumb.detail && (crumb.type === 'navigation' ? redact.url(crumb.detail) : redact.text(crumb.detail)),
+    })),
+  }
+}
+
+function redactHeaderValues(headers: Record<string, string>, redact: (value: string) => string): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, redact(value)]))
+}
+
+/**
+ * Name the parts of the metadata that redaction changed, for the preview
+ */
+export function describeRedactions(original: PageMetadata, redacted: PageMetadata): string[] {
+  const changed = (a: unknown, b: unknown) => JSON.stringify(a) !== JSON.stringify(b)
+  const parts: [string, keyof PageMetadata][] = [
+    ['URL', 'url'],
+    ['title', 'title'],
+    ['element text', 'element'],
+    ['custom fields', 'customFields'],
+    ['console log', 'consoleLogs'],
+    ['network log', 'networkRequests'],
+    ['steps', 'breadcrumbs'],
+  ]
+  return parts.filter(([, key]) => changed(original[key], redacted[key])).map(([label]) => label)
+}
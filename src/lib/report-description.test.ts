@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest'
+import { formatReportDescription } from './report-description'
+import type { PageMetadata } from './metadata'
+
+const metadata: PageMetadata = {
+  url: 'https://example.com/',
+  title: 'Example',
+  browser: 'Chrome',
+  browserVersion: '120.0.0',
+  viewportWidth: 1280,
+  viewportHeight: 720,
+  devicePixelRatio: 1,
+}
+
+describe('formatReportDescription', () => {
+  it('puts the description and steps above the metadata in HTML', () => {
+    const result = formatReportDescription(
+      { description: 'Button does <nothing>\nat all', steps: ['Click Save'], metadata },
+      'html'
+    )
+
+    expect(result).toMatch(
+      /^<p>Button does &lt;nothing&gt;<br>at all<\/p><p><strong>Steps to reproduce:<\/strong><\/p><ol><li>Click Save<\/li><\/ol><hr><p><strong>URL:<\/strong>/
+    )
+  })
+
+  it('separates sections with blank lines and a rule in Markdown', () => {
+    const result = formatReportDescription({ description: 'Broken', steps: ['Click Save'], metadata }, 'markdown')
+
+    expect(result).toMatch(/^Broken\n\n\*\*Steps to reproduce:\*\*\n\n1\. Click Save\n\n---\n\n\| Field \| Value \|/)
+  })
+
+  it('keeps the rule when there is only a description', () => {
+    const result = formatReportDescription({ description: 'Broken', steps: [], metadata }, 'text')
+
+    expect(result).toMatch(/^Broken\n\n---\n\nURL: https:\/\/example\.com\//)
+  })
+
+  it('is just the metadata when the user added nothing', () => {
+    const result = formatReportDescription({ description: '  \n', steps: [], metadata }, 'html')
+
+    expect(result).toMatch(/^<p><strong>URL:<\/strong>/)
+    expect(result).not.toContain('<hr>')
+  })
+})
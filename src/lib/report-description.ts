@@ -0,0 +1,34 @@
+/**
+ * Report body assembly
+ *
+ * Puts the user's description and reproduction steps above the page
+ * metadata, rendered in the target integration's preferred format.
+ */
+
+import { formatSteps } from './breadcrumbs'
+import { formatMetadata, type PageMetadata } from './metadata'
+import { getFormatter, type ReportFormat } from './report-format'
+
+export interface ReportContent {
+  /** What the user typed, as plain text */
+  description: string
+  /** Reproduction steps, unnumbered */
+  steps: string[]
+  /** Metadata to include, already filtered by the user's toggles */
+  metadata: PageMetadata
+}
+
+/**
+ * Build the report body: description, steps, a separator, then metadata.
+ * The separator is left out when there's nothing above the metadata.
+ */
+export function formatReportDescription(content: ReportContent, format: ReportFormat): string {
+  const formatter = getFormatter(format)
+  const userContent = formatter.join([
+    content.description.trim() ? formatter.paragraph(content.description.trim()) : '',
+    formatSteps(content.steps, format),
+  ])
+  const metadata = formatMetadata(content.metadata, format)
+
+  return userContent ? formatter.join([userContent, formatter.rule(), metadata]) : metadata
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest'
+import { escapeMarkdown, getFormatter, htmlFormatter, markdownFormatter, textFormatter } from './report-format'
+
+describe('getFormatter', () => {
+  it('returns the formatter for each format', () => {
+    expect(getFormatter('html')).toBe(htmlFormatter)
+    expect(getFormatter('markdown')).toBe(markdownFormatter)
+    expect(getFormatter('text')).toBe(textFormatter)
+  })
+})
+
+describe('htmlFormatter', () => {
+  it('escapes the user paragraph and keeps line breaks', () => {
+    expect(htmlFormatter.paragraph('Broken <form>\nafter save')).toBe('<p>Broken &lt;form&gt;<br>after save</p>')
+  })
+
+  it('links only absolute URLs', () => {
+    expect(htmlFormatter.link('https://example.com/?a=1&b=2')).toBe(
+      '<a href="https://example.com/?a=1&amp;b=2">https://example.com/?a=1&amp;b=2</a>'
+    )
+    expect(htmlFormatter.link('Unknown')).toBe('Unknown')
+  })
+
+  it('collapses a summarized code block', () => {
+    expect(htmlFormatter.codeBlock('a < b', 'Log')).toBe(
+      '<details><summary><strong>Log</strong></summary><pre>a &lt; b</pre></details>'
+    )
+    expect(htmlFormatter.codeBlock('plain')).toBe('<pre>plain</pre>')
+  })
+})
+
+describe('markdownFormatter', () => {
+  it('escapes formatting characters', () => {
+    expect(escapeMarkdown('*a* _b_ `c` [d] <e> #f')).toBe('\\*a\\* \\_b\\_ \\`c\\` \\[d\\] \\<e\\> \\#f')
+  })
+
+  it('keeps line breaks and paragraphs in the user text', () => {
+    expect(markdownFormatter.paragraph('one\ntwo\n\nthree')).toBe('one  \ntwo\n\nthree')
+  })
+
+  it('fences inline code around backticks in the value', () => {
+    expect(markdownFormatter.code('a > b')).toBe('`a > b`')
+    expect(markdownFormatter.code('x `y` z')).toBe('``x `y` z``')
+    expect(markdownFormatter.code('`y`')).toBe('`` `y` ``')
+  })
+
+  it('renders fields as a table, escaping pipes and newlines in cells', () => {
+    expect(markdownFormatter.fields([['Build', markdownFormatter.code('a|b')], ['Note', 'one\ntwo']])).toBe(
+      '| Field | Value |\n| --- | --- |\n| Build | `a\\|b` |\n| Note | one two |'
+    )
+  })
+
+  it('fences code blocks longer than any backtick run inside', () => {
+    expect(markdownFormatter.codeBlock('```js\nx\n```')).toBe('````\n```js\nx\n```\n````')
+  })
+
+  it('autolinks URLs', () => {
+    expect(markdownFormatter.link('https://example.com/a_b?q=<x>')).toBe('<https://example.com/a_b?q=%3Cx%3E>')
+    expect(markdownFormatter.link('Unknown')).toBe('Unknown')
+  })
+
+  it('separates blocks with blank lines, skipping empty ones', () => {
+    expect(markdownFormatter.join(['a', '', 'b'])).toBe('a\n\nb')
+  })
+})
+
+describe('textFormatter', () => {
+  it('renders fields and lists without markup', () => {
+    expect(textFormatter.fields([['URL', textFormatter.link('https://example.com/')]])).toBe('URL: https://example.com/')
+    expect(textFormatter.list(['one', 'two'], true)).toBe('1. one\n2. two')
+    expect(textFormatter.list(['one'])).toBe('- one')
+  })
+
+  it('indents code blocks under their summary', () => {
+    expect(textFormatter.codeBlock('a\nb', 'Log')).toBe('Log:\n    a\n    b')
+  })
+})
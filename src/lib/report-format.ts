@@ -0,0 +1,165 @@
+/**
+ * Report formatters
+ *
+ * The report body (description, steps, metadata, logs) is built once against
+ * the ReportFormatter interface and rendered in whichever format the target
+ * integration declares: HTML for rich-text APIs like Fizzy and Basecamp,
+ * Markdown for trackers that take GitHub-flavored Markdown, plain text for
+ * everything else.
+ *
+ * Block methods return complete blocks; combine them with `join`. Inline
+ * methods (`text`, `strong`, `code`, `link`) escape their input and return
+ * fragments to pass into `fields` values and `list` items.
+ */
+
+export type ReportFormat = 'html' | 'markdown' | 'text'
+
+export interface ReportFormatter {
+  readonly format: ReportFormat
+
+  /** Plain text, escaped for the format */
+  text(value: string): string
+  /** Emphasized text */
+  strong(value: string): string
+  /** Inline code */
+  code(value: string): string
+  /** A link to a URL, or the escaped text when it isn't one */
+  link(url: string): string
+
+  /** The user's own multi-line text, line breaks kept */
+  paragraph(value: string): string
+  /** A label introducing the block after it, e.g. "Steps to reproduce" */
+  heading(value: string): string
+  /** Label/value rows - a table in Markdown. Values are inline fragments. */
+  fields(rows: [string, string][]): string
+  /** A bulleted or numbered list of inline fragments */
+  list(items: string[], ordered?: boolean): string
+  /** Preformatted text such as a log, optionally introduced by a summary */
+  codeBlock(value: string, summary?: string): string
+  /** A separator between the user's content and the metadata */
+  rule(): string
+  /** Combine blocks, skipping empty ones */
+  join(blocks: string[]): string
+}
+
+/**
+ * Escape HTML special characters
+ */
+export function escapeHtml(str: string): string {
+  const htmlEntities: Record<string, string> = {
+    '&': '&amp;',
+    '<': '&lt;',
+    '>': '&gt;',
+    '"': '&quot;',
+    "'": '&#39;',
+  }
+
+  return str.replace(/[&<>"']/g, (char) => htmlEntities[char])
+}
+
+/**
+ * Escape the characters Markdown would otherwise read as formatting
+ */
+export function escapeMarkdown(str: string): string {
+  return str.replace(/[\\`*_[\]<>~#]/g, '\\$&')
+}
+
+/** Absolute URLs are linked; anything else ("Unknown") stays text */
+function isLinkable(url: string): boolean {
+  return /^https?:\/\/\S+$/i.test(url)
+}
+
+/** A backtick fence longer than any run of backticks in the value */
+function backtickFence(value: string, minimum: number): string {
+  const longest = Math.max(0, ...(value.match(/`+/g) ?? []).map((run) => run.length))
+  return '`'.repeat(Math.max(minimum, longest + 1))
+}
+
+export const htmlFormatter: ReportFormatter = {
+  format: 'html',
+  text: escapeHtml,
+  strong: (value) => `<strong>${escapeHtml(value)}</strong>`,
+  code: (value) => `<code>${escapeHtml(value)}</code>`,
+  link: (url) => (isLinkable(url) ? `<a href="${escapeHtml(url)}">${escapeHtml(url)}</a>` : escapeHtml(url)),
+  paragraph: (value) => `<p>${escapeHtml(value).replace(/\n/g, '<br>')}</p>`,
+  heading: (value) => `<p><strong>${escapeHtml(value)}:</strong></p>`,
+  fields: (rows) => rows.map(([label, value]) => `<p><strong>${escapeHtml(label)}:</strong> ${value}</p>`).join(''),
+  list: (items, ordered = false) => {
+    const tag = ordered ? 'ol' : 'ul'
+    return `<${tag}>${items.map((item) => `<li>${item}</li>`).join('')}</${tag}>`
+  },
+  codeBlock: (value, summary) => {
+    const pre = `<pre>${escapeHtml(value)}</pre>`
+    return summary ? `<details><summary><strong>${escapeHtml(summary)}</strong></summary>${pre}</details>` : pre
+  },
+  rule: () => '<hr>',
+  join: (blocks) => blocks.filter(Boolean).join(''),
+}
+
+export const markdownFormatter: ReportFormatter = {
+  format: 'markdown',
+  text: escapeMarkdown,
+  strong: (value) => `**${escapeMarkdown(value)}**`,
+  code: (value) => {
+    const fence = backtickFence(value, 1)
+    const padding = value.startsWith('`') || value.endsWith('`') ? ' ' : ''
+    return `${fence}${padding}${value}${padding}${fence}`
+  },
+  link: (url) => (isLinkable(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : escapeMarkdown(url)),
+  paragraph: (value) =>
+    value
+      .split(/\n{2,}/)
+      .map((block) => block.split('\n').map(escapeMarkdown).join('  \n'))
+      .join('\n\n'),
+  heading: (value) => `**${escapeMarkdown(value)}:**`,
+  fields: (rows) => {
+    // Pipes end a cell, even inside a code span, and a row is one line
+    const cell = (value: string) => value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+    return [
+      '| Field | Value |',
+      '| --- | --- |',
+      ...rows.map(([label, value]) => `| ${cell(escapeMarkdown(label))} | ${cell(value)} |`),
+    ].join('\n')
+  },
+  list: (items, ordered = false) =>
+    items.map((item, i) => `${ordered ? `${i + 1}.` : '-'} ${item}`).join('\n'),
+  codeBlock: (value, summary) => {
+    const fence = backtickFence(value, 3)
+    const block = `${fence}\n${value}\n${fence}`
+    return summary ? `**${escapeMarkdown(summary)}**\n\n${block}` : block
+  },
+  rule: () => '---',
+  join: (blocks) => blocks.filter(Boolean).join('\n\n'),
+}
+
+export const textFormatter: ReportFormatter = {
+  format: 'text',
+  text: (value) => value,
+  strong: (value) => value,
+  code: (value) => value,
+  link: (url) => url,
+  paragraph: (value) => value,
+  heading: (value) => `${value}:`,
+  fields: (rows) => rows.map(([label, value]) => `${label}: ${value}`).join('\n'),
+  list: (items, ordered = false) =>
+    items.map((item, i) => `${ordered ? `${i + 1}.` : '-'} ${item}`).join('\n'),
+  codeBlock: (value, summary) => {
+    const block = value.split('\n').map((line) => `    ${line}`).join('\n')
+    return summary ? `${summary}:\n${block}` : block
+  },
+  rule: () => '---',
+  join: (blocks) => blocks.filter(Boolean).join('\n\n'),
+}
+
+const FORMATTERS: Record<ReportFormat, ReportFormatter> = {
+  html: htmlFormatter,
+  markdown: markdownFormatter,
+  text: textFormatter,
+}
+
+/**
+ * Get the formatter for a report format
+ */
+export function getFormatter(format: ReportFormat): ReportFormatter {
+  return FORMATTERS[format]
+}
@@ -0,0 +1,174 @@
+/**
+ * Sensitive content detection
+ *
+ * At capture time the service worker scans the tab's visible text and form
+ * fields for things that shouldn't end up in a bug report - email addresses,
+ * phone numbers, card numbers, IBANs, API keys, and filled-in password and
+ * card fields. The matches are proposed as redaction zones on the annotate
+ * page, where the reporter confirms or dismisses each one before submitting.
+ *
+ * The patterns are deliberately loose; the checks here (Luhn, IBAN checksum,
+ * digit counts) weed out the obvious false positives before the reporter
+ * sees them.
+ */
+
+export type SensitiveKind = 'email' | 'phone' | 'creditCard' | 'iban' | 'apiKey' | 'password'
+
+export const SENSITIVE_KIND_LABELS: Record<SensitiveKind, string> = {
+  email: 'Email address',
+  phone: 'Phone number',
+  creditCard: 'Card number',
+  iban: 'IBAN',
+  apiKey: 'API key',
+  password: 'Password',
+}
+
+/**
+ * A text pattern, as source and flags so it can be handed to the injected
+ * scanner (RegExps don't survive executeScript's argument serialization)
+ */
+export interface SensitivePattern {
+  kind: SensitiveKind
+  source: string
+  flags: string
+}
+
+/**
+ * Text patterns, most specific first: where matches overlap, the earlier
+ * pattern wins
+ */
+export const SENSITIVE_PATTERNS: SensitivePattern[] = [
+  {
+    kind: 'apiKey',
+    source: [
+      '\\b(?:sk|pk|rk)_(?:live|test)_[A-Za-z0-9]{10,}', // Stripe
+      '\\bsk-[A-Za-z0-9_-]{20,}', // OpenAI-style secret keys
+      '\\bAKIA[0-9A-Z]{16}\\b', // AWS access key IDs
+      '\\bgh[pousr]_[A-Za-z0-9]{36,}', // GitHub tokens
+      '\\bxox[abprs]-[A-Za-z0-9-]{10,}', // Slack tokens
+      '\\bAIza[0-9A-Za-z_-]{35}', // Google API keys
+      '\\beyJ[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}\\.[A-Za-z0-9_-]{10,}', // JWTs
+    ].join('|'),
+    flags: 'g',
+  },
+  { kind: 'email', source: '[A-Z0-9._%+-]+@[A-Z0-9.-]+\\.[A-Z]{2,}', flags: 'gi' },
+  { kind: 'iban', source: '\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]){11,30}\\b', flags: 'g' },
+  { kind: 'creditCard', source: '\\b\\d(?:[ -]?\\d){12,18}\\b', flags: 'g' },
+  { kind: 'phone', source: '\\+?\\(?\\d[\\d ().-]{7,}\\d', flags: 'g' },
+]
+
+/** A match the injected scanner found, in page CSS pixels */
+export interface SensitiveCandidate {
+  kind: SensitiveKind
+  /** The matched text; absent for fields flagged by their type alone */
+  text?: string
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** A proposed redaction, in screenshot pixels */
+export interface SensitiveRegion {
+  kind: SensitiveKind
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Space left around each match, in CSS pixels */
+const REGION_PADDING = 2
+
+/**
+ * Whether a pattern match is really what it looks like. Candidates without
+ * text (password and card fields) always are.
+ */
+export function isSensitiveMatch(candidate: Pick<SensitiveCandidate, 'kind' | 'text'>): boolean {
+  const { kind, text } = candidate
+  if (text === undefined) return true
+  const digits = text.replace(/\D/g, '')
+  switch (kind) {
+    case 'creditCard':
+      return digits.length >= 13 && digits.length <= 19 && passesLuhn(digits)
+    case 'iban':
+      return isValidIban(text)
+    case 'phone':
+      // Bare digit runs are more often IDs and amounts than phone numbers
+      return digits.length >= 9 && digits.length <= 15 && /^\+|[ ().-]/.test(text)
+    default:
+      return true
+  }
+}
+
+/**
+ * The Luhn checksum every payment card number carries
+ */
+export function passesLuhn(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return digits.length > 0 && sum % 10 === 0
+}
+
+/**
+ * ISO 13616 check: the rearranged IBAN, letters as numbers, mod 97 is 1
+ */
+export function isValidIban(text: string): boolean {
+  const iban = text.replace(/ /g, '').toUpperCase()
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/.test(iban)) return false
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const value = char >= 'A' ? (char.charCodeAt(0) - 55).toString() : char
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97
+    }
+  }
+  return remainder === 1
+}
+
+/**
+ * Turn the scanner's candidates into redaction proposals: drop false
+ * positives and overlaps, pad each match, and map it into the screenshot
+ * (given where its top-left pixel sits on the page, as for DOM snapshots).
+ * Matches entirely outside `bounds` (the screenshot size in pixels, when
+ * known) are left out.
+ */
+export function toSensitiveRegions(
+  candidates: SensitiveCandidate[],
+  origin: { x: number; y: number; scale: number },
+  bounds?: { width: number; height: number }
+): SensitiveRegion[] {
+  const scale = origin.scale || 1
+  const kept: SensitiveCandidate[] = []
+  const regions: SensitiveRegion[] = []
+  for (const candidate of candidates) {
+    if (!isSensitiveMatch(candidate)) continue
+    if (kept.some((other) => overlaps(other, candidate))) continue
+    const region: SensitiveRegion = {
+      kind: candidate.kind,
+      x: (candidate.x - REGION_PADDING - origin.x) * scale,
+      y: (candidate.y - REGION_PADDING - origin.y) * scale,
+      width: (candidate.width + REGION_PADDING * 2) * scale,
+      height: (candidate.height + REGION_PADDING * 2) * scale,
+    }
+    if (bounds && !overlaps(region, { x: 0, y: 0, ...bounds })) continue
+    kept.push(candidate)
+    regions.push(region)
+  }
+  return regions
+}
+
+function overlaps(
+  a: { x: number; y: number; width: number; height: number },
+  b: { x: number; y: number; width: number; height: number }
+): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height
+}
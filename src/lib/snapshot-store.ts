@@ -0,0 +1,55 @@
+/**
+ * Storage for DOM snapshots
+ *
+ * Snapshots live in IndexedDB for the same reason recordings do (see
+ * recording-store.ts): with images inlined as data URIs a snapshot easily
+ * outgrows chrome.storage.session's 10 MB. The service worker writes one per
+ * capture and the annotate page reads it by id.
+ */
+
+import { createIdbStore } from './idb-store'
+
+const DB_NAME = 'popshot-snapshots'
+const STORE_NAME = 'snapshots'
+
+export interface StoredSnapshot {
+  id: string
+  /** Serialized page, still carrying element rects for redaction (see lib/dom-snapshot.ts) */
+  html: string
+  /**
+   * Where the screenshot sits on the page: the document position (CSS
+   * pixels) of its top-left pixel, and screenshot pixels per CSS pixel
+   */
+  origin: { x: number; y: number; scale: number }
+  createdAt: number
+}
+
+const { withStore, deleteOlderThan } = createIdbStore(DB_NAME, STORE_NAME)
+
+/**
+ * Save a snapshot, replacing any existing snapshot with the same id
+ */
+export async function saveSnapshot(snapshot: StoredSnapshot): Promise<void> {
+  await withStore('readwrite', (store) => store.put(snapshot))
+}
+
+/**
+ * Get a snapshot by id
+ */
+export async function getSnapshot(id: string): Promise<StoredSnapshot | undefined> {
+  return withStore<StoredSnapshot | undefined>('readonly', (store) => store.get(id))
+}
+
+/**
+ * Delete a snapshot by id (no-op if it doesn't exist)
+ */
+export async function deleteSnapshot(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id))
+}
+
+/**
+ * Delete snapshots created before `cutoff` (epoch ms), returning how many were deleted
+ */
+export async function deleteSnapshotsOlderThan(cutoff: number): Promise<number> {
+  return deleteOlderThan(cutoff)
+}
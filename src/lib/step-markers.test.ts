@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { addStepLine, moveStep, renumberStepLines, renumberSteps } from './step-markers'
+
+describe('renumberSteps', () => {
+  it('numbers the kept steps in order and maps removed ones to null', () => {
+    expect(renumberSteps([1, 3, 4], [2])).toEqual(new Map([[1, 1], [3, 2], [4, 3], [2, null]]))
+  })
+})
+
+describe('moveStep', () => {
+  it('swaps a step with its neighbor', () => {
+    expect(moveStep(3, 2, -1)).toEqual(new Map([[2, 1], [1, 2]]))
+    expect(moveStep(3, 2, 1)).toEqual(new Map([[2, 3], [3, 2]]))
+  })
+
+  it('does nothing past either end', () => {
+    expect(moveStep(3, 1, -1)).toBeNull()
+    expect(moveStep(3, 3, 1)).toBeNull()
+  })
+})
+
+describe('renumberStepLines', () => {
+  it('drops the removed step and closes the gap', () => {
+    const text = 'Checkout is broken\n1. Open cart\n2. Apply coupon\n3. Pay'
+    expect(renumberStepLines(text, renumberSteps([1, 3], [2]))).toBe('Checkout is broken\n1. Open cart\n2. Pay')
+  })
+
+  it('reorders lines when steps swap', () => {
+    const text = '1. Open cart\n2. Apply coupon\nNote\n3. Pay'
+    expect(renumberStepLines(text, moveStep(3, 3, -1)!)).toBe('1. Open cart\n2. Pay\nNote\n3. Apply coupon')
+  })
+
+  it('leaves other lines and unmapped numbers alone', () => {
+    const text = 'Version 2.0 fails\n1. Open\n7. Unrelated'
+    expect(renumberStepLines(text, renumberSteps([], [1]))).toBe('Version 2.0 fails\n7. Unrelated')
+  })
+
+  it('keeps empty step lines', () => {
+    expect(renumberStepLines('1. \n2. ', renumberSteps([2], [1]))).toBe('1. ')
+  })
+})
+
+describe('addStepLine', () => {
+  it('appends a numbered line', () => {
+    expect(addStepLine('', 1)).toBe('1. ')
+    expect(addStepLine('Broken\n1. Open', 2)).toBe('Broken\n1. Open\n2. ')
+    expect(addStepLine('Broken\n', 1)).toBe('Broken\n1. ')
+  })
+
+  it('keeps an existing line for the step', () => {
+    expect(addStepLine('1. Open', 1)).toBe('1. Open')
+  })
+})
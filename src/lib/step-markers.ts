@@ -0,0 +1,78 @@
+/**
+ * Numbered step markers
+ *
+ * The annotate page's step tool drops numbered circles on the screenshot.
+ * Markers are always numbered 1..n: deleting or reordering one renumbers the
+ * rest, and - when the reporter opts in - the matching "1. ..." lines in the
+ * description follow along.
+ */
+
+/** A renumbering: old number → new number, or null when the step was removed */
+export type StepRenumbering = Map<number, number | null>
+
+/**
+ * Renumber steps so `kept` (old numbers, in their new order) become 1..n and
+ * `removed` map to null
+ */
+export function renumberSteps(kept: number[], removed: number[] = []): StepRenumbering {
+  const mapping: StepRenumbering = new Map()
+  kept.forEach((number, i) => mapping.set(number, i + 1))
+  for (const number of removed) {
+    mapping.set(number, null)
+  }
+  return mapping
+}
+
+/**
+ * The renumbering that moves step `number` one place earlier (-1) or later
+ * (+1) among `count` steps, or null when it's already first or last
+ */
+export function moveStep(count: number, number: number, direction: -1 | 1): StepRenumbering | null {
+  const target = number + direction
+  if (number < 1 || number > count || target < 1 || target > count) return null
+  return new Map([[number, target], [target, number]])
+}
+
+const STEP_LINE = /^(\s*)(\d+)\.(\s.*|)$/
+
+/**
+ * Apply a renumbering to the "n. ..." lines of a description. Renumbered
+ * lines are put back in number order within the slots step lines occupied;
+ * removed steps lose their line. Other lines (and numbered lines the
+ * renumbering doesn't mention) are left alone.
+ */
+export function renumberStepLines(text: string, mapping: StepRenumbering): string {
+  const lines = text.split('\n')
+  const slots: number[] = []
+  const moved: { number: number; line: string }[] = []
+  const removed = new Set<number>()
+
+  lines.forEach((line, index) => {
+    const match = line.match(STEP_LINE)
+    if (!match || !mapping.has(Number(match[2]))) return
+    const next = mapping.get(Number(match[2]))
+    if (next === null || next === undefined) {
+      removed.add(index)
+      return
+    }
+    slots.push(index)
+    moved.push({ number: next, line: `${match[1]}${next}.${match[3]}` })
+  })
+
+  moved.sort((a, b) => a.number - b.number)
+  slots.forEach((slot, i) => {
+    lines[slot] = moved[i].line
+  })
+  return lines.filter((_, index) => !removed.has(index)).join('\n')
+}
+
+/**
+ * Add an empty "n. " line for a new step, unless the description already
+ * has one
+ */
+export function addStepLine(text: string, number: number): string {
+  const exists = text.split('\n').some((line) => Number(line.match(STEP_LINE)?.[2]) === number)
+  if (exists) return text
+  const prefix = text === '' || text.endsWith('\n') ? text : `${text}\n`
+  return `${prefix}${number}. `
+}
@@ -35,7 +35,16 @@ import {
   getOriginFromUrl,
   getLastUsedIntegration,
   setLastUsedIntegration,
+  getMetadataExtractors,
+  setMetadataExtractors,
+  getRedactionSettings,
+  setRedactionSettings,
+  getRecentColors,
+  setRecentColors,
+  getColorPalettes,
+  setColorPalettes,
 } from './storage'
+import { DEFAULT_REDACTED_QUERY_PARAMS } from './network'
 
 describe('storage', () => {
   beforeEach(() => {
@@ -93,6 +102,72 @@ describe('storage', () => {
     })
   })
 
+  describe('Redaction settings', () => {
+    it('defaults to the built-in query parameters and no patterns or fragment origins', async () => {
+      expect(await getRedactionSettings()).toEqual({
+        queryParams: DEFAULT_REDACTED_QUERY_PARAMS,
+        patterns: [],
+        stripFragmentOrigins: [],
+      })
+    })
+
+    it('stores and retrieves settings', async () => {
+      const settings = {
+        queryParams: ['session_id'],
+        patterns: ['acct_\\d+'],
+        stripFragmentOrigins: ['https://app.example.com'],
+      }
+      await setRedactionSettings(settings)
+
+      expect(await getRedactionSettings()).toEqual(settings)
+    })
+
+    it('falls back to query parameters saved by older versions', async () => {
+      setMockStorage({ networkCapture: { redactedQueryParams: ['session_id'] } })
+
+      expect((await getRedactionSettings()).queryParams).toEqual(['session_id'])
+    })
+
+    it('drops the older network capture settings once saved', async () => {
+      setMockStorage({ networkCapture: { redactedQueryParams: ['session_id'] } })
+      await setRedactionSettings({ queryParams: ['token'], patterns: [], stripFragmentOrigins: [] })
+
+      expect(getMockStorage().networkCapture).toBeUndefined()
+      expect((await getRedactionSettings()).queryParams).toEqual(['token'])
+    })
+  })
+
+  describe('Metadata extractors', () => {
+    it('defaults to none', async () => {
+      expect(await getMetadataExtractors()).toEqual([])
+    })
+
+    it('stores and retrieves extractors', async () => {
+      const configs = [{
+        origin: 'https://app.example.com',
+        extractors: [{ label: 'Build', source: 'meta' as const, query: 'build-sha' }],
+      }]
+      await setMetadataExtractors(configs)
+      expect(await getMetadataExtractors()).toEqual(configs)
+    })
+  })
+
+  describe('Annotation colors', () => {
+    it('defaults to no recent colors or palettes', async () => {
+      expect(await getRecentColors()).toEqual([])
+      expect(await getColorPalettes()).toEqual([])
+    })
+
+    it('stores and retrieves recent colors and palettes', async () => {
+      const palettes = [{ name: 'Brand', colors: ['#0f172a', '#38bdf8'] }]
+      await setRecentColors(['#38bdf8'])
+      await setColorPalettes(palettes)
+
+      expect(await getRecentColors()).toEqual(['#38bdf8'])
+      expect(await getColorPalettes()).toEqual(palettes)
+    })
+  })
+
   describe('URL-to-board defaults', () => {
     it('returns empty object when no defaults exist', async () => {
       const result = await getUrlBoardDefaults()
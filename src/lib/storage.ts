@@ -10,6 +10,9 @@ import type {
   FizzyCredentials,
   BasecampCredentials,
 } from './integrations/types'
+import { DEFAULT_REDACTED_QUERY_PARAMS } from './network'
+import type { OriginExtractors } from './extractors'
+import type { RedactionRules } from './redaction'
 
 // Re-export types for convenience
 export type { IntegrationCredentials, IntegrationPreferences, FizzyCredentials, BasecampCredentials }
@@ -23,6 +26,31 @@ export interface StorageData {
   integrationCredentials?: IntegrationCredentials
   /** User preferences for integrations */
   integrationPreferences?: IntegrationPreferences
+  /**
+   * Redacted query parameters, from before they moved into `redaction`
+   * @deprecated Read by getRedactionSettings() until the settings are saved again
+   */
+  networkCapture?: { redactedQueryParams?: string[] }
+  /** Per-origin custom metadata extractors */
+  metadataExtractors?: OriginExtractors[]
+  /** Redaction rules for everything a report carries */
+  redaction?: RedactionSettings
+  /** Annotation colors used most recently, newest first */
+  recentColors?: string[]
+  /** Named sets of annotation colors, e.g. a team's design system */
+  colorPalettes?: ColorPalette[]
+}
+
+/**
+ * The redaction rules as configured in Settings → Redaction: query
+ * parameters, patterns and fragment-stripping origins in one record
+ */
+export type RedactionSettings = RedactionRules
+
+export interface ColorPalette {
+  name: string
+  /** "#rrggbb" colors */
+  colors: string[]
 }
 
 // ============ Legacy API Key functions (for backwards compatibility) ============
@@ -449,6 +477,81 @@ export async function setLastUsedDestination(
   await setIntegrationPreferences(prefs)
 }
 
+// ============ Redaction ============
+
+/**
+ * Get the redaction settings. Until the user saves their own, the built-in
+ * query parameters are redacted and there are no patterns or origins.
+ */
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  const result = await chrome.storage.local.get(['redaction', 'networkCapture'])
+  // Query parameters used to be saved with the network capture settings
+  const legacy = result.networkCapture as StorageData['networkCapture']
+  return {
+    queryParams: legacy?.redactedQueryParams ?? DEFAULT_REDACTED_QUERY_PARAMS,
+    patterns: [],
+    stripFragmentOrigins: [],
+    ...(result.redaction as Partial<RedactionSettings> | undefined),
+  }
+}
+
+/**
+ * Store the redaction settings
+ */
+export async function setRedactionSettings(settings: RedactionSettings): Promise<void> {
+  await chrome.storage.local.set({ redaction: settings })
+  await chrome.storage.local.remove('networkCapture')
+}
+
+// ============ Custom Metadata Extractors ============
+
+/**
+ * Get the configured per-origin metadata extractors
+ */
+export async function getMetadataExtractors(): Promise<OriginExtractors[]> {
+  const result = await chrome.storage.local.get(['metadataExtractors'])
+  return (result.metadataExtractors as OriginExtractors[] | undefined) ?? []
+}
+
+/**
+ * Store the per-origin metadata extractors
+ */
+export async function setMetadataExtractors(configs: OriginExtractors[]): Promise<void> {
+  await chrome.storage.local.set({ metadataExtractors: configs })
+}
+
+// ============ Annotation Colors ============
+
+/**
+ * Get the annotation colors used most recently, newest first
+ */
+export async function getRecentColors(): Promise<string[]> {
+  const result = await chrome.storage.local.get(['recentColors'])
+  return (result.recentColors as string[] | undefined) ?? []
+}
+
+/**
+ * Store the recently used annotation colors
+ */
+export async function setRecentColors(colors: string[]): Promise<void> {
+  await chrome.storage.local.set({ recentColors: colors })
+}
+
+/**
+ * Get the saved color palettes
+ */
+export async function getColorPalettes(): Promise<ColorPalette[]> {
+  const result = await chrome.storage.local.get(['colorPalettes'])
+  return (result.colorPalettes as ColorPalette[] | undefined) ?? []
+}
+
+/**
+ * Store the color palettes
+ */
+export async function setColorPalettes(palettes: ColorPalette[]): Promise<void> {
+  await chrome.storage.local.set({ colorPalettes: palettes })
+}
+
 // ============ Legacy Board/URL functions ============
 
 /**
@@ -520,6 +623,10 @@ export async function getAllStorageData(): Promise<StorageData> {
     'urlBoardDefaults',
     'integrationCredentials',
     'integrationPreferences',
+    'metadataExtractors',
+    'redaction',
+    'recentColors',
+    'colorPalettes',
   ]) as StorageData
 }
 
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { textEffectProps } from './text-style'
+
+describe('textEffectProps', () => {
+  it('outlines in the contrasting color, under the fill', () => {
+    expect(textEffectProps('outline', '#ef4444', 24)).toEqual({
+      stroke: '#ffffff',
+      strokeWidth: 3,
+      paintFirst: 'stroke',
+      shadow: null,
+    })
+    expect(textEffectProps('outline', '#eab308', 24).stroke).toBe('#000000')
+  })
+
+  it('keeps the outline visible on small text', () => {
+    expect(textEffectProps('outline', '#000000', 12).strokeWidth).toBe(2)
+  })
+
+  it('casts a contrasting shadow that grows with the font size', () => {
+    const small = textEffectProps('shadow', '#ffffff', 14)
+    const large = textEffectProps('shadow', '#ffffff', 64)
+
+    expect(small.stroke).toBeNull()
+    expect(small.shadow?.color).toBe('rgba(0, 0, 0, 0.8)')
+    expect(large.shadow!.blur).toBeGreaterThan(small.shadow!.blur)
+  })
+
+  it('clears the stroke and shadow without an effect', () => {
+    expect(textEffectProps('none', '#ef4444', 24)).toEqual({
+      stroke: null,
+      strokeWidth: 1,
+      paintFirst: 'fill',
+      shadow: null,
+    })
+  })
+})
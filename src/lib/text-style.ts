@@ -0,0 +1,92 @@
+/**
+ * Text annotation styling
+ *
+ * The toolbar edits a TextStyle; text annotations carry the same settings as
+ * Fabric text properties plus a few of their own (the background box, the
+ * legibility effect and whether the width follows the text).
+ */
+
+import { readableTextColor } from './colors'
+
+/** Extra contrast so text stays readable over busy screenshots */
+export type TextEffect = 'none' | 'outline' | 'shadow'
+
+export type TextAlign = 'left' | 'center' | 'right'
+
+export interface TextStyle {
+  fontSize: number
+  bold: boolean
+  italic: boolean
+  align: TextAlign
+  /** Draw a filled box behind the text */
+  box: boolean
+  /** Space between the text and the box's edge */
+  boxPadding: number
+  effect: TextEffect
+  /** Width lines wrap at, or 0 to only break lines at new lines */
+  wrapWidth: number
+}
+
+export const FONT_SIZES = [14, 18, 24, 32, 48, 64]
+
+export const TEXT_EFFECTS: TextEffect[] = ['none', 'outline', 'shadow']
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontSize: 24,
+  bold: false,
+  italic: false,
+  align: 'left',
+  box: false,
+  boxPadding: 8,
+  effect: 'none',
+  wrapWidth: 0,
+}
+
+/** Range offered for the box padding */
+export const MIN_BOX_PADDING = 0
+export const MAX_BOX_PADDING = 24
+
+/** Range offered for the wrap width, in canvas pixels */
+export const MIN_WRAP_WIDTH = 80
+export const MAX_WRAP_WIDTH = 800
+export const DEFAULT_WRAP_WIDTH = 300
+
+export interface TextEffectProps {
+  stroke: string | null
+  strokeWidth: number
+  /** Outlines go under the fill so they don't eat into thin letters */
+  paintFirst: 'fill' | 'stroke'
+  shadow: { color: string; blur: number; offsetX: number; offsetY: number } | null
+}
+
+/**
+ * Fabric text properties for an effect on text of the given color and size.
+ * The outline and shadow use black or white, whichever contrasts with the
+ * text, and grow with the font size.
+ */
+export function textEffectProps(effect: TextEffect, color: string, fontSize: number): TextEffectProps {
+  const contrast = readableTextColor(color)
+  switch (effect) {
+    case 'outline':
+      return {
+        stroke: contrast,
+        strokeWidth: Math.max(2, Math.round(fontSize / 8)),
+        paintFirst: 'stroke',
+        shadow: null,
+      }
+    case 'shadow':
+      return {
+        stroke: null,
+        strokeWidth: 1,
+        paintFirst: 'fill',
+        shadow: {
+          color: contrast === '#000000' ? 'rgba(0, 0, 0, 0.8)' : 'rgba(255, 255, 255, 0.8)',
+          blur: Math.max(4, Math.round(fontSize / 4)),
+          offsetX: 1,
+          offsetY: 1,
+        },
+      }
+    default:
+      return { stroke: null, strokeWidth: 1, paintFirst: 'fill', shadow: null }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Offscreen tab recorder
+ *
+ * Runs in the offscreen document the service worker opens for a recording
+ * (see background/tab-recording.ts). Turns the tab capture stream id into a
+ * MediaStream, records it with MediaRecorder and saves the finished WebM to
+ * the recording store.
+ */
+
+import { saveRecording } from '../lib/recording-store'
+
+/**
+ * Recordings stop on their own after this long. Basecamp uploads travel
+ * through extension messaging as a JSON byte array, which Chrome caps at
+ * 64 MB, so a recording has to stay well under ~15 MB.
+ */
+const MAX_RECORDING_MS = 60_000
+
+/** ~7.5 MB per minute - readable UI text without blowing the size budget */
+const VIDEO_BITS_PER_SECOND = 1_000_000
+
+let recorder: MediaRecorder | null = null
+let autoStopTimer: ReturnType<typeof setTimeout> | null = null
+
+chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
+  // Every extension page sees every runtime message - only handle ours
+  if (message.target !== 'offscreen') return
+
+  if (message.action === 'startRecording') {
+    startRecording(message.streamId)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => {
+        console.error('[Recorder] Failed to start recording:', error)
+        sendResponse({ success: false, error: error.message })
+      })
+    return true
+  }
+
+  if (message.action === 'stopRecording') {
+    stopRecording()
+    sendResponse({ success: true })
+    return true
+  }
+})
+
+async function startRecording(streamId: string): Promise<void> {
+  if (recorder) {
+    throw new Error('A recording is already in progress')
+  }
+
+  // chromeMediaSource is Chrome's non-standard tab capture constraint
+  const source = { mandatory: { chromeMediaSource: 'tab', chromeMediaSourceId: streamId } }
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: source,
+    video: source,
+  } as MediaStreamConstraints)
+
+  // Capturing a tab mutes it for the user - play the audio back through
+  // this document so the page doesn't go silent while recording.
+  const audioContext = new AudioContext()
+  audioContext.createMediaStreamSource(stream).connect(audioContext.destination)
+
+  const chunks: Blob[] = []
+  const startedAt = Date.now()
+  const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9,opus')
+    ? 'video/webm;codecs=vp9,opus'
+    : 'video/webm'
+
+  const activeRecorder = new MediaRecorder(stream, {
+    mimeType,
+    videoBitsPerSecond: VIDEO_BITS_PER_SECOND,
+  })
+  recorder = activeRecorder
+
+  activeRecorder.ondataavailable = (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data)
+    }
+  }
+
+  // Also fires when the tab is closed or navigates away from capture
+  activeRecorder.onstop = async () => {
+    recorder = null
+    if (autoStopTimer) {
+      clearTimeout(autoStopTimer)
+      autoStopTimer = null
+    }
+    stream.getTracks().forEach((track) => track.stop())
+    audioContext.close()
+
+    try {
+      const id = crypto.randomUUID()
+      await saveRecording({
+        id,
+        blob: new Blob(chunks, { type: 'video/webm' }),
+        durationMs: Date.now() - startedAt,
+        createdAt: startedAt,
+      })
+      chrome.runtime.sendMessage({ action: 'recordingFinished', recordingId: id })
+    } catch (error) {
+      console.error('[Recorder] Failed to save recording:', error)
+      chrome.runtime.sendMessage({
+        action: 'recordingFailed',
+        error: error instanceof Error ? error.message : 'Failed to save recording',
+      })
+    }
+  }
+
+  // Emit data every second so a recording cut short still has content
+  activeRecorder.start(1000)
+  autoStopTimer = setTimeout(stopRecording, MAX_RECORDING_MS)
+}
+
+function stopRecording(): void {
+  if (recorder?.state === 'recording') {
+    recorder.stop()
+  }
+}
@@ -4,8 +4,24 @@ import {
   setFizzyCredentials, 
   clearFizzyCredentials,
   clearBasecampCredentials,
+  getRedactionSettings,
+  setRedactionSettings,
+  getMetadataExtractors,
+  setMetadataExtractors,
+  getColorPalettes,
+  setColorPalettes,
+  type ColorPalette,
   type IntegrationCredentials,
 } from '../lib/storage'
+import { DEFAULT_REDACTED_QUERY_PARAMS } from '../lib/network'
+import { validatePattern } from '../lib/redaction'
+import { parsePaletteColors } from '../lib/colors'
+import {
+  formatExtractorLines,
+  normalizeOrigin,
+  parseExtractorLines,
+  type OriginExtractors,
+} from '../lib/extractors'
 
 export function Options() {
   const [credentials, setCredentials] = useState<IntegrationCredentials>({})
@@ -48,6 +64,12 @@ export function Options() {
           onUpdate={loadCredentials} 
         />
 
+        <RedactionSettingsSection />
+
+        <MetadataExtractorsSection />
+
+        <ColorPalettesSection />
+
         <section className="section">
           <h2>URL Default Boards</h2>
           <p className="help-text">
@@ -418,6 +440,405 @@ function BasecampSettings({ credentials, onUpdate }: BasecampSettingsProps) {
   )
 }
 
+// ============ Redaction Settings ============
+
+function RedactionSettingsSection() {
+  const [queryParams, setQueryParams] = useState('')
+  const [patterns, setPatterns] = useState('')
+  const [fragmentOrigins, setFragmentOrigins] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    getRedactionSettings().then((settings) => {
+      setQueryParams(settings.queryParams.join(', '))
+      setPatterns(settings.patterns.join('\n'))
+      setFragmentOrigins(settings.stripFragmentOrigins.join(', '))
+    })
+  }, [])
+
+  const handleSave = async () => {
+    setMessage(null)
+
+    const patternList = patterns.split('\n').map((pattern) => pattern.trim()).filter(Boolean)
+    for (const pattern of patternList) {
+      const error = validatePattern(pattern)
+      if (error) {
+        setMessage({ type: 'error', text: `Invalid pattern ${pattern}: ${error}` })
+        return
+      }
+    }
+
+    const originList: string[] = []
+    for (const entry of fragmentOrigins.split(/[\s,]+/).filter(Boolean)) {
+      const origin = normalizeOrigin(entry)
+      if (!origin) {
+        setMessage({ type: 'error', text: `"${entry}" is not a valid origin` })
+        return
+      }
+      originList.push(origin)
+    }
+
+    setSaving(true)
+    try {
+      const paramList = queryParams
+        .split(/[\s,]+/)
+        .map((param) => param.trim())
+        .filter(Boolean)
+      await setRedactionSettings({ queryParams: paramList, patterns: patternList, stripFragmentOrigins: originList })
+      setQueryParams(paramList.join(', '))
+      setPatterns(patternList.join('\n'))
+      setFragmentOrigins(originList.join(', '))
+      setMessage({ type: 'success', text: 'Redaction settings saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to save redaction settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReset = () => {
+    setQueryParams(DEFAULT_REDACTED_QUERY_PARAMS.join(', '))
+    setPatterns('')
+    setFragmentOrigins('')
+    setMessage(null)
+  }
+
+  return (
+    <section className="section">
+      <h2>Redaction</h2>
+      <p className="help-text">
+        These rules are applied to the page URL and title, console output, recorded requests and
+        reproduction steps before a report is sent - the annotate page previews the result. Recorded
+        requests only keep standard headers such as Content-Type and Cache-Control, never
+        Authorization, cookies or custom credential headers like X-Api-Key.
+      </p>
+
+      {message && (
+        <div className={`message ${message.type}`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="form-group">
+        <label htmlFor="redacted-query-params">Query parameters to redact</label>
+        <input
+          type="text"
+          id="redacted-query-params"
+          value={queryParams}
+          onChange={(e) => setQueryParams(e.target.value)}
+          placeholder="token, api_key, password"
+          disabled={saving}
+        />
+        <p className="field-hint">Comma-separated, case-insensitive. Their values are replaced in every URL.</p>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="redaction-patterns">Patterns to redact</label>
+        <textarea
+          id="redaction-patterns"
+          value={patterns}
+          onChange={(e) => setPatterns(e.target.value)}
+          placeholder={'[\\w.+-]+@[\\w-]+\\.[\\w.]+\nacct_[0-9]+'}
+          rows={3}
+          disabled={saving}
+        />
+        <p className="field-hint">
+          One regular expression per line, case-insensitive. Matches are replaced with [REDACTED].
+        </p>
+      </div>
+
+      <div className="form-group">
+        <label htmlFor="strip-fragment-origins">Strip URL fragments on</label>
+        <input
+          type="text"
+          id="strip-fragment-origins"
+          value={fragmentOrigins}
+          onChange={(e) => setFragmentOrigins(e.target.value)}
+          placeholder="https://app.example.com"
+          disabled={saving}
+        />
+        <p className="field-hint">
+          Comma-separated origins whose URLs lose everything after # - for sites that keep auth tokens
+          in the fragment.
+        </p>
+      </div>
+
+      <div className="button-group">
+        <button className="primary-btn" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button className="secondary-btn" onClick={handleReset} disabled={saving}>
+          Reset to Defaults
+        </button>
+      </div>
+    </section>
+  )
+}
+
+// ============ Custom Metadata Settings ============
+
+interface ExtractorDraft {
+  origin: string
+  lines: string
+}
+
+function MetadataExtractorsSection() {
+  const [drafts, setDrafts] = useState<ExtractorDraft[]>([])
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    getMetadataExtractors().then((configs) => {
+      setDrafts(configs.map((config) => ({
+        origin: config.origin,
+        lines: formatExtractorLines(config.extractors),
+      })))
+    })
+  }, [])
+
+  const updateDraft = (index: number, changes: Partial<ExtractorDraft>) => {
+    setDrafts((list) => list.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)))
+  }
+
+  const handleSave = async () => {
+    setMessage(null)
+
+    const configs: OriginExtractors[] = []
+    for (const draft of drafts) {
+      if (!draft.origin.trim() && !draft.lines.trim()) continue
+
+      const origin = normalizeOrigin(draft.origin)
+      if (!origin) {
+        setMessage({ type: 'error', text: `"${draft.origin}" is not a valid origin` })
+        return
+      }
+      const { extractors, invalid } = parseExtractorLines(draft.lines)
+      if (invalid.length > 0) {
+        setMessage({
+          type: 'error',
+          text: `${origin}: line ${invalid.join(', ')} should look like "Label = source:query"`,
+        })
+        return
+      }
+      configs.push({ origin, extractors })
+    }
+
+    setSaving(true)
+    try {
+      await setMetadataExtractors(configs)
+      setDrafts(configs.map((config) => ({
+        origin: config.origin,
+        lines: formatExtractorLines(config.extractors),
+      })))
+      setMessage({ type: 'success', text: 'Custom metadata settings saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to save custom metadata settings' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <section className="section">
+      <h2>Custom Metadata</h2>
+      <p className="help-text">
+        Add app-specific values - build SHA, tenant ID, feature flags - to reports captured on your own
+        sites. Each extractor reads one value from the page when you capture it and adds it as a row
+        below the page details.
+      </p>
+
+      {message && (
+        <div className={`message ${message.type}`}>
+          {message.text}
+        </div>
+      )}
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="extractor-origin">
+          <div className="form-group">
+            <label htmlFor={`extractor-origin-${index}`}>Origin</label>
+            <div className="input-with-button">
+              <input
+                type="text"
+                id={`extractor-origin-${index}`}
+                value={draft.origin}
+                onChange={(e) => updateDraft(index, { origin: e.target.value })}
+                placeholder="https://app.example.com"
+                disabled={saving}
+              />
+              <button
+                className="secondary-btn"
+                onClick={() => setDrafts((list) => list.filter((_, i) => i !== index))}
+                disabled={saving}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label htmlFor={`extractor-lines-${index}`}>Extractors</label>
+            <textarea
+              id={`extractor-lines-${index}`}
+              value={draft.lines}
+              onChange={(e) => updateDraft(index, { lines: e.target.value })}
+              placeholder={'Build = meta:build-sha\nTenant = global:__APP__.tenantId\nPlan = selector:#plan-name\nFlags = localStorage:featureFlags'}
+              rows={4}
+              disabled={saving}
+            />
+            <p className="field-hint">
+              One per line as <code>Label = source:query</code>, where source is <code>meta</code> (meta
+              tag name), <code>selector</code> (CSS selector), <code>global</code> (path from window)
+              or <code>localStorage</code> (key).
+            </p>
+          </div>
+        </div>
+      ))}
+
+      <div className="button-group">
+        <button className="primary-btn" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          className="secondary-btn"
+          onClick={() => setDrafts((list) => [...list, { origin: '', lines: '' }])}
+          disabled={saving}
+        >
+          Add Origin
+        </button>
+      </div>
+    </section>
+  )
+}
+
+// ============ Color Palettes ============
+
+interface PaletteDraft {
+  name: string
+  colors: string
+}
+
+function ColorPalettesSection() {
+  const [drafts, setDrafts] = useState<PaletteDraft[]>([])
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null)
+
+  useEffect(() => {
+    getColorPalettes().then((palettes) => {
+      setDrafts(palettes.map((palette) => ({ name: palette.name, colors: palette.colors.join(', ') })))
+    })
+  }, [])
+
+  const updateDraft = (index: number, changes: Partial<PaletteDraft>) => {
+    setDrafts((list) => list.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)))
+  }
+
+  const handleSave = async () => {
+    setMessage(null)
+
+    const palettes: ColorPalette[] = []
+    for (const draft of drafts) {
+      if (!draft.name.trim() && !draft.colors.trim()) continue
+
+      const name = draft.name.trim()
+      if (!name) {
+        setMessage({ type: 'error', text: 'Every palette needs a name' })
+        return
+      }
+      const { colors, invalid } = parsePaletteColors(draft.colors)
+      if (invalid.length > 0) {
+        setMessage({ type: 'error', text: `${name}: ${invalid.join(', ')} should be hex colors like #3b82f6` })
+        return
+      }
+      if (colors.length === 0) {
+        setMessage({ type: 'error', text: `${name}: add at least one color` })
+        return
+      }
+      palettes.push({ name, colors })
+    }
+
+    setSaving(true)
+    try {
+      await setColorPalettes(palettes)
+      setDrafts(palettes.map((palette) => ({ name: palette.name, colors: palette.colors.join(', ') })))
+      setMessage({ type: 'success', text: 'Color palettes saved' })
+    } catch (error) {
+      setMessage({ type: 'error', text: 'Failed to save color palettes' })
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <section className="section">
+      <h2>Color Palettes</h2>
+      <p className="help-text">
+        Add your team's colors to the annotation toolbar so annotations match your design system.
+      </p>
+
+      {message && (
+        <div className={`message ${message.type}`}>
+          {message.text}
+        </div>
+      )}
+
+      {drafts.map((draft, index) => (
+        <div key={index} className="color-palette">
+          <div className="form-group">
+            <label htmlFor={`palette-name-${index}`}>Name</label>
+            <div className="input-with-button">
+              <input
+                type="text"
+                id={`palette-name-${index}`}
+                value={draft.name}
+                onChange={(e) => updateDraft(index, { name: e.target.value })}
+                placeholder="Brand"
+                disabled={saving}
+              />
+              <button
+                className="secondary-btn"
+                onClick={() => setDrafts((list) => list.filter((_, i) => i !== index))}
+                disabled={saving}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <div className="form-group">
+            <label htmlFor={`palette-colors-${index}`}>Colors</label>
+            <input
+              type="text"
+              id={`palette-colors-${index}`}
+              value={draft.colors}
+              onChange={(e) => updateDraft(index, { colors: e.target.value })}
+              placeholder="#0f172a, #38bdf8, #f43f5e"
+              disabled={saving}
+            />
+            <div className="palette-swatches">
+              {parsePaletteColors(draft.colors).colors.map((color) => (
+                <span key={color} style={{ backgroundColor: color }} title={color} />
+              ))}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="button-group">
+        <button className="primary-btn" onClick={handleSave} disabled={saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+        <button
+          className="secondary-btn"
+          onClick={() => setDrafts((list) => [...list, { name: '', colors: '' }])}
+          disabled={saving}
+        >
+          Add Palette
+        </button>
+      </div>
+    </section>
+  )
+}
+
 // ============ Icons ============
 
 function FizzyIcon() {
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react'
 import { captureMetadata, type PageMetadata } from '@/lib/metadata'
 import { getConfiguredIntegrations, type Integration } from '@/lib/integrations'
+import { saveImage } from '@/lib/image-store'
 
 type AppState = 'checking' | 'no-integrations' | 'idle' | 'capturing'
 
@@ -34,10 +35,11 @@ export function Popup() {
       // Capture metadata
       const metadata: PageMetadata = await captureMetadata()
       
-      // Store in session storage for the annotation page
+      // Store for the annotation page - the image itself is too big for
+      // session storage
       await chrome.storage.session.set({
         annotationSession: {
-          imageDataUrl: response.dataUrl,
+          imageId: await saveImage(response.dataUrl),
           metadata,
         }
       })
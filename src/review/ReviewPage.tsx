@@ -0,0 +1,254 @@
+import { useState, useEffect, useRef } from 'react'
+import type { PageMetadata } from '@/lib/metadata'
+import { getRecording, saveRecording, deleteRecording, type StoredRecording } from '@/lib/recording-store'
+import { saveImage } from '@/lib/image-store'
+import {
+  clampTrimRange,
+  isFullRange,
+  formatTimestamp,
+  captureFrame,
+  trimRecording,
+  type TrimRange,
+} from './trim'
+import { recordingToGif, GIF_FRAME_RATES, GIF_WIDTHS, MAX_GIF_SECONDS } from './gif'
+
+type ReviewState = 'loading' | 'reviewing' | 'saving' | 'error'
+
+interface RecordingReview {
+  recordingId: string
+  metadata: PageMetadata
+}
+
+export function ReviewPage() {
+  const [state, setState] = useState<ReviewState>('loading')
+  const [error, setError] = useState<string | null>(null)
+  const [review, setReview] = useState<RecordingReview | null>(null)
+  const [recording, setRecording] = useState<StoredRecording | null>(null)
+  const [videoUrl, setVideoUrl] = useState<string | null>(null)
+  const [range, setRange] = useState<TrimRange>({ start: 0, end: 0 })
+  const [makeGif, setMakeGif] = useState(true)
+  const [gifFps, setGifFps] = useState<number>(10)
+  const [gifWidth, setGifWidth] = useState<number>(480)
+  const [gifProgress, setGifProgress] = useState<number | null>(null)
+  const videoRef = useRef<HTMLVideoElement>(null)
+
+  // MediaRecorder WebM has no duration header (video.duration is Infinity),
+  // so the length measured by the recorder is used instead
+  const duration = recording ? recording.durationMs / 1000 : 0
+
+  useEffect(() => {
+    loadRecording()
+  }, [])
+
+  useEffect(() => {
+    if (!recording) return
+    const url = URL.createObjectURL(recording.blob)
+    setVideoUrl(url)
+    return () => URL.revokeObjectURL(url)
+  }, [recording])
+
+  const loadRecording = async () => {
+    try {
+      const { recordingReview } = await chrome.storage.session.get('recordingReview')
+      if (!recordingReview) {
+        throw new Error('No recording to review. Record a tab from the PopShot menu first.')
+      }
+
+      const stored = await getRecording(recordingReview.recordingId)
+      if (!stored) {
+        throw new Error('The recording could not be found')
+      }
+
+      setReview(recordingReview)
+      setRecording(stored)
+      setRange({ start: 0, end: stored.durationMs / 1000 })
+      setState('reviewing')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load recording')
+      setState('error')
+    }
+  }
+
+  const updateRange = (next: TrimRange) => {
+    const clamped = clampTrimRange(next, duration)
+    setRange(clamped)
+    if (videoRef.current) {
+      // Preview whichever handle moved
+      videoRef.current.currentTime = clamped.start !== range.start ? clamped.start : clamped.end
+    }
+  }
+
+  const handleContinue = async () => {
+    if (!review || !recording || !videoRef.current) return
+    setState('saving')
+
+    try {
+      const posterDataUrl = await captureFrame(videoRef.current, range.start)
+
+      let updated = recording
+      if (makeGif) {
+        setGifProgress(0)
+        const gif = await recordingToGif(recording.blob, range, { fps: gifFps, width: gifWidth }, setGifProgress)
+        updated = { ...updated, gif }
+      }
+      if (!isFullRange(range, duration)) {
+        setGifProgress(null)
+        updated = {
+          ...updated,
+          blob: await trimRecording(recording.blob, range),
+          durationMs: Math.round((range.end - range.start) * 1000),
+        }
+      }
+      if (updated !== recording) {
+        await saveRecording(updated)
+      }
+
+      // The first frame stands in as the screenshot; the video rides along
+      await chrome.storage.session.set({
+        annotationSession: {
+          imageId: await saveImage(posterDataUrl),
+          metadata: review.metadata,
+          recordingId: recording.id,
+        }
+      })
+      await chrome.storage.session.remove('recordingReview')
+
+      window.location.href = chrome.runtime.getURL('src/annotate/index.html')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save recording')
+      setGifProgress(null)
+      setState('reviewing')
+    }
+  }
+
+  const handleDiscard = async () => {
+    if (recording) {
+      await deleteRecording(recording.id)
+    }
+    await chrome.storage.session.remove('recordingReview')
+    window.close()
+  }
+
+  if (state === 'loading') {
+    return (
+      <div className="review-page centered">
+        <div className="loading">Loading recording...</div>
+      </div>
+    )
+  }
+
+  if (state === 'error' || !recording) {
+    return (
+      <div className="review-page centered">
+        <h2>Something went wrong</h2>
+        <p className="review-error">{error}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="review-page">
+      <header className="review-header">
+        <h1>Review Recording</h1>
+        <span className="review-meta">
+          {review?.metadata.title} · {formatTimestamp(duration)}
+        </span>
+      </header>
+
+      <main className="review-content">
+        {videoUrl && (
+          <video ref={videoRef} className="review-video" src={videoUrl} controls />
+        )}
+
+        <div className="trim-controls">
+          <label className="trim-field">
+            <span>Start {formatTimestamp(range.start)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={range.start}
+              onChange={(e) => updateRange({ ...range, start: parseFloat(e.target.value) })}
+              disabled={state === 'saving'}
+            />
+          </label>
+          <label className="trim-field">
+            <span>End {formatTimestamp(range.end)}</span>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={0.1}
+              value={range.end}
+              onChange={(e) => updateRange({ ...range, end: parseFloat(e.target.value) })}
+              disabled={state === 'saving'}
+            />
+          </label>
+          <p className="trim-hint">
+            Clip length {formatTimestamp(range.end - range.start)}. The first frame of the clip
+            becomes the screenshot you annotate.
+          </p>
+        </div>
+
+        <div className="gif-controls">
+          <label className="gif-toggle">
+            <input
+              type="checkbox"
+              checked={makeGif}
+              onChange={(e) => setMakeGif(e.target.checked)}
+              disabled={state === 'saving'}
+            />
+            <span>
+              Also embed an animated GIF that plays inline
+              {range.end - range.start > MAX_GIF_SECONDS && ` (first ${MAX_GIF_SECONDS}s of the clip)`}
+            </span>
+          </label>
+          {makeGif && (
+            <div className="gif-options">
+              <label>
+                Frame rate
+                <select
+                  value={gifFps}
+                  onChange={(e) => setGifFps(parseInt(e.target.value, 10))}
+                  disabled={state === 'saving'}
+                >
+                  {GIF_FRAME_RATES.map((fps) => (
+                    <option key={fps} value={fps}>{fps} fps</option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Width
+                <select
+                  value={gifWidth}
+                  onChange={(e) => setGifWidth(parseInt(e.target.value, 10))}
+                  disabled={state === 'saving'}
+                >
+                  {GIF_WIDTHS.map((width) => (
+                    <option key={width} value={width}>{width}px</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+          )}
+        </div>
+
+        {error && <div className="review-error">{error}</div>}
+
+        <div className="review-actions">
+          <button className="discard-btn" onClick={handleDiscard} disabled={state === 'saving'}>
+            Discard
+          </button>
+          <button className="continue-btn" onClick={handleContinue} disabled={state === 'saving'}>
+            {state !== 'saving'
+              ? 'Continue to Report'
+              : gifProgress !== null
+                ? `Creating GIF... ${Math.round(gifProgress * 100)}%`
+                : isFullRange(range, duration) ? 'Saving...' : 'Trimming...'}
+          </button>
+        </div>
+      </main>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest'
+import { gifFrameTimes, gifSize, MAX_GIF_SECONDS } from './gif'
+
+describe('gifFrameTimes', () => {
+  it('samples the range at the frame rate', () => {
+    expect(gifFrameTimes({ start: 2, end: 3 }, 5)).toEqual([2, 2.2, 2.4, 2.6, 2.8])
+  })
+
+  it('stops MAX_GIF_SECONDS after the start of the range', () => {
+    const times = gifFrameTimes({ start: 10, end: 60 }, 10)
+
+    expect(times).toHaveLength(MAX_GIF_SECONDS * 10)
+    expect(times[times.length - 1]).toBeLessThan(10 + MAX_GIF_SECONDS)
+  })
+
+  it('always yields at least one frame', () => {
+    expect(gifFrameTimes({ start: 4, end: 4.05 }, 5)).toEqual([4])
+  })
+})
+
+describe('gifSize', () => {
+  it('scales down to the requested width keeping the aspect ratio', () => {
+    expect(gifSize(1920, 1080, 480)).toEqual({ width: 480, height: 270 })
+  })
+
+  it('never upscales', () => {
+    expect(gifSize(400, 300, 640)).toEqual({ width: 400, height: 300 })
+  })
+
+  it('rounds both sides down to even numbers', () => {
+    expect(gifSize(1001, 777, 1001)).toEqual({ width: 1000, height: 776 })
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Animated GIF export for tab recordings
+ *
+ * Fizzy and Basecamp play GIFs inline on the card or to-do, while a video
+ * attachment needs a click, so short clips can also be sent as a GIF. Frames
+ * are pulled out of the recording by seeking a video element and drawing it
+ * to a canvas, then handed to the local encoder.
+ */
+
+import { GifEncoder } from '@/lib/gif-encoder'
+import { seekVideo, type TrimRange } from './trim'
+
+/** Longest stretch of a recording turned into a GIF, in seconds */
+export const MAX_GIF_SECONDS = 15
+
+/** Frame rates offered for GIF export */
+export const GIF_FRAME_RATES = [5, 10, 15] as const
+
+/** Output widths offered for GIF export (height follows the aspect ratio) */
+export const GIF_WIDTHS = [320, 480, 640] as const
+
+export interface GifOptions {
+  fps: number
+  width: number
+}
+
+/**
+ * Timestamps (seconds) to sample for a GIF of `range` at `fps`, capped at
+ * MAX_GIF_SECONDS from the start of the range
+ */
+export function gifFrameTimes(range: TrimRange, fps: number): number[] {
+  const end = Math.min(range.end, range.start + MAX_GIF_SECONDS)
+  const count = Math.max(1, Math.floor((end - range.start) * fps))
+  return Array.from({ length: count }, (_, i) => range.start + i / fps)
+}
+
+/**
+ * Output size for a GIF of a `videoWidth` x `videoHeight` recording. Never
+ * upscales, and keeps both sides even so the frames scale cleanly.
+ */
+export function gifSize(
+  videoWidth: number,
+  videoHeight: number,
+  maxWidth: number
+): { width: number; height: number } {
+  const width = Math.min(maxWidth, videoWidth)
+  const height = Math.round((videoHeight * width) / videoWidth)
+  return {
+    width: Math.max(2, width - (width % 2)),
+    height: Math.max(2, height - (height % 2)),
+  }
+}
+
+/**
+ * Encode `range` of a recording as an animated GIF. onProgress receives
+ * 0..1 as frames are extracted.
+ */
+export async function recordingToGif(
+  blob: Blob,
+  range: TrimRange,
+  options: GifOptions,
+  onProgress?: (progress: number) => void
+): Promise<Blob> {
+  const url = URL.createObjectURL(blob)
+  const video = document.createElement('video')
+  video.src = url
+  video.muted = true
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve()
+      video.onerror = () => reject(new Error('Failed to load the recording'))
+    })
+
+    const { width, height } = gifSize(video.videoWidth, video.videoHeight, options.width)
+    const canvas = document.createElement('canvas')
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext('2d', { willReadFrequently: true })
+    if (!ctx) {
+      throw new Error('Failed to create frame canvas')
+    }
+
+    const encoder = new GifEncoder(width, height)
+    const times = gifFrameTimes(range, options.fps)
+    const delayMs = 1000 / options.fps
+
+    for (let i = 0; i < times.length; i++) {
+      await seekVideo(video, times[i])
+      ctx.drawImage(video, 0, 0, width, height)
+      encoder.addFrame(ctx.getImageData(0, 0, width, height).data, delayMs)
+      onProgress?.((i + 1) / times.length)
+    }
+
+    return new Blob([encoder.encode()], { type: 'image/gif' })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
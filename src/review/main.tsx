@@ -0,0 +1,10 @@
+import { StrictMode } from 'react'
+import { createRoot } from 'react-dom/client'
+import { ReviewPage } from './ReviewPage'
+import './review.css'
+
+createRoot(document.getElementById('root')!).render(
+  <StrictMode>
+    <ReviewPage />
+  </StrictMode>
+)
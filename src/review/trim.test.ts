@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { clampTrimRange, isFullRange, formatTimestamp, MIN_TRIM_LENGTH } from './trim'
+
+describe('clampTrimRange', () => {
+  it('leaves a valid range alone', () => {
+    expect(clampTrimRange({ start: 2, end: 8 }, 10)).toEqual({ start: 2, end: 8 })
+  })
+
+  it('clamps the range into the recording', () => {
+    expect(clampTrimRange({ start: -1, end: 12 }, 10)).toEqual({ start: 0, end: 10 })
+  })
+
+  it('keeps the clip at least MIN_TRIM_LENGTH long', () => {
+    const range = clampTrimRange({ start: 5, end: 5 }, 10)
+
+    expect(range.start).toBe(5)
+    expect(range.end).toBe(5 + MIN_TRIM_LENGTH)
+  })
+
+  it('pulls the start back when it is dragged past the end of the recording', () => {
+    expect(clampTrimRange({ start: 10, end: 10 }, 10)).toEqual({ start: 10 - MIN_TRIM_LENGTH, end: 10 })
+  })
+
+  it('allows the whole recording when it is shorter than MIN_TRIM_LENGTH', () => {
+    expect(clampTrimRange({ start: 0, end: 0.2 }, 0.2)).toEqual({ start: 0, end: 0.2 })
+  })
+})
+
+describe('isFullRange', () => {
+  it('is true only when the range spans the whole recording', () => {
+    expect(isFullRange({ start: 0, end: 10 }, 10)).toBe(true)
+    expect(isFullRange({ start: 1, end: 10 }, 10)).toBe(false)
+    expect(isFullRange({ start: 0, end: 9 }, 10)).toBe(false)
+  })
+})
+
+describe('formatTimestamp', () => {
+  it('formats minutes, seconds and tenths', () => {
+    expect(formatTimestamp(0)).toBe('0:00.0')
+    expect(formatTimestamp(5.25)).toBe('0:05.2')
+    expect(formatTimestamp(75.5)).toBe('1:15.5')
+  })
+})
@@ -0,0 +1,135 @@
+/**
+ * Trimming and poster frames for tab recordings
+ *
+ * There is no WebM muxer in the browser, so a trim is a re-recording: the
+ * video element plays the selected range while a MediaRecorder records its
+ * captureStream(). That takes as long as the trimmed clip, which is fine for
+ * recordings capped at a minute.
+ */
+
+/** Shortest clip a trim can produce, in seconds */
+export const MIN_TRIM_LENGTH = 0.5
+
+export interface TrimRange {
+  /** Seconds from the start of the recording */
+  start: number
+  end: number
+}
+
+/**
+ * Clamp a trim range into [0, duration], keeping the start before the end
+ * and the clip at least MIN_TRIM_LENGTH long (or the whole recording, if
+ * that is shorter).
+ */
+export function clampTrimRange(range: TrimRange, duration: number): TrimRange {
+  const minLength = Math.min(MIN_TRIM_LENGTH, duration)
+  const start = Math.min(Math.max(0, range.start), duration - minLength)
+  const end = Math.max(Math.min(duration, range.end), start + minLength)
+  return { start, end }
+}
+
+/**
+ * Whether a range covers the whole recording (so there is nothing to trim)
+ */
+export function isFullRange(range: TrimRange, duration: number): boolean {
+  return range.start <= 0 && range.end >= duration
+}
+
+/**
+ * Format seconds as m:ss.t for the trim controls
+ */
+export function formatTimestamp(seconds: number): string {
+  const tenths = Math.floor(Math.max(0, seconds) * 10)
+  const minutes = Math.floor(tenths / 600)
+  const secs = Math.floor((tenths % 600) / 10)
+  return `${minutes}:${String(secs).padStart(2, '0')}.${tenths % 10}`
+}
+
+/**
+ * Seek a video and wait for the frame to be available
+ */
+export function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onSeeked = () => {
+      video.removeEventListener('error', onError)
+      resolve()
+    }
+    const onError = () => {
+      video.removeEventListener('seeked', onSeeked)
+      reject(new Error('Failed to seek the recording'))
+    }
+    video.addEventListener('seeked', onSeeked, { once: true })
+    video.addEventListener('error', onError, { once: true })
+    video.currentTime = time
+  })
+}
+
+/**
+ * Grab the frame at `time` as a PNG data URL, to stand in as the report's
+ * screenshot
+ */
+export async function captureFrame(video: HTMLVideoElement, time: number): Promise<string> {
+  await seekVideo(video, time)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = video.videoWidth
+  canvas.height = video.videoHeight
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    throw new Error('Failed to create frame canvas')
+  }
+  ctx.drawImage(video, 0, 0)
+  return canvas.toDataURL('image/png')
+}
+
+/**
+ * Re-record `range` of a recording into a new WebM blob
+ */
+export async function trimRecording(blob: Blob, range: TrimRange): Promise<Blob> {
+  const url = URL.createObjectURL(blob)
+  const video = document.createElement('video')
+  video.src = url
+  video.muted = true
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadeddata = () => resolve()
+      video.onerror = () => reject(new Error('Failed to load the recording'))
+    })
+    await seekVideo(video, range.start)
+
+    // captureStream() is missing from the DOM typings
+    const stream = (video as HTMLVideoElement & { captureStream(): MediaStream }).captureStream()
+    const recorder = new MediaRecorder(stream, { mimeType: blob.type || 'video/webm' })
+    const chunks: Blob[] = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data)
+      }
+    }
+
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve()
+    })
+
+    const onTimeUpdate = () => {
+      if (video.currentTime >= range.end || video.ended) {
+        video.removeEventListener('timeupdate', onTimeUpdate)
+        video.pause()
+        if (recorder.state === 'recording') {
+          recorder.stop()
+        }
+      }
+    }
+    video.addEventListener('timeupdate', onTimeUpdate)
+    video.addEventListener('ended', onTimeUpdate)
+
+    recorder.start()
+    await video.play()
+    await stopped
+
+    return new Blob(chunks, { type: blob.type || 'video/webm' })
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
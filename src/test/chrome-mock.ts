@@ -63,7 +63,11 @@ export const chromeMock = {
     onInstalled: {
       addListener: vi.fn(),
     },
+    onStartup: {
+      addListener: vi.fn(),
+    },
     getURL: vi.fn((path: string) => `chrome-extension://mock-id/${path}`),
+    getManifest: vi.fn(() => ({ manifest_version: 3, name: 'PopShot', version: '0.5.0' })),
     openOptionsPage: vi.fn(async () => {}),
   },
   identity: {
@@ -98,6 +102,11 @@ export const chromeMock = {
       addListener: vi.fn(),
     },
   },
+  commands: {
+    onCommand: {
+      addListener: vi.fn(),
+    },
+  },
 }
 
 /**
@@ -25,6 +25,8 @@ export default defineConfig(({ mode }) => ({
         options: resolve(__dirname, 'src/options/index.html'),
         annotate: resolve(__dirname, 'src/annotate/index.html'),
         history: resolve(__dirname, 'src/history/index.html'),
+        review: resolve(__dirname, 'src/review/index.html'),
+        offscreen: resolve(__dirname, 'src/offscreen/index.html'),
       },
     },
   },